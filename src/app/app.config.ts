@@ -1,18 +1,29 @@
 import { ApplicationConfig, provideBrowserGlobalErrorListeners, isDevMode } from '@angular/core';
 import { provideRouter } from '@angular/router';
-import { provideHttpClient } from '@angular/common/http';
+import { provideHttpClient, withInterceptors } from '@angular/common/http';
 import { provideStore } from '@ngrx/store';
+import { provideEffects } from '@ngrx/effects';
+import { provideRouterStore } from '@ngrx/router-store';
 import { provideStoreDevtools } from '@ngrx/store-devtools';
 
 import { routes } from './app.routes';
 import { appReducers } from './store/app.reducers';
+import { metaReducers, persistenceConfig } from './store/app.meta-reducers';
+import { providePersistenceRehydration } from './store/persistence/persistence.providers';
+import { AppRouterSerializer } from './store/router/router.serializer';
+import { SnapshotEffects } from './store/snapshot/snapshot.effects';
+import { inMemoryTodoBackendInterceptor } from '../services/in-memory-todo-backend';
 
 export const appConfig: ApplicationConfig = {
   providers: [
     provideBrowserGlobalErrorListeners(),
     provideRouter(routes),
-    provideHttpClient(),
-    provideStore(appReducers),
+    provideHttpClient(withInterceptors([inMemoryTodoBackendInterceptor])),
+    provideStore(appReducers, { metaReducers }),
+    // Root effects: feature effects are added by the routes that need them
+    provideEffects(SnapshotEffects),
+    provideRouterStore({ serializer: AppRouterSerializer }),
+    providePersistenceRehydration(persistenceConfig),
     provideStoreDevtools({
       maxAge: 25,
       logOnly: !isDevMode(),
@@ -1,35 +1,25 @@
 import { Routes } from '@angular/router';
-import { UserList } from './user-list/user-list';
-import { DataBinding } from './data-binding/data-binding';
-import { Directives } from './directives/directives';
-import { Home } from './home/home';
-import { Forms } from './forms/forms';
-import { UserPage } from './user-page/user-page';
-import { Signals } from './signals/signals';
-import { HttpExample } from './http-example/http-example';
-import { NgrxExample } from './ngrx-example/ngrx-example';
-import { CodeBlockDemo } from './code-block-demo/code-block-demo';
-import { BehaviorSubjectComponent } from './behavior-subject/behavior-subject';
 
+// Every page is lazy-loaded: its component (and its store slices) ship in a separate chunk
 export const routes: Routes = [
   {
     path: '',
-    component: Home,
+    loadComponent: () => import('./home/home').then((m) => m.Home),
   },
   {
     path: 'basics',
     children: [
       {
         path: 'data-binding',
-        component: DataBinding,
+        loadComponent: () => import('./data-binding/data-binding').then((m) => m.DataBinding),
       },
       {
         path: 'directives',
-        component: Directives,
+        loadComponent: () => import('./directives/directives').then((m) => m.Directives),
       },
       {
         path: 'forms',
-        component: Forms,
+        loadComponent: () => import('./forms/forms').then((m) => m.Forms),
       },
     ],
   },
@@ -38,11 +28,11 @@ export const routes: Routes = [
     children: [
       {
         path: 'signals',
-        component: Signals,
+        loadComponent: () => import('./signals/signals').then((m) => m.Signals),
       },
       {
         path: 'http',
-        component: HttpExample,
+        loadComponent: () => import('./http-example/http-example').then((m) => m.HttpExample),
       },
     ],
   },
@@ -51,11 +41,20 @@ export const routes: Routes = [
     children: [
       {
         path: 'ngrx',
-        component: NgrxExample,
+        // Registers the counter, todo and actionsLog store slices (feature store)
+        loadChildren: () =>
+          import('./ngrx-example/ngrx-example.routes').then((m) => m.ngrxExampleRoutes),
+      },
+      {
+        path: 'signal-store',
+        // Signal stores + the NgRx feature slices they are compared with
+        loadChildren: () =>
+          import('./signal-store/signal-store.routes').then((m) => m.signalStoreRoutes),
       },
       {
         path: 'behavior-subject',
-        component: BehaviorSubjectComponent,
+        loadComponent: () =>
+          import('./behavior-subject/behavior-subject').then((m) => m.BehaviorSubjectComponent),
       },
     ],
   },
@@ -64,12 +63,14 @@ export const routes: Routes = [
     children: [
       {
         path: 'users',
-        component: UserPage,
+        // List + /examples/users/:id detail with its tabs
+        loadChildren: () => import('./user-page/user-page.routes').then((m) => m.userRoutes),
       },
     ],
   },
   {
     path: 'code-block-demo',
-    component: CodeBlockDemo,
+    loadComponent: () =>
+      import('./code-block-demo/code-block-demo').then((m) => m.CodeBlockDemo),
   },
 ];
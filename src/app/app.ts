@@ -3,13 +3,13 @@
 //
 // ROLE:
 // - Serve as the root component of the entire application
-// - Compose layout structure (navbar, router-outlet, modals)
+// - Compose layout structure (navbar, router-outlet, modals, toasts, store inspector)
 // - Apply global directives (LinkInterceptor)
 // - Manage top-level application concerns
 //
 // PATTERNS USED:
 // - Root component pattern
-// - Global composition (navbar, router, modals)
+// - Global composition (navbar, router, modals, toasts)
 // - Directive application (LinkInterceptor for external links)
 //
 // NOTES FOR CONTRIBUTORS:
@@ -23,11 +23,21 @@ import { RouterModule } from '@angular/router';
 import { Navbar } from './navbar/navbar';
 import { BouncingLogo } from './bouncing-logo/bouncing-logo';
 import { LinkModal } from './link-modal/link-modal';
+import { StoreInspector } from './store-inspector/store-inspector';
+import { ToastContainer } from './toast-container/toast-container';
 import { LinkInterceptor } from '../directives/link-interceptor.directive';
 
 @Component({
   selector: 'app-root',
-  imports: [RouterModule, Navbar, BouncingLogo, LinkModal, LinkInterceptor],
+  imports: [
+    RouterModule,
+    Navbar,
+    BouncingLogo,
+    LinkModal,
+    StoreInspector,
+    ToastContainer,
+    LinkInterceptor,
+  ],
   templateUrl: './app.html',
   styleUrl: './app.scss',
 })
@@ -0,0 +1,23 @@
+import { ComponentFixture, TestBed } from '@angular/core/testing';
+
+import { JsonTree } from './json-tree';
+
+describe('JsonTree', () => {
+  let component: JsonTree;
+  let fixture: ComponentFixture<JsonTree>;
+
+  beforeEach(async () => {
+    await TestBed.configureTestingModule({
+      imports: [JsonTree]
+    })
+    .compileComponents();
+
+    fixture = TestBed.createComponent(JsonTree);
+    component = fixture.componentInstance;
+    await fixture.whenStable();
+  });
+
+  it('should create', () => {
+    expect(component).toBeTruthy();
+  });
+});
@@ -0,0 +1,77 @@
+// COMPONENT TYPE: Presentational
+// SECTION: UI Components - JSON Tree
+//
+// ROLE:
+// - Render any JSON-like value as a collapsible tree
+// - Show a one-line preview for collapsed objects and arrays
+// - Color primitives by type (string, number, boolean, null)
+//
+// PATTERNS USED:
+// - Recursive standalone component (the template renders <app-json-tree> for children)
+// - Native <details> for expand/collapse (no extra state)
+//
+// NOTES FOR CONTRIBUTORS:
+// - Children are created only when a node is open, so large states stay cheap
+// - Pure display: never mutate the value, it usually comes straight from the Store
+
+import { Component, Input, OnInit } from '@angular/core';
+
+type JsonNodeKind = 'object' | 'array' | 'string' | 'number' | 'boolean' | 'null' | 'undefined';
+
+@Component({
+  selector: 'app-json-tree',
+  standalone: true,
+  templateUrl: './json-tree.html',
+  styleUrl: './json-tree.scss',
+})
+export class JsonTree implements OnInit {
+  // Value to render
+  @Input() value: unknown;
+
+  // Key or index shown before the value (omitted for the root)
+  @Input() label: string | null = null;
+
+  // Current nesting level, set by the parent node
+  @Input() depth = 0;
+
+  // Nodes shallower than this are expanded on first render
+  @Input() expandDepth = 1;
+
+  isOpen = false;
+
+  ngOnInit() {
+    this.isOpen = this.depth < this.expandDepth;
+  }
+
+  onToggle(event: Event) {
+    this.isOpen = (event.target as HTMLDetailsElement).open;
+  }
+
+  get kind(): JsonNodeKind {
+    if (this.value === null) return 'null';
+    if (Array.isArray(this.value)) return 'array';
+    const type = typeof this.value;
+    if (type === 'object') return 'object';
+    if (type === 'string' || type === 'number' || type === 'boolean') return type;
+    return 'undefined';
+  }
+
+  get isBranch(): boolean {
+    return this.kind === 'object' || this.kind === 'array';
+  }
+
+  // [key, value] pairs of an object or array
+  get children(): [string, unknown][] {
+    return Object.entries(this.value as object);
+  }
+
+  // Collapsed preview, e.g. "{3}" or "[12]"
+  get preview(): string {
+    const size = this.children.length;
+    return this.kind === 'array' ? `[${size}]` : `{${size}}`;
+  }
+
+  get display(): string {
+    return this.kind === 'undefined' ? 'undefined' : JSON.stringify(this.value);
+  }
+}
@@ -0,0 +1,147 @@
+// COMPONENT TYPE: Presentational
+// SECTION: Shared UI Components
+//
+// ROLE:
+// - Render long lists inside a scrollable viewport, creating only the visible items
+// - Lay the items out in as many columns as fit (a list is the one-column case)
+//
+// PATTERNS USED:
+// - Item template projected as <ng-template let-item> (like *ngFor, without the DOM cost)
+// - @Input setters feeding signals, computed window of visible rows
+// - ResizeObserver to follow the viewport size
+//
+// NOTES FOR CONTRIBUTORS:
+// - Every item has the same height (itemHeight): content taller than that is cut
+// - The host needs a height (e.g. height: 70vh) for the viewport to scroll
+// - Items outside the window are destroyed: keep their state in the parent, not in them
+
+import {
+  AfterViewInit,
+  Component,
+  ElementRef,
+  Input,
+  OnDestroy,
+  TemplateRef,
+  computed,
+  contentChild,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { NgTemplateOutlet } from '@angular/common';
+
+// Context of the item template: <ng-template let-item let-index="index">
+export interface VirtualScrollContext<T> {
+  $implicit: T;
+  index: number;
+}
+
+// Rows rendered above and below the visible ones, so fast scrolling shows no gaps
+const OVERSCAN_ROWS = 2;
+
+@Component({
+  selector: 'app-virtual-scroll',
+  imports: [NgTemplateOutlet],
+  templateUrl: './virtual-scroll.html',
+  styleUrl: './virtual-scroll.scss',
+})
+export class VirtualScroll<T> implements AfterViewInit, OnDestroy {
+  @Input() set items(items: T[]) {
+    this.itemsSignal.set(items);
+  }
+
+  // Height of one item in pixels, gap excluded
+  @Input() set itemHeight(height: number) {
+    this.itemHeightSignal.set(height);
+  }
+
+  // Narrowest item in pixels: decides the number of columns (0 = always one column)
+  @Input() set minItemWidth(width: number) {
+    this.minItemWidthSignal.set(width);
+  }
+
+  // Space between rows and columns, in pixels
+  @Input() set gap(gap: number) {
+    this.gapSignal.set(gap);
+  }
+
+  // Identity of an item, to keep its view while it stays in the window
+  @Input() trackBy: (item: T) => unknown = (item) => item;
+
+  template = contentChild.required<TemplateRef<VirtualScrollContext<T>>>(TemplateRef);
+
+  private viewport = viewChild.required<ElementRef<HTMLElement>>('viewport');
+
+  private itemsSignal = signal<T[]>([]);
+  private itemHeightSignal = signal(100);
+  private minItemWidthSignal = signal(0);
+  private gapSignal = signal(0);
+
+  // Read by the template, which sizes the grid tracks
+  readonly rowSize = this.itemHeightSignal.asReadonly();
+  readonly gapSize = this.gapSignal.asReadonly();
+
+  private scrollTop = signal(0);
+  private viewportSize = signal({ width: 0, height: 0 });
+  private resizeObserver?: ResizeObserver;
+
+  columns = computed(() => {
+    const minWidth = this.minItemWidthSignal();
+    const gap = this.gapSignal();
+    const width = this.viewportSize().width;
+    return minWidth > 0 ? Math.max(1, Math.floor((width + gap) / (minWidth + gap))) : 1;
+  });
+
+  private rowHeight = computed(() => this.itemHeightSignal() + this.gapSignal());
+
+  private rowCount = computed(() => Math.ceil(this.itemsSignal().length / this.columns()));
+
+  // Height of every row together: the scrollbar behaves as if all items were there
+  totalHeight = computed(() =>
+    Math.max(0, this.rowCount() * this.rowHeight() - this.gapSignal())
+  );
+
+  // Window of rendered rows, [firstRow, lastRow)
+  private firstRow = computed(() =>
+    Math.max(0, Math.floor(this.scrollTop() / this.rowHeight()) - OVERSCAN_ROWS)
+  );
+  private lastRow = computed(() => {
+    // Before the first measure, assume the viewport is as tall as the window
+    const height = this.viewportSize().height || window.innerHeight;
+    const last = Math.ceil((this.scrollTop() + height) / this.rowHeight()) + OVERSCAN_ROWS;
+    return Math.min(this.rowCount(), last);
+  });
+
+  // Items of the window, with their index in the whole list
+  visible = computed(() => {
+    const start = this.firstRow() * this.columns();
+    return this.itemsSignal()
+      .slice(start, this.lastRow() * this.columns())
+      .map((item, offset) => ({ item, index: start + offset }));
+  });
+
+  // Distance of the first rendered row from the top of the list
+  offset = computed(() => this.firstRow() * this.rowHeight());
+
+  ngAfterViewInit() {
+    const element = this.viewport().nativeElement;
+    this.measure();
+    // Not available in every environment (e.g. jsdom): keep the first measure there
+    if (typeof ResizeObserver !== 'undefined') {
+      this.resizeObserver = new ResizeObserver(() => this.measure());
+      this.resizeObserver.observe(element);
+    }
+  }
+
+  ngOnDestroy() {
+    this.resizeObserver?.disconnect();
+  }
+
+  onScroll() {
+    this.scrollTop.set(this.viewport().nativeElement.scrollTop);
+  }
+
+  private measure() {
+    const { clientWidth, clientHeight } = this.viewport().nativeElement;
+    this.viewportSize.set({ width: clientWidth, height: clientHeight });
+  }
+}
@@ -5,12 +5,14 @@
 // - Demonstrate HttpClient usage with Service Facade pattern
 // - Show complete CRUD operations (GET, POST, PUT, DELETE)
 // - Handle loading states, errors, and data management
+// - Report results with toasts, with undo for deletions
 //
 // PATTERNS USED:
 // - Service Facade pattern (PostsService abstracts HTTP details)
 // - Signals for reactive state management
 // - Modern inject() function for dependency injection
 // - Observable subscription with manual state updates
+// - ToastService for non-blocking feedback (no alert() / confirm())
 //
 // NOTES FOR CONTRIBUTORS:
 // - Keep HTTP logic in services, not in components
@@ -20,6 +22,7 @@
 
 import { Component, signal, inject } from '@angular/core';
 import { PostsService, Post } from '../../services/posts.service';
+import { ToastService } from '../services/toast.service';
 import { PageHeader } from '../page-header/page-header';
 import { CodeBlock } from '../components/code-block/code-block';
 
@@ -32,6 +35,7 @@ import { CodeBlock } from '../components/code-block/code-block';
 export class HttpExample {
   // Dependency Injection of PostsService
   private postsService = inject(PostsService);
+  private toastService = inject(ToastService);
 
   // ═══════════════════════════════════════════════════════════════════
   // STATE - Using Signals for reactivity
@@ -143,7 +147,7 @@ export class MyComponent {
         this.newPost.set({ userId: 1, title: '', body: '' });
         this.loading.set(false);
 
-        alert(`Post creato con ID: ${createdPost.id}`);
+        this.toastService.success(`Post creato con ID: ${createdPost.id}`);
       },
       error: (err) => {
         this.error.set('Errore nella creazione del post: ' + err.message);
@@ -168,7 +172,7 @@ export class MyComponent {
         // Update post in the list
         this.posts.update((posts) => posts.map((p) => (p.id === updated.id ? updated : p)));
         this.loading.set(false);
-        alert('Post aggiornato con successo!');
+        this.toastService.success('Post aggiornato con successo!');
       },
       error: (err) => {
         this.error.set("Errore nell'aggiornamento: " + err.message);
@@ -179,24 +183,33 @@ export class MyComponent {
 
   /**
    * DELETE - Delete a post
+   * The post disappears at once, the request starts when the undo toast closes
    */
   deletePost(id: number) {
-    if (!confirm('Sei sicuro di voler eliminare questo post?')) {
+    const posts = this.posts();
+    const index = posts.findIndex((p) => p.id === id);
+    if (index === -1) {
       return;
     }
-
-    this.loading.set(true);
-
-    this.postsService.deletePost(id).subscribe({
-      next: () => {
-        // Remove post from the list
-        this.posts.update((posts) => posts.filter((p) => p.id !== id));
-        this.loading.set(false);
-        alert('Post eliminato con successo!');
-      },
-      error: (err) => {
-        this.error.set("Errore nell'eliminazione: " + err.message);
-        this.loading.set(false);
+    const post = posts[index];
+    const restore = () =>
+      this.posts.update((current) => [...current.slice(0, index), post, ...current.slice(index)]);
+
+    // Remove post from the list
+    this.posts.set(posts.filter((p) => p.id !== id));
+
+    this.toastService.show('Post eliminato', {
+      actions: [{ label: 'Annulla', run: restore }],
+      onClose: (reason) => {
+        if (reason === 'action') {
+          return;
+        }
+        this.postsService.deletePost(id).subscribe({
+          error: (err) => {
+            restore();
+            this.toastService.error("Errore nell'eliminazione: " + err.message);
+          },
+        });
       },
     });
   }
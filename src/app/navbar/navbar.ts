@@ -9,7 +9,7 @@
 //
 // PATTERNS USED:
 // - Signal-based dropdown state management
-// - Router integration for navigation and route tracking
+// - Router integration for navigation, route tracking read from the store (router-store)
 // - Grouped navigation structure (Basics, Advanced, State Management, Examples)
 // - HostListener for click-outside-to-close functionality
 //
@@ -17,13 +17,15 @@
 // - Add new routes to appropriate groups array
 // - Maintain consistent icon usage with Icon component
 // - Keep navigation structure flat (avoid deep nesting)
-// - Update currentUrl signal when adding route tracking features
+// - currentUrl comes from AppState.router: never subscribe to Router events here
 
 import { Component, signal, inject, HostListener } from '@angular/core';
-import { Router, RouterLink, RouterLinkActive, NavigationEnd } from '@angular/router';
+import { RouterLink, RouterLinkActive } from '@angular/router';
 import { CommonModule } from '@angular/common';
+import { Store } from '@ngrx/store';
 import { Icon } from '../components/icon/icon';
-import { filter } from 'rxjs';
+import { AppState } from '../store/app.state';
+import { selectCurrentPath } from '../store/router/router.selectors';
 
 // PATTERN: Navigation data structure
 // PURPOSE:
@@ -50,9 +52,10 @@ interface NavGroup {
   styleUrl: './navbar.scss',
 })
 export class Navbar {
-  private router = inject(Router);
+  private store = inject<Store<AppState>>(Store);
   openDropdown = signal<string | null>(null);
-  currentUrl = signal<string>('');
+  // Path of the active route (no query string), serialized by router-store
+  currentUrl = this.store.selectSignal(selectCurrentPath);
 
   mainItems: NavItem[] = [{ label: 'Home', route: '', icon: 'home', exact: true }];
 
@@ -80,6 +83,7 @@ export class Navbar {
       items: [
         { label: 'BehaviorSubject', route: '/state/behavior-subject', icon: 'signals' },
         { label: 'NgRx', route: '/state/ngrx', icon: 'store' },
+        { label: 'Signal Store', route: '/state/signal-store', icon: 'signals' },
       ],
     },
     {
@@ -89,17 +93,6 @@ export class Navbar {
     },
   ];
 
-  constructor() {
-    // Track current route
-    this.currentUrl.set(this.router.url);
-
-    this.router.events
-      .pipe(filter((event): event is NavigationEnd => event instanceof NavigationEnd))
-      .subscribe((event) => {
-        this.currentUrl.set(event.urlAfterRedirects);
-      });
-  }
-
   isGroupActive(group: NavGroup): boolean {
     const url = this.currentUrl();
     return group.items.some((item) => url.startsWith(item.route));
@@ -0,0 +1,214 @@
+// COMPONENT TYPE: Service
+// SECTION: State Management - NgRx Action Recorder
+//
+// ROLE:
+// - Replay a saved ActionScript by dispatching its recorded actions again
+// - Support 1x / 2x speed with the recorded timings, or step-by-step
+// - Pause, resume, stop and seek to any step
+//
+// PATTERNS USED:
+// - Component-level service (providers: [ActionScriptPlayer]), one player per recorder panel
+// - RxJS concatMap + timer for cancellable, ordered scheduling
+// - Signals for the player status exposed to the template
+// - Actions stream (@ngrx/effects) to learn the ids of todos created by the replay
+//
+// NOTES FOR CONTRIBUTORS:
+// - Every replay starts from the script's initial state, imported with importSnapshot
+//   (the todos are also pushed to the server by SnapshotEffects)
+// - Seeking restarts from the initial state and dispatches the previous steps without delays
+// - A step that refers to a todo created earlier in the script waits until the replayed
+//   addTodo got its id from the server (see store/recorder/todo-id-map.ts)
+// - Replayed actions are real actions: effects run again and the actions log shows them
+
+import { Injectable, OnDestroy, inject, signal } from '@angular/core';
+import { Store } from '@ngrx/store';
+import { Actions, ofType } from '@ngrx/effects';
+import {
+  BehaviorSubject,
+  Observable,
+  Subscription,
+  concatMap,
+  filter,
+  from,
+  map,
+  take,
+  tap,
+  throwError,
+  timeout,
+  timer,
+} from 'rxjs';
+import { AppState } from '../../store/app.state';
+import { ActionScript, RecordedStep } from '../../store/recorder/recorder.state';
+import { referencedTodoIds, remapTodoIds } from '../../store/recorder/todo-id-map';
+import * as SnapshotActions from '../../store/snapshot/snapshot.actions';
+import * as TodoActions from '../../store/todo/todo.actions';
+
+export type ReplaySpeed = 1 | 2 | 'step';
+
+export type PlayerStatus = 'idle' | 'playing' | 'paused' | 'finished';
+
+// Longest wait for a replayed todo to come back from the server
+const TODO_ID_TIMEOUT_MS = 5000;
+
+@Injectable()
+export class ActionScriptPlayer implements OnDestroy {
+  private store = inject<Store<AppState>>(Store);
+  private actions$ = inject(Actions);
+
+  script = signal<ActionScript | null>(null);
+  status = signal<PlayerStatus>('idle');
+  position = signal(0); // Index of the next step to dispatch
+  speed = signal<ReplaySpeed>(1);
+  error = signal<string | null>(null);
+
+  private run?: Subscription;
+  private idTracking?: Subscription;
+  // Recorded todo id → id given by the server during this replay
+  private todoIds = new BehaviorSubject<Map<number, number>>(new Map());
+
+  load(script: ActionScript | null) {
+    this.stop();
+    this.script.set(script);
+  }
+
+  // Play from the current position (from the start once finished)
+  play() {
+    const script = this.script();
+    if (!script || this.status() === 'playing') {
+      return;
+    }
+    // Step-by-step speed plays a single step per click
+    const speed = this.speed();
+    if (speed === 'step') {
+      this.step();
+      return;
+    }
+    if (this.status() === 'idle' || this.status() === 'finished') {
+      this.restart(script);
+    }
+    this.schedule(script, script.steps.length, speed);
+  }
+
+  pause() {
+    this.run?.unsubscribe();
+    if (this.status() === 'playing') {
+      this.status.set('paused');
+    }
+  }
+
+  // Dispatch only the next step, then pause
+  step() {
+    const script = this.script();
+    if (!script) {
+      return;
+    }
+    this.run?.unsubscribe();
+    if (this.status() === 'idle' || this.status() === 'finished') {
+      this.restart(script);
+    }
+    this.schedule(script, this.position() + 1, null);
+  }
+
+  /**
+   * Go back to the initial state and fast-forward to the given step
+   *
+   * @param index - Number of steps already dispatched once the seek completes
+   */
+  seek(index: number) {
+    const script = this.script();
+    if (!script) {
+      return;
+    }
+    this.run?.unsubscribe();
+    this.restart(script);
+    this.schedule(script, index, null);
+  }
+
+  stop() {
+    this.run?.unsubscribe();
+    this.idTracking?.unsubscribe();
+    this.position.set(0);
+    this.status.set('idle');
+    this.error.set(null);
+  }
+
+  ngOnDestroy() {
+    this.stop();
+  }
+
+  // Reset counter and todos to the recorded starting point and start tracking new todo ids
+  private restart(script: ActionScript) {
+    this.idTracking?.unsubscribe();
+    this.position.set(0);
+    this.error.set(null);
+    this.todoIds.next(new Map());
+    this.store.dispatch(SnapshotActions.importSnapshot({ state: script.initialState }));
+
+    // The n-th todo created by the replay stands for the n-th todo created while recording
+    let created = 0;
+    this.idTracking = this.actions$
+      .pipe(ofType(TodoActions.addTodoSuccess))
+      .subscribe(({ todo }) => {
+        const recordedId = script.createdTodoIds[created++];
+        if (recordedId !== undefined) {
+          this.todoIds.next(new Map(this.todoIds.value).set(recordedId, todo.id));
+        }
+      });
+  }
+
+  /**
+   * Dispatch the steps from the current position up to `end`, one after the other
+   *
+   * @param script - Script being replayed
+   * @param end - Index of the first step NOT dispatched
+   * @param speed - Multiplier of the recorded delays, null = no delays (step or seek)
+   */
+  private schedule(script: ActionScript, end: number, speed: number | null) {
+    const start = this.position();
+    const steps = script.steps.slice(start, end);
+    // Only a timed run is "playing": steps and seeks pause as soon as they are done
+    this.status.set(speed === null ? 'paused' : 'playing');
+
+    this.run = from(steps)
+      .pipe(
+        concatMap((step, index) => {
+          const previous = script.steps[start + index - 1]?.offsetMs ?? 0;
+          const delay = speed === null ? 0 : (step.offsetMs - previous) / speed;
+          return timer(delay).pipe(
+            concatMap(() => this.resolve(script, step))
+          );
+        }),
+        tap((action) => {
+          this.store.dispatch(action);
+          this.position.update((position) => position + 1);
+        })
+      )
+      .subscribe({
+        complete: () =>
+          this.status.set(this.position() >= script.steps.length ? 'finished' : 'paused'),
+        error: (err: Error) => {
+          this.error.set(err.message);
+          this.status.set('paused');
+        },
+      });
+  }
+
+  // The recorded action, with the ids of replayed todos once the server has created them
+  private resolve(script: ActionScript, step: RecordedStep): Observable<RecordedStep['action']> {
+    const pending = referencedTodoIds(step.action).filter((id) =>
+      script.createdTodoIds.includes(id)
+    );
+    return this.todoIds.pipe(
+      filter((ids) => pending.every((id) => ids.has(id))),
+      take(1),
+      timeout({
+        first: TODO_ID_TIMEOUT_MS,
+        with: () =>
+          throwError(
+            () => new Error(`Il passo "${step.action.type}" aspetta un todo mai creato dal server`)
+          ),
+      }),
+      map((ids) => remapTodoIds(step.action, ids))
+    );
+  }
+}
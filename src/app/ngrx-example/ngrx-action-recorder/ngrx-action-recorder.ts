@@ -0,0 +1,112 @@
+// COMPONENT TYPE: Container
+// SECTION: State Management - NgRx Action Recorder
+//
+// ROLE:
+// - Record the counter and todo actions dispatched on /state/ngrx as a named script
+// - Pick a saved script and replay it at 1x, 2x or step by step, with pause and seek
+// - Show the steps of the selected script and the replay position
+//
+// PATTERNS USED:
+// - Smart Component pattern (NgRx Store integration)
+// - store.selectSignal() for scripts and recording status
+// - Component-level ActionScriptPlayer service for the replay engine
+//
+// NOTES FOR CONTRIBUTORS:
+// - Recording is done by recorderMetaReducer: this component only starts and saves it
+// - Replayed actions are ordinary dispatches, the actions log of each demo shows them live
+// - Shown on the counter and todo tabs, so the replay is visible while it runs
+
+import { Component, inject, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Store } from '@ngrx/store';
+import { take } from 'rxjs';
+import { AppState } from '../../store/app.state';
+import { RecordedStep } from '../../store/recorder/recorder.state';
+import * as RecorderActions from '../../store/recorder/recorder.actions';
+import * as RecorderSelectors from '../../store/recorder/recorder.selectors';
+import { createStateSnapshot } from '../../store/snapshot/snapshot.serializer';
+import { ActionScriptPlayer, ReplaySpeed } from './action-script-player';
+
+@Component({
+  selector: 'app-ngrx-action-recorder',
+  standalone: true,
+  imports: [CommonModule, FormsModule],
+  providers: [ActionScriptPlayer],
+  templateUrl: './ngrx-action-recorder.html',
+  styleUrls: ['./ngrx-action-recorder.scss'],
+})
+export class NgrxActionRecorder {
+  private store = inject<Store<AppState>>(Store);
+  player = inject(ActionScriptPlayer);
+
+  scripts = this.store.selectSignal(RecorderSelectors.selectAllScripts);
+  isRecording = this.store.selectSignal(RecorderSelectors.selectIsRecording);
+  recordedStepCount = this.store.selectSignal(RecorderSelectors.selectRecordedStepCount);
+  nextScriptName = this.store.selectSignal(RecorderSelectors.selectNextScriptName);
+
+  scriptName = signal('');
+
+  speeds: { value: ReplaySpeed; label: string }[] = [
+    { value: 1, label: '1x' },
+    { value: 2, label: '2x' },
+    { value: 'step', label: 'Passo-passo' },
+  ];
+
+  // The script starts from the current counter and todo state (the log is not part of it)
+  startRecording() {
+    this.player.stop();
+    this.store.pipe(take(1)).subscribe((state) => {
+      const { counter, todo } = createStateSnapshot(state, new Date()).state;
+      this.store.dispatch(
+        RecorderActions.startRecording({
+          startedAt: Date.now(),
+          initialState: { ...(counter && { counter }), ...(todo && { todo }) },
+        })
+      );
+    });
+  }
+
+  // Save with the typed name (or the default one) and select the new script
+  saveRecording() {
+    const name = this.scriptName().trim() || this.nextScriptName();
+    const count = this.scripts().length;
+    this.store.dispatch(RecorderActions.saveRecording({ name }));
+    this.scriptName.set('');
+    // Empty recordings are discarded: keep the current selection then
+    const scripts = this.scripts();
+    if (scripts.length > count) {
+      this.player.load(scripts[scripts.length - 1]);
+    }
+  }
+
+  cancelRecording() {
+    this.store.dispatch(RecorderActions.cancelRecording());
+    this.scriptName.set('');
+  }
+
+  selectScript(id: number | null) {
+    this.player.load(this.scripts().find((script) => script.id === id) ?? null);
+  }
+
+  deleteScript(id: number) {
+    this.player.load(null);
+    this.store.dispatch(RecorderActions.deleteScript({ id }));
+  }
+
+  // Range input: seek once the thumb is released
+  seek(event: Event) {
+    this.player.seek(Number((event.target as HTMLInputElement).value));
+  }
+
+  // Offset from the start of the recording, e.g. '+1.4s'
+  formatOffset(step: RecordedStep): string {
+    return `+${(step.offsetMs / 1000).toFixed(1)}s`;
+  }
+
+  // Compact single-line JSON of the action props, empty when there are none
+  formatProps(step: RecordedStep): string {
+    const { type, ...props } = step.action;
+    return Object.keys(props).length ? JSON.stringify(props) : '';
+  }
+}
@@ -0,0 +1,39 @@
+// COMPONENT TYPE: Presentational
+// SECTION: State Management - NgRx Actions Log
+//
+// ROLE:
+// - Render the actions log shared by the counter and todo demos
+// - Show type, payload, time and state diff of every recorded action
+// - Emit clear requests to the parent
+//
+// PATTERNS USED:
+// - Pure presentational component (@Input/@Output pattern)
+// - Native <details> for collapsible diffs (no extra state)
+//
+// NOTES FOR CONTRIBUTORS:
+// - Entries come from selectLogEntries, recorded by actionsLogMetaReducer
+// - Do not inject the Store here, parents own the data and the dispatch
+
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { ActionLogEntry } from '../../store/actions-log/actions-log.state';
+
+@Component({
+  selector: 'app-ngrx-actions-log',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './ngrx-actions-log.html',
+  styleUrls: ['./ngrx-actions-log.scss'],
+})
+export class NgrxActionsLog {
+  // Log entries, newest first
+  @Input() entries: ActionLogEntry[] = [];
+
+  // Emits when the user asks to clear the log
+  @Output() clear = new EventEmitter<void>();
+
+  // Compact single-line JSON for payloads and diff values
+  format(value: unknown): string {
+    return value === undefined ? '—' : JSON.stringify(value);
+  }
+}
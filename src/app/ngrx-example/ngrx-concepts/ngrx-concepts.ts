@@ -81,6 +81,11 @@ export const counterReducer = createReducer(
     count: state.count - 1,
     history: [...state.history, state.count - 1]
   })),
+  on(CounterActions.setValue, (state, { value }) => ({
+    ...state,
+    count: value,
+    history: [...state.history, value]
+  })),
   on(CounterActions.reset, state => ({
     count: 0,
     history: [0]
@@ -323,15 +328,22 @@ export const counterReducer = createReducer(
   on(CounterActions.reset, () => initialState)
 );`;
 
-  featureProvideCode = `// app.config.ts (Feature Store)
+  featureProvideCode = `// app.config.ts (Feature Store, as used by this app)
 import { ApplicationConfig, isDevMode } from '@angular/core';
 import { provideStore } from '@ngrx/store';
+import { provideEffects } from '@ngrx/effects';
 import { provideStoreDevtools } from '@ngrx/store-devtools';
 
+// Root reducers: only slices needed on every route (undoRedo, timeTravel, router)
+// counter, todo and actionsLog are NOT here, they register themselves
+import { appReducers } from './store/app.reducers';
+import { metaReducers } from './store/app.meta-reducers';
+
 export const appConfig: ApplicationConfig = {
   providers: [
-    // Empty root store - features register themselves
-    provideStore({}),
+    provideStore(appReducers, { metaReducers }),
+    // Root effects runner, feature effects are added by their routes
+    provideEffects(),
     provideStoreDevtools({
       maxAge: 25,
       logOnly: !isDevMode(),
@@ -339,22 +351,33 @@ export const appConfig: ApplicationConfig = {
   ]
 };`;
 
-  featureModuleCode = `// counter/counter.routes.ts (Feature Store)
-import { Route } from '@angular/router';
-import { provideState } from '@ngrx/store';
-import { counterReducer } from './store/counter.reducer';
+  featureModuleCode = `// store/ngrx-demo.providers.ts
+export function provideNgrxDemoStore(): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    provideState(COUNTER_FEATURE_KEY, counterReducer),
+    provideState(TODO_FEATURE_KEY, todoReducer),
+    provideState(ACTIONS_LOG_FEATURE_KEY, actionsLogReducer),
+    provideEffects(TodoEffects, TodoRouterEffects),
+  ]);
+}
 
-export const counterRoutes: Route[] = [
+// ngrx-example/ngrx-example.routes.ts (loaded lazily)
+export const ngrxExampleRoutes: Routes = [
   {
     path: '',
-    providers: [
-      // Register feature state when route loads
-      provideState('counter', counterReducer)
-    ],
+    // Register feature state when route loads
+    providers: [provideNgrxDemoStore()],
     loadComponent: () =>
-      import('./counter.component').then(m => m.CounterComponent)
+      import('./ngrx-example').then(m => m.NgrxExample)
   }
-];`;
+];
+
+// app.routes.ts
+{
+  path: 'ngrx',
+  loadChildren: () =>
+    import('./ngrx-example/ngrx-example.routes').then(m => m.ngrxExampleRoutes)
+}`;
 
   featureSelectorCode = `// store/counter.selectors.ts (Feature Store)
 import { createFeatureSelector, createSelector } from '@ngrx/store';
@@ -612,8 +635,8 @@ export const selectHistory = createSelector(
     },
     {
       stepNumber: 3,
-      title: '🌍 Root Store Setup (Empty)',
-      explanation: 'With Feature Stores, the root store starts <strong>empty</strong>. Each feature will register dynamically when loaded. This allows loading only the necessary state.',
+      title: '🌍 Root Store Setup (Minimal)',
+      explanation: 'With Feature Stores, the root store contains only what <strong>every</strong> route needs (here: undo/redo, time travel and the router state). Each feature will register dynamically when loaded. This allows loading only the necessary state.',
       codeExample: {
         title: 'File: app.config.ts',
         code: this.featureProvideCode
@@ -621,7 +644,7 @@ export const selectHistory = createSelector(
       explanationBox: {
         title: '💡 Why an empty store?',
         points: [
-          '<code>provideStore(&#123;&#125;)</code>: initializes the store without initial state',
+          '<code>provideStore(appReducers)</code>: initializes the store with the root slices only',
           'Features will add their state when needed',
           '<strong>Smaller bundle size</strong> at startup',
           'Perfect for <strong>lazy-loading</strong>: load only what is needed'
@@ -633,16 +656,16 @@ export const selectHistory = createSelector(
       title: '🔌 Register Feature Store (Lazy-Loading)',
       explanation: 'This is the heart of the Feature Store pattern! When a route is loaded, it dynamically registers its state in the store using <code>provideState()</code>.',
       codeExample: {
-        title: 'File: features/counter/counter.routes.ts',
+        title: 'File: ngrx-example/ngrx-example.routes.ts',
         code: this.featureModuleCode
       },
       explanationBox: {
         title: '💡 How does it work?',
         points: [
-          'When the user navigates to the route, Angular loads the module',
-          '<code>provideState(\'counter\', counterReducer)</code>: registers the state in the store',
-          'The \'counter\' state appears dynamically in the global store',
-          'When the user leaves the route, the state can be kept or removed'
+          'When the user navigates to the route, Angular loads the lazy chunk',
+          '<code>provideState(COUNTER_FEATURE_KEY, counterReducer)</code>: registers the state in the store',
+          'The \'counter\' state appears dynamically in the global store (check the Store Inspector!)',
+          'When the user leaves the route, the state is kept: coming back shows the same data'
         ]
       }
     },
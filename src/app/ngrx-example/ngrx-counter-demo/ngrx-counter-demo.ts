@@ -5,35 +5,42 @@
 // - Demonstrate basic NgRx Store integration
 // - Show selector usage with Observable streams
 // - Illustrate action dispatching pattern
-// - Display actions log for educational visibility
+// - Display actions log (type, payload, state diff) for educational visibility
+// - Show actions with payload (setValue, incrementBy, bounds) and derived history statistics
 //
 // PATTERNS USED:
 // - Smart Component pattern (NgRx Store integration)
 // - Observable selectors with async pipe in template
 // - Action dispatching for state updates
 // - Memoized selectors for performance
+// - View Model pattern using combineLatest
 //
 // NOTES FOR CONTRIBUTORS:
 // - This is an educational demo, keep logic simple
 // - All state lives in store/counter/
 // - Actions log demonstrates Redux DevTools alternative
 // - Follow this pattern for new store features
+// - Bounds are enforced by the reducer: the component only disables buttons for feedback
 
-import { Component } from '@angular/core';
+import { Component, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
 import { Store } from '@ngrx/store';
-import { Observable } from 'rxjs';
+import { Observable, combineLatest } from 'rxjs';
 import { AppState } from '../../store/app.state';
 import { CounterState } from '../../store/counter/counter.state';
+import { ActionLogEntry } from '../../store/actions-log/actions-log.state';
 import * as CounterActions from '../../store/counter/counter.actions';
 import * as CounterSelectors from '../../store/counter/counter.selectors';
 import * as ActionsLogActions from '../../store/actions-log/actions-log.actions';
 import * as ActionsLogSelectors from '../../store/actions-log/actions-log.selectors';
+import { NgrxActionsLog } from '../ngrx-actions-log/ngrx-actions-log';
+import { NgrxSparkline } from '../ngrx-sparkline/ngrx-sparkline';
 
 @Component({
   selector: 'app-ngrx-counter-demo',
   standalone: true,
-  imports: [CommonModule],
+  imports: [CommonModule, FormsModule, NgrxActionsLog, NgrxSparkline],
   templateUrl: './ngrx-counter-demo.html',
   styleUrls: ['./ngrx-counter-demo.scss'],
 })
@@ -41,13 +48,27 @@ export class NgrxCounterDemo {
   // SELECTORS: Observable streams from Store
   // These Observables emit automatically when state changes
   counterState$: Observable<CounterState>;
-  actionsLog$: Observable<string[]>;
+  actionsLog$: Observable<ActionLogEntry[]>;
+  vm$;
+
+  // LOCAL STATE: form fields, only sent to the Store on submit
+  newValue = signal<number | null>(null);
+  minInput = signal<number | null>(null);
+  maxInput = signal<number | null>(null);
 
   constructor(private store: Store<AppState>) {
     // Select data from Store using selectors
     // Selectors are pure, memoized functions for optimal performance
     this.counterState$ = this.store.select(CounterSelectors.selectCounterFull);
-    this.actionsLog$ = this.store.select(ActionsLogSelectors.selectLogs);
+    this.actionsLog$ = this.store.select(ActionsLogSelectors.selectLogEntries);
+
+    // View Model: one subscription in the template for everything the counter shows
+    this.vm$ = combineLatest({
+      counterState: this.counterState$,
+      stats: this.store.select(CounterSelectors.selectHistoryStats),
+      isAtMin: this.store.select(CounterSelectors.selectIsAtMin),
+      isAtMax: this.store.select(CounterSelectors.selectIsAtMax),
+    });
   }
 
   // ACTIONS: Methods that dispatch actions to Store
@@ -73,6 +94,66 @@ export class NgrxCounterDemo {
     this.store.dispatch(CounterActions.reset());
   }
 
+  /**
+   * Incrementa il counter dello step configurato
+   */
+  incrementBy(amount: number) {
+    this.store.dispatch(CounterActions.incrementBy({ amount }));
+  }
+
+  /**
+   * Decrementa il counter dello step configurato
+   */
+  decrementBy(amount: number) {
+    this.store.dispatch(CounterActions.decrementBy({ amount }));
+  }
+
+  /**
+   * Imposta un valore preciso (il reducer lo riporta nei limiti se serve)
+   */
+  setValue() {
+    const value = this.newValue();
+    if (value !== null) {
+      this.store.dispatch(CounterActions.setValue({ value }));
+      this.newValue.set(null);
+    }
+  }
+
+  /**
+   * Aggiorna lo step usato dai pulsanti ± step
+   */
+  onStepChange(event: Event) {
+    const step = (event.target as HTMLInputElement).valueAsNumber;
+    this.store.dispatch(CounterActions.setStep({ step }));
+  }
+
+  /**
+   * True when both bounds are set and min > max (the reducer would ignore them)
+   */
+  hasInvalidBounds(): boolean {
+    const min = this.minInput();
+    const max = this.maxInput();
+    return min !== null && max !== null && min > max;
+  }
+
+  /**
+   * Applica i limiti min/max (campo vuoto = nessun limite)
+   */
+  applyBounds() {
+    this.store.dispatch(
+      CounterActions.setBounds({ min: this.minInput(), max: this.maxInput() })
+    );
+  }
+
+  /**
+   * Rimuove entrambi i limiti
+   */
+  clearBounds() {
+    this.minInput.set(null);
+    this.maxInput.set(null);
+    this.store.dispatch(CounterActions.setBounds({ min: null, max: null }));
+  }
+
   /**
    * Pulisce il log delle actions (cross-slice action)
    */
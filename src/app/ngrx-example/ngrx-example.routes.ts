@@ -0,0 +1,29 @@
+// COMPONENT TYPE: Routes
+// SECTION: State Management - NgRx
+//
+// ROLE:
+// - Define the lazy-loaded routes of the NgRx section
+// - Register the feature store slices and effects the demos depend on
+//
+// PATTERNS USED:
+// - Lazy child routes (loadChildren in app.routes.ts)
+// - Route-level providers: provideState()/provideEffects() run when the route is first loaded
+//
+// NOTES FOR CONTRIBUTORS:
+// - Everything imported here ships in the lazy chunk, keep app.routes.ts free of store imports
+// - Demos under this route can rely on the counter, todo and actionsLog slices being registered
+
+import { Routes } from '@angular/router';
+import { provideNgrxDemoStore } from '../store/ngrx-demo.providers';
+import { TODO_FILTER_ROUTE_DATA } from '../store/todo/todo-router.effects';
+
+export const ngrxExampleRoutes: Routes = [
+  {
+    path: '',
+    // Feature store: counter, todo and actionsLog are added to the running store here
+    providers: [provideNgrxDemoStore()],
+    loadComponent: () => import('./ngrx-example').then((m) => m.NgrxExample),
+    // The todo demo keeps its status filter in ?filter= (TodoRouterEffects)
+    data: { [TODO_FILTER_ROUTE_DATA]: true },
+  },
+];
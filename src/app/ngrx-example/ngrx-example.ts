@@ -5,10 +5,11 @@
 // - Demonstrate NgRx state management patterns
 // - Organize multiple NgRx examples with tab navigation
 // - Show concepts, counter demo, and todo demo
+// - Expose store-wide undo/redo controls and the action recorder shared by all demos
 //
 // PATTERNS USED:
 // - Standalone component architecture
-// - Signal-based tab selection
+// - Tab selection stored in the ?tab= query param, read back through router-store
 // - Composition of multiple demo components
 //
 // NOTES FOR CONTRIBUTORS:
@@ -16,21 +17,53 @@
 // - Complex NgRx logic lives in child components
 // - Add new demos as separate components and import here
 // - Maintain consistent tab structure for navigation
+// - Tabs are part of the URL so bookmarks like ?tab=todos&filter=active open the right view
 
-import { Component, signal } from '@angular/core';
+import { Component, computed, inject } from '@angular/core';
 import { CommonModule } from '@angular/common';
+import { Router } from '@angular/router';
+import { Store } from '@ngrx/store';
+import { AppState } from '../store/app.state';
+import { selectQueryParam } from '../store/router/router.selectors';
 import { PageHeader } from '../page-header/page-header';
 import { NgrxConcepts } from './ngrx-concepts/ngrx-concepts';
 import { NgrxCounterDemo } from './ngrx-counter-demo/ngrx-counter-demo';
 import { NgrxTodoDemo } from './ngrx-todo-demo/ngrx-todo-demo';
+import { NgrxHistoryControls } from './ngrx-history-controls/ngrx-history-controls';
+import { NgrxActionRecorder } from './ngrx-action-recorder/ngrx-action-recorder';
+
+type NgrxTab = 'counter' | 'todos' | 'concepts';
+
+const NGRX_TABS: NgrxTab[] = ['concepts', 'counter', 'todos'];
 
 @Component({
   selector: 'app-ngrx-example',
   standalone: true,
-  imports: [CommonModule, PageHeader, NgrxConcepts, NgrxCounterDemo, NgrxTodoDemo],
+  imports: [
+    CommonModule,
+    PageHeader,
+    NgrxConcepts,
+    NgrxCounterDemo,
+    NgrxTodoDemo,
+    NgrxHistoryControls,
+    NgrxActionRecorder,
+  ],
   templateUrl: './ngrx-example.html',
   styleUrls: ['./ngrx-example.scss'],
 })
 export class NgrxExample {
-  selectedTab = signal<'counter' | 'todos' | 'concepts'>('concepts');
+  private store = inject<Store<AppState>>(Store);
+  private router = inject(Router);
+
+  private tabParam = this.store.selectSignal(selectQueryParam('tab'));
+
+  // Unknown or missing ?tab= values fall back to the concepts tab
+  selectedTab = computed<NgrxTab>(() => {
+    const tab = this.tabParam();
+    return NGRX_TABS.includes(tab as NgrxTab) ? (tab as NgrxTab) : 'concepts';
+  });
+
+  selectTab(tab: NgrxTab) {
+    this.router.navigate([], { queryParams: { tab }, queryParamsHandling: 'merge' });
+  }
 }
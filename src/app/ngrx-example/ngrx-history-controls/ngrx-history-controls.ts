@@ -0,0 +1,72 @@
+// COMPONENT TYPE: Container
+// SECTION: State Management - NgRx Undo/Redo
+//
+// ROLE:
+// - Provide undo, redo and clear history buttons for the whole store
+// - Reflect availability of undo/redo from selectors
+// - Support Ctrl+Z / Ctrl+Shift+Z keyboard shortcuts
+//
+// PATTERNS USED:
+// - Smart Component pattern (NgRx Store integration)
+// - View Model pattern using combineLatest
+// - HostListener for global keyboard shortcuts
+//
+// NOTES FOR CONTRIBUTORS:
+// - History logic lives in store/undo-redo/undo-redo.meta-reducer.ts, not here
+// - Shortcuts are skipped inside text fields so native text undo keeps working
+
+import { Component, HostListener } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { Store } from '@ngrx/store';
+import { combineLatest } from 'rxjs';
+import { AppState } from '../../store/app.state';
+import * as UndoRedoActions from '../../store/undo-redo/undo-redo.actions';
+import * as UndoRedoSelectors from '../../store/undo-redo/undo-redo.selectors';
+
+@Component({
+  selector: 'app-ngrx-history-controls',
+  standalone: true,
+  imports: [CommonModule],
+  templateUrl: './ngrx-history-controls.html',
+  styleUrls: ['./ngrx-history-controls.scss'],
+})
+export class NgrxHistoryControls {
+  vm$;
+
+  constructor(private store: Store<AppState>) {
+    this.vm$ = combineLatest({
+      canUndo: this.store.select(UndoRedoSelectors.selectCanUndo),
+      canRedo: this.store.select(UndoRedoSelectors.selectCanRedo),
+      undoCount: this.store.select(UndoRedoSelectors.selectUndoCount),
+      redoCount: this.store.select(UndoRedoSelectors.selectRedoCount),
+    });
+  }
+
+  undo() {
+    this.store.dispatch(UndoRedoActions.undo());
+  }
+
+  redo() {
+    this.store.dispatch(UndoRedoActions.redo());
+  }
+
+  clearHistory() {
+    this.store.dispatch(UndoRedoActions.clearHistory());
+  }
+
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    const target = event.target as HTMLElement;
+    const isTextField = target.closest('input, textarea, select, [contenteditable]');
+    if (isTextField || !(event.ctrlKey || event.metaKey) || event.key.toLowerCase() !== 'z') {
+      return;
+    }
+
+    event.preventDefault();
+    if (event.shiftKey) {
+      this.redo();
+    } else {
+      this.undo();
+    }
+  }
+}
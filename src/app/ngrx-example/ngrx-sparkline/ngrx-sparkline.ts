@@ -0,0 +1,67 @@
+// COMPONENT TYPE: Presentational
+// SECTION: State Management - NgRx Counter Demo
+//
+// ROLE:
+// - Draw a small inline SVG line chart of a list of numbers
+// - Highlight the latest value
+//
+// PATTERNS USED:
+// - Pure presentational component (@Input only)
+// - Points recomputed in ngOnChanges, not on every change detection
+//
+// NOTES FOR CONTRIBUTORS:
+// - Only the last maxPoints values are drawn, to keep the line readable
+// - No chart library: a <polyline> is enough for a sparkline
+
+import { Component, Input, OnChanges } from '@angular/core';
+
+@Component({
+  selector: 'app-ngrx-sparkline',
+  standalone: true,
+  templateUrl: './ngrx-sparkline.html',
+  styleUrls: ['./ngrx-sparkline.scss'],
+})
+export class NgrxSparkline implements OnChanges {
+  @Input() values: number[] = [];
+  @Input() width = 240;
+  @Input() height = 48;
+  @Input() maxPoints = 50;
+
+  points = '';
+  last: { x: number; y: number } | null = null;
+
+  // Keeps the stroke inside the viewBox
+  private readonly padding = 4;
+
+  ngOnChanges() {
+    const values = this.values.slice(-this.maxPoints);
+    if (values.length === 0) {
+      this.points = '';
+      this.last = null;
+      return;
+    }
+
+    let min = values[0];
+    let max = values[0];
+    for (const value of values) {
+      min = Math.min(min, value);
+      max = Math.max(max, value);
+    }
+    const range = max - min;
+    const innerWidth = this.width - this.padding * 2;
+    const innerHeight = this.height - this.padding * 2;
+    const stepX = values.length > 1 ? innerWidth / (values.length - 1) : 0;
+
+    const coords = values.map((value, index) => ({
+      x: this.padding + index * stepX,
+      // Flat line in the middle when all values are equal
+      y:
+        range === 0
+          ? this.height / 2
+          : this.padding + innerHeight - ((value - min) / range) * innerHeight,
+    }));
+
+    this.points = coords.map(({ x, y }) => `${x.toFixed(1)},${y.toFixed(1)}`).join(' ');
+    this.last = coords[coords.length - 1];
+  }
+}
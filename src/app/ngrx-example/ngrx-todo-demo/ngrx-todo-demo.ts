@@ -6,36 +6,56 @@
 // - Show derived selectors (filtered todos, counts)
 // - Mix Signals for local UI state with Observable store state
 // - Illustrate view model pattern for synchronized streams
+// - Render loading and error states coming from TodoEffects
+// - Edit todo details inline (text, priority, due date, tags) and reorder by drag-and-drop
+// - Manage named lists (create, rename, delete, switch) and move todos between them
 //
 // PATTERNS USED:
 // - Smart Component pattern with NgRx Store
 // - View Model pattern using combineLatest
-// - Signal for local UI-only state (input text)
+// - Signal for local UI-only state (input text, inline edit, dragged item)
+// - Native HTML5 drag-and-drop (no extra dependency)
 // - Observable for global business state (todos, filter)
 // - Derived selectors for computed values
+// - Entity-based state (ids + entities) read only through selectors
+// - Async flows via effects (component only dispatches, never calls the API)
 //
 // NOTES FOR CONTRIBUTORS:
 // - combineLatest prevents race conditions with multiple async pipes
 // - Use Signals for UI-only state, Store for business logic state
 // - All todos state lives in store/todo/
+// - Todos are loaded from TodoApiService through TodoEffects on creation
 // - Template uses single subscription: @if (vm$ | async; as vm)
+// - Reordering is only enabled with the 'manual' sort, other sorts ignore todo.order
+// - Counts, filters and tags shown here are scoped to the active list by the selectors
 
-import { Component, signal } from '@angular/core';
+import { Component, inject, signal } from '@angular/core';
 import { CommonModule } from '@angular/common';
 import { FormsModule } from '@angular/forms';
 import { Store } from '@ngrx/store';
 import { combineLatest } from 'rxjs';
 import { AppState } from '../../store/app.state';
-import { TodoState, Todo } from '../../store/todo/todo.state';
+import {
+  Todo,
+  TodoList,
+  TodoFilter,
+  TodoPriority,
+  TodoSort,
+  isTodoOverdue,
+  normalizeTag,
+  toIsoDate,
+} from '../../store/todo/todo.state';
 import * as TodoActions from '../../store/todo/todo.actions';
 import * as TodoSelectors from '../../store/todo/todo.selectors';
 import * as ActionsLogActions from '../../store/actions-log/actions-log.actions';
 import * as ActionsLogSelectors from '../../store/actions-log/actions-log.selectors';
+import { NgrxActionsLog } from '../ngrx-actions-log/ngrx-actions-log';
+import { InMemoryTodoBackend } from '../../../services/in-memory-todo-backend';
 
 @Component({
   selector: 'app-ngrx-todo-demo',
   standalone: true,
-  imports: [CommonModule, FormsModule],
+  imports: [CommonModule, FormsModule, NgrxActionsLog],
   templateUrl: './ngrx-todo-demo.html',
   styleUrls: ['./ngrx-todo-demo.scss'],
 })
@@ -56,24 +76,86 @@ export class NgrxTodoDemo {
   // - Avoids Store pollution with ephemeral UI values
   newTodoText = signal('');
 
+  // Inline text editing: id of the todo being edited and its draft text
+  editingId = signal<number | null>(null);
+  editText = signal('');
+
+  // List management: name of the list to create, inline rename of an existing list
+  newListName = signal('');
+  renamingListId = signal<number | null>(null);
+  renameText = signal('');
+
+  // List waiting for the second click that confirms its deletion
+  confirmDeleteListId = signal<number | null>(null);
+
+  // Todo currently dragged in manual sort
+  draggedId = signal<number | null>(null);
+
+  // Reference date for overdue highlighting, fixed when the demo opens
+  today = toIsoDate(new Date());
+
+  // Options for the sort selector (labels are user-facing, keep them in Italian)
+  sortOptions: { value: TodoSort; label: string }[] = [
+    { value: 'created', label: 'Data di creazione' },
+    { value: 'text', label: 'Alfabetico' },
+    { value: 'status', label: 'Da completare prima' },
+    { value: 'priority', label: 'Priorità' },
+    { value: 'dueDate', label: 'Scadenza' },
+    { value: 'manual', label: 'Manuale (trascina)' },
+  ];
+
+  priorityOptions: { value: TodoPriority; label: string }[] = [
+    { value: 'high', label: 'Alta' },
+    { value: 'medium', label: 'Media' },
+    { value: 'low', label: 'Bassa' },
+  ];
+
+  // Educational shortcut: the demo flips the fake backend's error switch directly.
+  // In a real app there is no such switch, failures come from the network.
+  private backend = inject(InMemoryTodoBackend);
+  simulateErrors = this.backend.simulateErrors;
+
   constructor(private store: Store<AppState>) {
     // combineLatest emits object when ALL observables have emitted at least once
     // Each new emission from any selector triggers a new combined emit
     this.vm$ = combineLatest({
       todoState: this.store.select(TodoSelectors.selectTodoStateFull),
-      actionsLog: this.store.select(ActionsLogSelectors.selectLogs),
+      actionsLog: this.store.select(ActionsLogSelectors.selectLogEntries),
       // Derived selectors: compute values from other selectors
       filteredTodos: this.store.select(TodoSelectors.selectFilteredTodos),
+      // Lists: every list with its todo count, plus the active list and its filter
+      lists: this.store.select(TodoSelectors.selectAllTodoLists),
+      listCounts: this.store.select(TodoSelectors.selectTodoCountByList),
+      activeList: this.store.select(TodoSelectors.selectActiveList),
+      filter: this.store.select(TodoSelectors.selectFilter),
+      totalCount: this.store.select(TodoSelectors.selectActiveListTodoCount),
       activeTodosCount: this.store.select(TodoSelectors.selectActiveTodosCount),
       completedTodosCount: this.store.select(TodoSelectors.selectCompletedTodosCount),
+      overdueCount: this.store.select(TodoSelectors.selectOverdueCount(this.today)),
+      allTags: this.store.select(TodoSelectors.selectAllTags),
+      manualOrderIds: this.store.select(TodoSelectors.selectManualOrderIds),
+      // Request status: set by the reducer from '[Todo API]' result actions
+      loading: this.store.select(TodoSelectors.selectTodoLoading),
+      error: this.store.select(TodoSelectors.selectTodoError),
     });
+
+    // Fetch todos from the API: TodoEffects handles the HTTP call
+    this.loadTodos();
   }
 
   // 🚀 ACTIONS: Methods that dispatch actions to the Store
 
   /**
-   * Add a new todo to the Store
-   * Flow: validate → dispatch → reducer adds → selector emits → UI updates
+   * Load todos from the API (also used by the retry button)
+   * Flow: dispatch → effect calls API → success/failure action → reducer → UI updates
+   */
+  loadTodos() {
+    this.store.dispatch(TodoActions.loadTodos());
+  }
+
+  /**
+   * Add a new todo through the API
+   * Flow: validate → dispatch → effect POSTs → success action → reducer adds → UI updates
    */
   addTodo() {
     const text = this.newTodoText().trim();
@@ -87,31 +169,235 @@ export class NgrxTodoDemo {
 
   /**
    * Toggle the completed state of a todo
-   * The reducer finds the todo by id and inverts the completed flag
+   * The effect PATCHes the todo, the reducer replaces it with the server response
    */
   toggleTodo(id: number) {
     this.store.dispatch(TodoActions.toggleTodo({ id }));
   }
 
+  // ═══ LISTS ═══
+
+  /**
+   * Create a list with the typed name; the reducer makes it the active list
+   */
+  createList() {
+    const name = this.newListName().trim();
+    if (name) {
+      this.store.dispatch(TodoActions.createList({ name }));
+      this.newListName.set('');
+    }
+  }
+
+  setActiveList(id: number) {
+    this.store.dispatch(TodoActions.setActiveList({ id }));
+  }
+
+  startRename(list: TodoList) {
+    this.renamingListId.set(list.id);
+    this.renameText.set(list.name);
+  }
+
   /**
-   * Remove a todo from the Store
-   * The reducer filters the array removing the todo with this id
+   * Save the new list name (Enter or blur); empty or unchanged names are discarded
+   */
+  saveRename(list: TodoList) {
+    if (this.renamingListId() !== list.id) {
+      return;
+    }
+    const name = this.renameText().trim();
+    this.renamingListId.set(null);
+    if (name && name !== list.name) {
+      this.store.dispatch(TodoActions.renameList({ id: list.id, name }));
+    }
+  }
+
+  cancelRename() {
+    this.renamingListId.set(null);
+  }
+
+  // First click on ×: ask for confirmation inline, in place of the button
+  askDeleteList(list: TodoList) {
+    this.confirmDeleteListId.set(list.id);
+  }
+
+  cancelDeleteList() {
+    this.confirmDeleteListId.set(null);
+  }
+
+  /**
+   * Delete a list and all of its todos (server side), once confirmed
+   */
+  deleteList(list: TodoList) {
+    if (this.confirmDeleteListId() !== list.id) {
+      return;
+    }
+    this.confirmDeleteListId.set(null);
+    this.store.dispatch(TodoActions.deleteList({ id: list.id }));
+  }
+
+  /**
+   * Move a todo to the list picked in the "Sposta in" selector
+   */
+  onMoveToList(id: number, event: Event) {
+    const select = event.target as HTMLSelectElement;
+    const listId = Number(select.value);
+    // Reset the selector to its placeholder: the todo leaves this list on success
+    select.value = '';
+    if (listId) {
+      this.store.dispatch(TodoActions.moveTodoToList({ id, listId }));
+    }
+  }
+
+  // ═══ TODO DETAILS ═══
+
+  /**
+   * Start editing the text of a todo (double click)
+   */
+  startEdit(todo: Todo) {
+    this.editingId.set(todo.id);
+    this.editText.set(todo.text);
+  }
+
+  /**
+   * Save the edited text (Enter or blur); empty or unchanged text is discarded
+   */
+  saveEdit(todo: Todo) {
+    if (this.editingId() !== todo.id) {
+      return;
+    }
+    const text = this.editText().trim();
+    this.editingId.set(null);
+    if (text && text !== todo.text) {
+      this.store.dispatch(TodoActions.editTodoText({ id: todo.id, text }));
+    }
+  }
+
+  cancelEdit() {
+    this.editingId.set(null);
+  }
+
+  onPriorityChange(id: number, event: Event) {
+    const priority = (event.target as HTMLSelectElement).value as TodoPriority;
+    this.store.dispatch(TodoActions.setTodoPriority({ id, priority }));
+  }
+
+  /**
+   * Save the due date picked in the date input (cleared input = no due date)
+   */
+  onDueDateChange(id: number, event: Event) {
+    const dueDate = (event.target as HTMLInputElement).value || null;
+    this.store.dispatch(TodoActions.setTodoDueDate({ id, dueDate }));
+  }
+
+  /**
+   * Add the tag typed in the input, then clear it
+   */
+  addTag(todo: Todo, input: HTMLInputElement) {
+    const tag = normalizeTag(input.value);
+    input.value = '';
+    if (tag && !todo.tags.includes(tag)) {
+      this.store.dispatch(TodoActions.addTodoTag({ id: todo.id, tag }));
+    }
+  }
+
+  removeTag(id: number, tag: string) {
+    this.store.dispatch(TodoActions.removeTodoTag({ id, tag }));
+  }
+
+  /**
+   * Show only todos with the given tag (null = any tag)
+   */
+  setTagFilter(tag: string | null) {
+    this.store.dispatch(TodoActions.setTagFilter({ tag }));
+  }
+
+  isOverdue(todo: Todo): boolean {
+    return isTodoOverdue(todo, this.today);
+  }
+
+  // ═══ MANUAL REORDERING ═══
+
+  onDragStart(id: number, event: DragEvent) {
+    this.draggedId.set(id);
+    event.dataTransfer?.setData('text/plain', String(id));
+  }
+
+  // preventDefault marks the item as a valid drop target
+  onDragOver(event: DragEvent) {
+    if (this.draggedId() !== null) {
+      event.preventDefault();
+    }
+  }
+
+  /**
+   * Move the dragged todo to the position of the todo it was dropped on
+   *
+   * @param targetId - Todo under the pointer
+   * @param ids - All todo ids in manual order (the filtered list may hide some)
+   */
+  onDrop(targetId: number, ids: number[]) {
+    const draggedId = this.draggedId();
+    this.draggedId.set(null);
+    if (draggedId !== null && draggedId !== targetId) {
+      this.reorder(draggedId, ids.indexOf(targetId), ids);
+    }
+  }
+
+  onDragEnd() {
+    this.draggedId.set(null);
+  }
+
+  /**
+   * Keyboard-friendly alternative to drag-and-drop
+   */
+  moveTodo(id: number, offset: number, ids: number[]) {
+    const index = ids.indexOf(id) + offset;
+    if (index >= 0 && index < ids.length) {
+      this.reorder(id, index, ids);
+    }
+  }
+
+  private reorder(id: number, toIndex: number, ids: number[]) {
+    const next = ids.filter((other) => other !== id);
+    next.splice(toIndex, 0, id);
+    this.store.dispatch(TodoActions.reorderTodos({ ids: next }));
+  }
+
+  /**
+   * Remove a todo through the API
+   * On success the reducer filters the array removing the todo with this id
    */
   deleteTodo(id: number) {
     this.store.dispatch(TodoActions.deleteTodo({ id }));
   }
 
   /**
-   * Change the current filter (all | active | completed)
+   * Change the filter of the active list (all | active | completed)
    * The filteredTodos selector will react by emitting the filtered array
    */
-  setFilter(filter: 'all' | 'active' | 'completed') {
+  setFilter(filter: TodoFilter) {
     this.store.dispatch(TodoActions.setFilter({ filter }));
   }
 
+  /**
+   * Change the sort order (created | text | status | priority | dueDate | manual)
+   * Entities are untouched, selectSortedTodos applies the matching comparer
+   */
+  setSort(sort: TodoSort) {
+    this.store.dispatch(TodoActions.setSort({ sort }));
+  }
+
+  /**
+   * Read the selected sort key from the <select> change event
+   */
+  onSortChange(event: Event) {
+    const select = event.target as HTMLSelectElement;
+    this.setSort(select.value as TodoSort);
+  }
+
   /**
    * Remove all completed todos at once
-   * The reducer filters the array keeping only todos with completed = false
+   * The server returns the removed ids, the reducer filters them out
    */
   clearCompleted() {
     this.store.dispatch(TodoActions.clearCompleted());
@@ -123,4 +409,11 @@ export class NgrxTodoDemo {
   clearLogs() {
     this.store.dispatch(ActionsLogActions.clearLogs());
   }
+
+  /**
+   * Turn simulated network errors of the fake backend on or off
+   */
+  toggleSimulateErrors() {
+    this.simulateErrors.update((value) => !value);
+  }
 }
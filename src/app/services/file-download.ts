@@ -0,0 +1,32 @@
+// COMPONENT TYPE: Utility
+// SECTION: UI State Management
+//
+// ROLE:
+// - Save text generated in the browser as a file, without a server round trip
+//
+// PATTERNS USED:
+// - Blob + object URL clicked through a temporary link
+//
+// NOTES FOR CONTRIBUTORS:
+// - Needs a browser: call it from event handlers, never during rendering
+// - The object URL is revoked later, not right after click(): some browsers start reading
+//   the blob only after the click handler returns
+
+// How long the object URL stays valid, enough for the browser to start the download
+const OBJECT_URL_LIFETIME_MS = 10_000;
+
+/**
+ * Save text as a file through a temporary link
+ *
+ * @param content - File content
+ * @param filename - Suggested name of the file
+ * @param type - MIME type
+ */
+export function downloadFile(content: string, filename: string, type: string) {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), OBJECT_URL_LIFETIME_MS);
+}
@@ -0,0 +1,80 @@
+import { TestBed } from '@angular/core/testing';
+import { DEFAULT_TOAST_DURATION_MS, ToastCloseReason, ToastService } from './toast.service';
+
+describe('ToastService', () => {
+  let service: ToastService;
+  let reasons: ToastCloseReason[];
+
+  // Close callback that remembers why the toast went away
+  const onClose = (reason: ToastCloseReason) => reasons.push(reason);
+  const messages = () => service.toasts().map((toast) => toast.message);
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    reasons = [];
+    service = TestBed.inject(ToastService);
+  });
+
+  afterEach(() => vi.useRealTimers());
+
+  it('should show toasts in order with their kind', () => {
+    service.show('Info');
+    service.success('Salvato');
+    service.error('Errore');
+    expect(service.toasts().map((toast) => [toast.message, toast.kind])).toEqual([
+      ['Info', 'info'],
+      ['Salvato', 'success'],
+      ['Errore', 'error'],
+    ]);
+  });
+
+  it('should close a toast after the default duration', () => {
+    service.show('Info', { onClose });
+    vi.advanceTimersByTime(DEFAULT_TOAST_DURATION_MS - 1);
+    expect(messages()).toEqual(['Info']);
+    vi.advanceTimersByTime(1);
+    expect(messages()).toEqual([]);
+    expect(reasons).toEqual(['timeout']);
+  });
+
+  it('should keep a toast with duration 0 until it is dismissed', () => {
+    const id = service.show('Fisso', { durationMs: 0, onClose });
+    vi.advanceTimersByTime(60_000);
+    expect(messages()).toEqual(['Fisso']);
+    service.dismiss(id);
+    service.dismiss(id);
+    expect(messages()).toEqual([]);
+    expect(reasons).toEqual(['dismiss']);
+  });
+
+  it('should run an action and close its toast with reason action', () => {
+    const run = vi.fn();
+    const id = service.show('Eliminato', { actions: [{ label: 'Annulla', run }], onClose });
+    service.runAction(id, service.toasts()[0].actions[0]);
+    expect(run).toHaveBeenCalledOnce();
+    expect(reasons).toEqual(['action']);
+    // The timer of a closed toast does not fire again
+    vi.advanceTimersByTime(DEFAULT_TOAST_DURATION_MS);
+    expect(reasons).toEqual(['action']);
+  });
+
+  it('should pause the countdown and resume it with the time left', () => {
+    const id = service.show('Info', { durationMs: 1000, onClose });
+    vi.advanceTimersByTime(600);
+    service.pause(id);
+    vi.advanceTimersByTime(5000);
+    expect(messages()).toEqual(['Info']);
+    service.resume(id);
+    vi.advanceTimersByTime(399);
+    expect(messages()).toEqual(['Info']);
+    vi.advanceTimersByTime(1);
+    expect(reasons).toEqual(['timeout']);
+  });
+
+  it('should dismiss the oldest toasts beyond the maximum', () => {
+    service.show('Primo', { onClose });
+    ['Secondo', 'Terzo', 'Quarto', 'Quinto'].forEach((message) => service.show(message));
+    expect(messages()).toEqual(['Secondo', 'Terzo', 'Quarto', 'Quinto']);
+    expect(reasons).toEqual(['dismiss']);
+  });
+});
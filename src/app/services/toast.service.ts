@@ -0,0 +1,152 @@
+// COMPONENT TYPE: Facade Service
+// SECTION: UI State Management
+//
+// ROLE:
+// - Manage the toast notifications shown at the bottom of every page
+// - Provide methods to show, dismiss and act on toasts
+// - Close toasts after their duration, pausing while the pointer is over them
+//
+// PATTERNS USED:
+// - Service for shared UI state (rendered once by ToastContainer in app.html)
+// - Signal-based state, exposed read-only
+// - Callbacks for action buttons and for the close reason
+//
+// NOTES FOR CONTRIBUTORS:
+// - Use this service instead of alert(): toasts do not block the page
+// - For undoable operations, apply the change at once, revert it in the action and
+//   finalize it in onClose when the reason is not 'action'
+// - Messages are shown to users, keep them in Italian
+
+import { Injectable, signal } from '@angular/core';
+
+export type ToastKind = 'info' | 'success' | 'error';
+
+// Why a toast went away
+export type ToastCloseReason = 'timeout' | 'action' | 'dismiss';
+
+export interface ToastAction {
+  label: string;
+  run: () => void;
+}
+
+export interface ToastOptions {
+  kind?: ToastKind;
+  actions?: ToastAction[];
+  durationMs?: number; // 0 keeps the toast until it is dismissed
+  onClose?: (reason: ToastCloseReason) => void;
+}
+
+export interface Toast {
+  id: number;
+  message: string;
+  kind: ToastKind;
+  actions: ToastAction[];
+}
+
+export const DEFAULT_TOAST_DURATION_MS = 4000;
+
+// Older toasts are dismissed when a new one would exceed this
+const MAX_TOASTS = 4;
+
+interface ToastTimer {
+  handle?: ReturnType<typeof setTimeout>;
+  remainingMs: number;
+  startedAt: number;
+}
+
+@Injectable({
+  providedIn: 'root',
+})
+export class ToastService {
+  private toastsSignal = signal<Toast[]>([]);
+
+  // Expose only the read-only signal
+  toasts = this.toastsSignal.asReadonly();
+
+  private nextId = 1;
+  private timers = new Map<number, ToastTimer>();
+  private closeHandlers = new Map<number, (reason: ToastCloseReason) => void>();
+
+  /**
+   * Show a toast
+   *
+   * @param message - Text of the toast
+   * @param options - Kind, action buttons, duration and close callback
+   * @returns number - Toast id, for dismiss()
+   */
+  show(message: string, options: ToastOptions = {}): number {
+    const id = this.nextId++;
+    const toast: Toast = {
+      id,
+      message,
+      kind: options.kind ?? 'info',
+      actions: options.actions ?? [],
+    };
+
+    const shown = this.toastsSignal();
+    shown
+      .slice(0, Math.max(0, shown.length - MAX_TOASTS + 1))
+      .forEach((old) => this.close(old.id, 'dismiss'));
+
+    this.toastsSignal.update((toasts) => [...toasts, toast]);
+    if (options.onClose) {
+      this.closeHandlers.set(id, options.onClose);
+    }
+    const durationMs = options.durationMs ?? DEFAULT_TOAST_DURATION_MS;
+    if (durationMs > 0) {
+      this.timers.set(id, { remainingMs: durationMs, startedAt: 0 });
+      this.resume(id);
+    }
+    return id;
+  }
+
+  success(message: string, options: Omit<ToastOptions, 'kind'> = {}): number {
+    return this.show(message, { ...options, kind: 'success' });
+  }
+
+  error(message: string, options: Omit<ToastOptions, 'kind'> = {}): number {
+    return this.show(message, { ...options, kind: 'error' });
+  }
+
+  // Run an action button, then close its toast
+  runAction(id: number, action: ToastAction) {
+    action.run();
+    this.close(id, 'action');
+  }
+
+  dismiss(id: number) {
+    this.close(id, 'dismiss');
+  }
+
+  // Stop the countdown (pointer over the toast)
+  pause(id: number) {
+    const timer = this.timers.get(id);
+    if (timer?.handle !== undefined) {
+      clearTimeout(timer.handle);
+      timer.handle = undefined;
+      timer.remainingMs -= Date.now() - timer.startedAt;
+    }
+  }
+
+  // Restart the countdown with the time left
+  resume(id: number) {
+    const timer = this.timers.get(id);
+    if (timer && timer.handle === undefined) {
+      timer.startedAt = Date.now();
+      timer.handle = setTimeout(() => this.close(id, 'timeout'), Math.max(0, timer.remainingMs));
+    }
+  }
+
+  private close(id: number, reason: ToastCloseReason) {
+    if (!this.toastsSignal().some((toast) => toast.id === id)) {
+      return;
+    }
+    clearTimeout(this.timers.get(id)?.handle);
+    this.timers.delete(id);
+    this.toastsSignal.update((toasts) => toasts.filter((toast) => toast.id !== id));
+
+    const onClose = this.closeHandlers.get(id);
+    this.closeHandlers.delete(id);
+    onClose?.(reason);
+  }
+}
@@ -0,0 +1,59 @@
+// COMPONENT TYPE: Utility
+// SECTION: State Management - Signal Store
+//
+// ROLE:
+// - Run the same user action on the NgRx store and on the signal store
+// - Record how long the synchronous part of each implementation took
+//
+// PATTERNS USED:
+// - Plain class owning a signal (one instance per comparison component)
+// - performance.now() around each callback
+//
+// NOTES FOR CONTRIBUTORS:
+// - Only synchronous work is measured: HTTP calls started by effects or rxMethod are not
+// - NgRx timings include every meta-reducer (time travel, actions log, undo/redo), which
+//   is part of what the comparison shows
+
+import { signal } from '@angular/core';
+
+export interface CompareRun {
+  id: number;
+  label: string; // Action description shown in the table, e.g. 'increment'
+  ngrxMs: number;
+  signalMs: number;
+}
+
+// Number of runs kept in the table
+const COMPARE_LOG_SIZE = 12;
+
+function measure(callback: () => void): number {
+  const start = performance.now();
+  callback();
+  return performance.now() - start;
+}
+
+export class CompareLog {
+  private nextId = 1;
+  readonly runs = signal<CompareRun[]>([]);
+
+  /**
+   * Apply one action to both implementations and record the timings
+   *
+   * @param label - Action description shown in the table
+   * @param ngrx - Callback dispatching the NgRx action(s)
+   * @param signalStore - Callback calling the equivalent signal store method(s)
+   */
+  run(label: string, ngrx: () => void, signalStore: () => void) {
+    const run: CompareRun = {
+      id: this.nextId++,
+      label,
+      ngrxMs: measure(ngrx),
+      signalMs: measure(signalStore),
+    };
+    this.runs.update((runs) => [run, ...runs].slice(0, COMPARE_LOG_SIZE));
+  }
+
+  clear() {
+    this.runs.set([]);
+  }
+}
@@ -0,0 +1,27 @@
+// COMPONENT TYPE: Presentational
+// SECTION: State Management - Signal Store
+//
+// ROLE:
+// - Show the timings recorded by CompareLog for the last actions
+//
+// PATTERNS USED:
+// - Input/Output communication, no store access
+//
+// NOTES FOR CONTRIBUTORS:
+// - Timings are informative only: they vary between runs and browsers
+
+import { Component, EventEmitter, Input, Output } from '@angular/core';
+import { DecimalPipe } from '@angular/common';
+import { CompareRun } from '../compare-log';
+
+@Component({
+  selector: 'app-compare-timings',
+  standalone: true,
+  imports: [DecimalPipe],
+  templateUrl: './compare-timings.html',
+  styleUrls: ['./compare-timings.scss'],
+})
+export class CompareTimings {
+  @Input() runs: CompareRun[] = [];
+  @Output() clear = new EventEmitter<void>();
+}
@@ -0,0 +1,125 @@
+// COMPONENT TYPE: Container
+// SECTION: State Management - Signal Store
+//
+// ROLE:
+// - Run every counter action on the NgRx store and on CounterSignalStore at once
+// - Show both states side by side, plus the time each implementation took
+//
+// PATTERNS USED:
+// - Store.selectSignal() to read NgRx state as signals (same template API as the signal store)
+// - Injected signal store read directly in the template
+// - CompareLog to apply one action to both implementations
+//
+// NOTES FOR CONTRIBUTORS:
+// - Every user action must call BOTH implementations through log.run()
+// - NgRx counter state is persisted, the signal store starts from zero: use "Reset" to align
+
+import { Component, inject, signal } from '@angular/core';
+import { DecimalPipe } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Store } from '@ngrx/store';
+import { AppState } from '../../store/app.state';
+import * as CounterActions from '../../store/counter/counter.actions';
+import * as CounterSelectors from '../../store/counter/counter.selectors';
+import { CounterSignalStore } from '../stores/counter.store';
+import { CompareLog } from '../compare-log';
+import { CompareTimings } from '../compare-timings/compare-timings';
+import { NgrxSparkline } from '../../ngrx-example/ngrx-sparkline/ngrx-sparkline';
+
+// Increments dispatched by the benchmark button
+const BENCHMARK_RUNS = 100;
+
+@Component({
+  selector: 'app-counter-compare',
+  standalone: true,
+  imports: [DecimalPipe, FormsModule, CompareTimings, NgrxSparkline],
+  templateUrl: './counter-compare.html',
+  styleUrls: ['./counter-compare.scss'],
+})
+export class CounterCompare {
+  private store = inject<Store<AppState>>(Store);
+  readonly signalStore = inject(CounterSignalStore);
+  readonly log = new CompareLog();
+  readonly benchmarkRuns = BENCHMARK_RUNS;
+
+  // NgRx side, exposed as signals like the signal store
+  readonly ngrxCounter = this.store.selectSignal(CounterSelectors.selectCounterFull);
+  readonly ngrxStats = this.store.selectSignal(CounterSelectors.selectHistoryStats);
+  readonly ngrxIsAtMin = this.store.selectSignal(CounterSelectors.selectIsAtMin);
+  readonly ngrxIsAtMax = this.store.selectSignal(CounterSelectors.selectIsAtMax);
+
+  newValue = signal<number | null>(null);
+  newStep = signal<number | null>(null);
+
+  increment() {
+    this.log.run(
+      'increment',
+      () => this.store.dispatch(CounterActions.increment()),
+      () => this.signalStore.increment()
+    );
+  }
+
+  decrement() {
+    this.log.run(
+      'decrement',
+      () => this.store.dispatch(CounterActions.decrement()),
+      () => this.signalStore.decrement()
+    );
+  }
+
+  reset() {
+    this.log.run(
+      'reset',
+      () => this.store.dispatch(CounterActions.reset()),
+      () => this.signalStore.reset()
+    );
+  }
+
+  setValue() {
+    const value = this.newValue();
+    if (value === null) return;
+    this.log.run(
+      `setValue(${value})`,
+      () => this.store.dispatch(CounterActions.setValue({ value })),
+      () => this.signalStore.setValue(value)
+    );
+    this.newValue.set(null);
+  }
+
+  setStep() {
+    const step = this.newStep();
+    if (step === null) return;
+    this.log.run(
+      `setStep(${step})`,
+      () => this.store.dispatch(CounterActions.setStep({ step })),
+      () => this.signalStore.setStep(step)
+    );
+    this.newStep.set(null);
+  }
+
+  // Step buttons use each implementation's own step (they match after setStep)
+  incrementByStep() {
+    this.log.run(
+      'incrementBy(step)',
+      () =>
+        this.store.dispatch(CounterActions.incrementBy({ amount: this.ngrxCounter().step })),
+      () => this.signalStore.incrementBy(this.signalStore.step())
+    );
+  }
+
+  benchmark() {
+    this.log.run(
+      `${BENCHMARK_RUNS}× increment`,
+      () => {
+        for (let i = 0; i < BENCHMARK_RUNS; i++) {
+          this.store.dispatch(CounterActions.increment());
+        }
+      },
+      () => {
+        for (let i = 0; i < BENCHMARK_RUNS; i++) {
+          this.signalStore.increment();
+        }
+      }
+    );
+  }
+}
@@ -0,0 +1,27 @@
+// COMPONENT TYPE: Routes
+// SECTION: State Management - Signal Store
+//
+// ROLE:
+// - Define the lazy-loaded route of the signal store comparison page
+// - Provide both implementations the page compares
+//
+// PATTERNS USED:
+// - Lazy child routes (loadChildren in app.routes.ts)
+// - Route-level providers for the NgRx feature slices and the signal stores
+//
+// NOTES FOR CONTRIBUTORS:
+// - provideNgrxDemoStore() is shared with the NgRx route: registering it twice is safe
+// - Signal stores are scoped to this route: leaving and re-entering keeps their state
+
+import { Routes } from '@angular/router';
+import { provideNgrxDemoStore } from '../store/ngrx-demo.providers';
+import { CounterSignalStore } from './stores/counter.store';
+import { TodoSignalStore } from './stores/todo.store';
+
+export const signalStoreRoutes: Routes = [
+  {
+    path: '',
+    providers: [provideNgrxDemoStore(), CounterSignalStore, TodoSignalStore],
+    loadComponent: () => import('./signal-store').then((m) => m.SignalStoreExample),
+  },
+];
@@ -0,0 +1,78 @@
+// COMPONENT TYPE: Container
+// SECTION: State Management - Signal Store
+//
+// ROLE:
+// - Introduce @ngrx/signals as the signal-native alternative to the NgRx global store
+// - Host the side-by-side comparisons of the counter and todo features
+//
+// PATTERNS USED:
+// - Standalone component architecture
+// - Signal-based tab selection
+// - Code examples rendered with CodeBlock
+//
+// NOTES FOR CONTRIBUTORS:
+// - Keep this component as a coordinator only, comparisons live in child components
+// - Code snippets mirror stores/counter.store.ts and stores/todo.store.ts: update them together
+
+import { Component, signal } from '@angular/core';
+import { PageHeader } from '../page-header/page-header';
+import { CodeBlock } from '../components/code-block/code-block';
+import { CounterCompare } from './counter-compare/counter-compare';
+import { TodoCompare } from './todo-compare/todo-compare';
+
+@Component({
+  selector: 'app-signal-store',
+  standalone: true,
+  imports: [PageHeader, CodeBlock, CounterCompare, TodoCompare],
+  templateUrl: './signal-store.html',
+  styleUrls: ['./signal-store.scss'],
+})
+export class SignalStoreExample {
+  selectedTab = signal<'counter' | 'todos'>('counter');
+
+  counterStoreCode = `// signal-store/stores/counter.store.ts
+export const CounterSignalStore = signalStore(
+  withState<CounterState>(initialCounterState),
+
+  // Selectors -> computed signals
+  withComputed(({ count, min }) => ({
+    isAtMin: computed(() => min() !== null && count() <= min()!),
+  })),
+
+  // Actions + reducer -> methods calling patchState
+  withMethods((store) => ({
+    increment() {
+      const count = clampToBounds(store.count() + 1, store.min(), store.max());
+      patchState(store, (state) => ({ count, history: [...state.history, count] }));
+    },
+  }))
+);`;
+
+  rxMethodCode = `// signal-store/stores/todo.store.ts
+withMethods((store, todoApi = inject(TodoApiService)) => ({
+  // Effect -> rxMethod (rxjs-interop)
+  loadTodos: rxMethod<number>(
+    pipe(
+      tap(() => patchState(store, { loading: true })),
+      switchMap((listId) => todoApi.getTodos().pipe(
+        tap((todos) => patchState(store, setAllEntities(todos), { loading: false }))
+      ))
+    )
+  ),
+})),
+withHooks({
+  onInit: (store) => store.loadTodos(DEFAULT_TODO_LIST_ID),
+})
+
+// In a component: passing a Signal re-runs the load every time it changes
+this.todoStore.loadTodos(this.store.selectSignal(selectActiveListId));`;
+
+  usageCode = `// NgRx Store
+count = this.store.selectSignal(selectCount);
+increment() { this.store.dispatch(increment()); }
+
+// Signal Store (provided by the route, injected like a service)
+store = inject(CounterSignalStore);
+count = this.store.count;
+increment() { this.store.increment(); }`;
+}
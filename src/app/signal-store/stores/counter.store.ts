@@ -0,0 +1,95 @@
+// COMPONENT TYPE: Signal Store
+// SECTION: State Management - Signal Store
+//
+// ROLE:
+// - Signal-native implementation of the NgRx counter feature (store/counter)
+// - Same state shape and rules: step, optional bounds, history and statistics
+//
+// PATTERNS USED:
+// - signalStore() composed from withState / withComputed / withMethods
+// - patchState for immutable updates (no actions, no reducer)
+// - computed() signals as the equivalent of memoized selectors
+//
+// NOTES FOR CONTRIBUTORS:
+// - Keep behaviour identical to counter.reducer.ts: the comparison page relies on it
+// - Reuses CounterState, initialCounterState and clampToBounds from the NgRx feature
+// - Provided by the signal-store route (signal-store.routes.ts), not in root
+
+import { computed } from '@angular/core';
+import { patchState, signalStore, withComputed, withMethods, withState } from '@ngrx/signals';
+import {
+  CounterState,
+  clampToBounds,
+  initialCounterState,
+} from '../../store/counter/counter.state';
+
+export const CounterSignalStore = signalStore(
+  withState<CounterState>(initialCounterState),
+  // PATTERN: Computed signals
+  // PURPOSE:
+  // - Same values as counter.selectors.ts, recomputed only when their inputs change
+  withComputed(({ count, history, min, max }) => ({
+    isAtMin: computed(() => min() !== null && count() <= (min() as number)),
+    isAtMax: computed(() => max() !== null && count() >= (max() as number)),
+    stats: computed(() => {
+      const values = history();
+      return {
+        min: values.reduce((lowest, value) => Math.min(lowest, value)),
+        max: values.reduce((highest, value) => Math.max(highest, value)),
+        average: values.reduce((sum, value) => sum + value, 0) / values.length,
+        // The first history entry is the starting value, not a change
+        changes: values.length - 1,
+      };
+    }),
+  })),
+  // PATTERN: Methods instead of actions
+  // PURPOSE:
+  // - Each method is the "action + reducer case" of the NgRx version in one place
+  withMethods((store) => {
+    // Same as moveTo() in counter.reducer.ts: no history entry when nothing changes
+    const moveTo = (value: number) => {
+      const count = clampToBounds(value, store.min(), store.max());
+      if (count !== store.count()) {
+        patchState(store, (state) => ({ count, history: [...state.history, count] }));
+      }
+    };
+
+    return {
+      increment: () => moveTo(store.count() + 1),
+      decrement: () => moveTo(store.count() - 1),
+      // NaN and Infinity are ignored, like in setValue
+      incrementBy(amount: number) {
+        if (Number.isFinite(amount)) {
+          moveTo(store.count() + amount);
+        }
+      },
+      decrementBy(amount: number) {
+        if (Number.isFinite(amount)) {
+          moveTo(store.count() - amount);
+        }
+      },
+      setValue(value: number) {
+        if (Number.isFinite(value)) {
+          moveTo(value);
+        }
+      },
+      // Reset clears value and history, but keeps step and bounds
+      reset() {
+        const count = clampToBounds(initialCounterState.count, store.min(), store.max());
+        patchState(store, { count, history: [count] });
+      },
+      setStep(step: number) {
+        if (Number.isFinite(step) && step > 0) {
+          patchState(store, { step });
+        }
+      },
+      setBounds(min: number | null, max: number | null) {
+        if (min !== null && max !== null && min > max) {
+          return;
+        }
+        patchState(store, { min, max });
+        moveTo(store.count());
+      },
+    };
+  })
+);
@@ -0,0 +1,193 @@
+// COMPONENT TYPE: Signal Store
+// SECTION: State Management - Signal Store
+//
+// ROLE:
+// - Signal-native implementation of the NgRx todo feature (store/todo)
+// - Load and change the todos of one list through the same TodoApiService used by TodoEffects
+// - Provide filter, sort and counts with computed signals
+//
+// PATTERNS USED:
+// - signalStore() with withEntities (the @ngrx/signals counterpart of @ngrx/entity)
+// - rxMethod (rxjs-interop) for every HTTP call: accepts a value, an Observable or a Signal
+// - withHooks onInit instead of a "load" action dispatched by the component
+//
+// NOTES FOR CONTRIBUTORS:
+// - Writes go to the same backend as NgRx and the state changes only with the server
+//   response, so a reload never drops them and ids always come from the server
+// - Flattening operators match TodoEffects: concatMap for adds, mergeMap for toggles and
+//   deletes, exhaustMap for clearCompleted
+// - Reuses Todo, TodoFilter, TodoSort and todoSortComparers from the NgRx feature
+// - Provided by the signal-store route (signal-store.routes.ts), not in root
+
+import { computed, inject } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import {
+  patchState,
+  signalStore,
+  withComputed,
+  withHooks,
+  withMethods,
+  withState,
+} from '@ngrx/signals';
+import {
+  addEntity,
+  removeEntities,
+  removeEntity,
+  setAllEntities,
+  setEntity,
+  withEntities,
+} from '@ngrx/signals/entities';
+import { rxMethod } from '@ngrx/signals/rxjs-interop';
+import {
+  EMPTY,
+  catchError,
+  concatMap,
+  exhaustMap,
+  filter,
+  map,
+  mergeMap,
+  pipe,
+  switchMap,
+  tap,
+} from 'rxjs';
+import { TodoApiService } from '../../../services/todo-api.service';
+import {
+  DEFAULT_TODO_LIST_ID,
+  Todo,
+  TodoFilter,
+  TodoSort,
+  todoSortComparers,
+} from '../../store/todo/todo.state';
+
+// Build a user-facing message from an HTTP error, like TodoEffects
+function toErrorMessage(prefix: string, err: HttpErrorResponse): string {
+  return `${prefix}: ${err.statusText || err.message}`;
+}
+
+interface TodoSignalState {
+  listId: number; // List loaded from the backend
+  filter: TodoFilter;
+  sort: TodoSort;
+  loading: boolean;
+  error: string | null;
+}
+
+const initialTodoSignalState: TodoSignalState = {
+  listId: DEFAULT_TODO_LIST_ID,
+  filter: 'all',
+  sort: 'created',
+  loading: false,
+  error: null,
+};
+
+export const TodoSignalStore = signalStore(
+  withEntities<Todo>(),
+  withState(initialTodoSignalState),
+  // PATTERN: Computed signals
+  // PURPOSE:
+  // - Same derivations as todo.selectors.ts (sorted -> filtered -> counts)
+  withComputed(({ entities, filter, sort }) => {
+    const sortedTodos = computed(() => [...entities()].sort(todoSortComparers[sort()]));
+    const completedCount = computed(() => entities().filter((todo) => todo.completed).length);
+
+    return {
+      sortedTodos,
+      filteredTodos: computed(() => {
+        switch (filter()) {
+          case 'active':
+            return sortedTodos().filter((todo) => !todo.completed);
+          case 'completed':
+            return sortedTodos().filter((todo) => todo.completed);
+          default:
+            return sortedTodos();
+        }
+      }),
+      completedCount,
+      activeCount: computed(() => entities().length - completedCount()),
+    };
+  }),
+  withMethods((store, todoApi = inject(TodoApiService)) => {
+    // Keep the stream alive: show the error and wait for the next call
+    const fail = (prefix: string) => (err: HttpErrorResponse) => {
+      patchState(store, { loading: false, error: toErrorMessage(prefix, err) });
+      return EMPTY;
+    };
+
+    return {
+      // PATTERN: rxMethod
+      // PURPOSE:
+      // - switchMap cancels a stale request, exactly like loadTodos$ in TodoEffects
+      // - Passing a Signal<number> reloads automatically every time the list id changes
+      loadTodos: rxMethod<number>(
+        pipe(
+          tap((listId) => patchState(store, { listId, loading: true, error: null })),
+          switchMap((listId) =>
+            todoApi.getTodos().pipe(
+              tap((todos) =>
+                patchState(store, setAllEntities(todos.filter((t) => t.listId === listId)), {
+                  loading: false,
+                })
+              ),
+              catchError(fail('Errore nel caricamento dei todo'))
+            )
+          )
+        )
+      ),
+      // The server assigns id and order, the todo goes to the list loaded when it was added
+      addTodo: rxMethod<string>(
+        pipe(
+          map((text) => text.trim()),
+          filter((text) => text !== ''),
+          concatMap((text) =>
+            todoApi.addTodo(text, store.listId()).pipe(
+              tap((todo) => patchState(store, addEntity(todo), { error: null })),
+              catchError(fail('Errore nella creazione del todo'))
+            )
+          )
+        )
+      ),
+      // The current completed flag is read when the request starts, like toggleTodo$
+      toggleTodo: rxMethod<number>(
+        pipe(
+          mergeMap((id) =>
+            todoApi.updateTodo(id, { completed: !store.entityMap()[id]?.completed }).pipe(
+              tap((todo) => patchState(store, setEntity(todo), { error: null })),
+              catchError(fail("Errore nell'aggiornamento del todo"))
+            )
+          )
+        )
+      ),
+      deleteTodo: rxMethod<number>(
+        pipe(
+          mergeMap((id) =>
+            todoApi.deleteTodo(id).pipe(
+              tap(() => patchState(store, removeEntity(id), { error: null })),
+              catchError(fail("Errore nell'eliminazione del todo"))
+            )
+          )
+        )
+      ),
+      clearCompleted: rxMethod<void>(
+        pipe(
+          exhaustMap(() =>
+            todoApi.deleteCompleted(store.listId()).pipe(
+              tap((ids) => patchState(store, removeEntities(ids), { error: null })),
+              catchError(fail("Errore nell'eliminazione dei completati"))
+            )
+          )
+        )
+      ),
+      setFilter(filter: TodoFilter) {
+        patchState(store, { filter });
+      },
+      setSort(sort: TodoSort) {
+        patchState(store, { sort });
+      },
+    };
+  }),
+  withHooks({
+    onInit(store) {
+      store.loadTodos(DEFAULT_TODO_LIST_ID);
+    },
+  })
+);
@@ -0,0 +1,119 @@
+// COMPONENT TYPE: Container
+// SECTION: State Management - Signal Store
+//
+// ROLE:
+// - Run shared todo actions (add, filter, sort, clear, reload) on both implementations
+// - Show the NgRx active list and TodoSignalStore side by side
+//
+// PATTERNS USED:
+// - Store.selectSignal() for the NgRx side
+// - rxMethod fed with a Signal: the signal store follows the NgRx active list automatically
+// - CompareLog to apply one action to both implementations
+//
+// NOTES FOR CONTRIBUTORS:
+// - Per-item actions (toggle, delete) stay per column: each side acts on the todos it loaded
+// - Both implementations write to the same in-memory backend, like two clients: adding on
+//   both creates two todos, and each side sees the other's writes after a reload
+
+import { Component, inject, signal } from '@angular/core';
+import { FormsModule } from '@angular/forms';
+import { Store } from '@ngrx/store';
+import { AppState } from '../../store/app.state';
+import * as TodoActions from '../../store/todo/todo.actions';
+import * as TodoSelectors from '../../store/todo/todo.selectors';
+import { TODO_FILTERS, TodoFilter, TodoSort } from '../../store/todo/todo.state';
+import { TodoSignalStore } from '../stores/todo.store';
+import { CompareLog } from '../compare-log';
+import { CompareTimings } from '../compare-timings/compare-timings';
+
+@Component({
+  selector: 'app-todo-compare',
+  standalone: true,
+  imports: [FormsModule, CompareTimings],
+  templateUrl: './todo-compare.html',
+  styleUrls: ['./todo-compare.scss'],
+})
+export class TodoCompare {
+  private store = inject<Store<AppState>>(Store);
+  readonly signalStore = inject(TodoSignalStore);
+  readonly log = new CompareLog();
+
+  readonly filters = TODO_FILTERS;
+  readonly sorts: { value: TodoSort; label: string }[] = [
+    { value: 'created', label: 'Creazione' },
+    { value: 'text', label: 'Testo' },
+    { value: 'status', label: 'Stato' },
+    { value: 'priority', label: 'Priorità' },
+  ];
+
+  // NgRx side, exposed as signals like the signal store
+  readonly ngrxTodos = this.store.selectSignal(TodoSelectors.selectFilteredTodos);
+  readonly ngrxActiveCount = this.store.selectSignal(TodoSelectors.selectActiveTodosCount);
+  readonly ngrxCompletedCount = this.store.selectSignal(TodoSelectors.selectCompletedTodosCount);
+  readonly ngrxFilter = this.store.selectSignal(TodoSelectors.selectFilter);
+  readonly ngrxSort = this.store.selectSignal(TodoSelectors.selectSort);
+  readonly ngrxLoading = this.store.selectSignal(TodoSelectors.selectTodoLoading);
+  readonly ngrxError = this.store.selectSignal(TodoSelectors.selectTodoError);
+  private ngrxListId = this.store.selectSignal(TodoSelectors.selectActiveListId);
+
+  newTodoText = signal('');
+
+  constructor() {
+    this.store.dispatch(TodoActions.loadTodos());
+    // rxMethod + Signal: reloads the signal store whenever the NgRx active list changes
+    this.signalStore.loadTodos(this.ngrxListId);
+  }
+
+  addTodo() {
+    const text = this.newTodoText().trim();
+    if (!text) return;
+    this.log.run(
+      'addTodo',
+      () => this.store.dispatch(TodoActions.addTodo({ text })),
+      () => this.signalStore.addTodo(text)
+    );
+    this.newTodoText.set('');
+  }
+
+  setFilter(filter: TodoFilter) {
+    this.log.run(
+      `setFilter('${filter}')`,
+      () => this.store.dispatch(TodoActions.setFilter({ filter })),
+      () => this.signalStore.setFilter(filter)
+    );
+  }
+
+  onSortChange(event: Event) {
+    const sort = (event.target as HTMLSelectElement).value as TodoSort;
+    this.log.run(
+      `setSort('${sort}')`,
+      () => this.store.dispatch(TodoActions.setSort({ sort })),
+      () => this.signalStore.setSort(sort)
+    );
+  }
+
+  clearCompleted() {
+    this.log.run(
+      'clearCompleted',
+      () => this.store.dispatch(TodoActions.clearCompleted()),
+      () => this.signalStore.clearCompleted()
+    );
+  }
+
+  reload() {
+    this.log.run(
+      'loadTodos',
+      () => this.store.dispatch(TodoActions.loadTodos()),
+      () => this.signalStore.loadTodos(this.ngrxListId())
+    );
+  }
+
+  // Per-column actions
+  ngrxToggle(id: number) {
+    this.store.dispatch(TodoActions.toggleTodo({ id }));
+  }
+
+  ngrxDelete(id: number) {
+    this.store.dispatch(TodoActions.deleteTodo({ id }));
+  }
+}
@@ -0,0 +1,230 @@
+// COMPONENT TYPE: Container
+// SECTION: State Management - Store Inspector
+//
+// ROLE:
+// - Provide a built-in time-travel inspector, available on every route
+// - List every recorded action, newest first
+// - Show the AppState before/after the selected action as a JSON tree, or their diff
+// - Jump to any past state and replay the following actions step by step
+// - Export the feature slices as a JSON file and import them back (file or pasted JSON)
+//
+// PATTERNS USED:
+// - Smart Component pattern (NgRx Store integration)
+// - View Model pattern using combineLatest
+// - Signals for local UI state (open, selection, active tab)
+// - RxJS concatMap + timer for a cancellable step-by-step replay
+// - downloadFile() for downloads, File.text() for uploads
+//
+// NOTES FOR CONTRIBUTORS:
+// - Recording and jumping live in store/time-travel/time-travel.meta-reducer.ts, not here
+// - Mounted once in app.html: do not add it to feature pages
+// - Unlike StoreDevtools it needs no browser extension
+// - Replay only swaps recorded snapshots in: effects (and HTTP calls) never run again
+// - Snapshot parsing and validation live in store/snapshot/, this component only reads files,
+//   shows errors and dispatches importSnapshot with valid data
+
+import { Component, OnDestroy, signal } from '@angular/core';
+import { CommonModule } from '@angular/common';
+import { FormsModule } from '@angular/forms';
+import { Store } from '@ngrx/store';
+import { Subscription, combineLatest, concatMap, from, map, take, timer } from 'rxjs';
+import { AppState } from '../store/app.state';
+import { StateChange } from '../store/actions-log/actions-log.state';
+import { diffState } from '../store/actions-log/state-diff';
+import { TimeTravelEntry } from '../store/time-travel/time-travel.state';
+import * as TimeTravelActions from '../store/time-travel/time-travel.actions';
+import * as TimeTravelSelectors from '../store/time-travel/time-travel.selectors';
+import * as SnapshotActions from '../store/snapshot/snapshot.actions';
+import {
+  createStateSnapshot,
+  parseStateSnapshot,
+  snapshotFileName,
+} from '../store/snapshot/snapshot.serializer';
+import { JsonTree } from '../components/json-tree/json-tree';
+import { downloadFile } from '../services/file-download';
+
+type InspectorTab = 'diff' | 'before' | 'after';
+
+// Delay between two states during a replay
+const REPLAY_STEP_MS = 600;
+
+@Component({
+  selector: 'app-store-inspector',
+  standalone: true,
+  imports: [CommonModule, FormsModule, JsonTree],
+  templateUrl: './store-inspector.html',
+  styleUrl: './store-inspector.scss',
+})
+export class StoreInspector implements OnDestroy {
+  vm$;
+
+  isOpen = signal(false);
+  selectedId = signal<number | null>(null); // null = newest entry
+  activeTab = signal<InspectorTab>('diff');
+  isReplaying = signal(false);
+
+  // Snapshot import/export panel
+  isSnapshotOpen = signal(false);
+  snapshotJson = signal('');
+  snapshotErrors = signal<string[]>([]);
+  snapshotMessage = signal<string | null>(null);
+
+  tabs: { value: InspectorTab; label: string }[] = [
+    { value: 'diff', label: 'Diff' },
+    { value: 'before', label: 'Prima' },
+    { value: 'after', label: 'Dopo' },
+  ];
+
+  private replaySubscription?: Subscription;
+
+  // Diffs are computed once per entry (entries are immutable)
+  private diffCache = new WeakMap<TimeTravelEntry, StateChange[]>();
+
+  constructor(private store: Store<AppState>) {
+    this.vm$ = combineLatest({
+      entries: this.store.select(TimeTravelSelectors.selectTimelineEntries),
+      currentId: this.store.select(TimeTravelSelectors.selectCurrentEntryId),
+    });
+  }
+
+  toggle() {
+    this.isOpen.update((open) => !open);
+  }
+
+  select(id: number) {
+    this.selectedId.set(id);
+  }
+
+  // Selected entry, falling back to the newest one
+  selectedEntry(entries: TimeTravelEntry[]): TimeTravelEntry | undefined {
+    const id = this.selectedId();
+    return entries.find((entry) => entry.id === id) ?? entries[0];
+  }
+
+  diff(entry: TimeTravelEntry): StateChange[] {
+    let changes = this.diffCache.get(entry);
+    if (!changes) {
+      changes = diffState(entry.before, entry.after, 6, 100);
+      this.diffCache.set(entry, changes);
+    }
+    return changes;
+  }
+
+  jumpTo(id: number) {
+    this.stopReplay();
+    this.store.dispatch(TimeTravelActions.jumpToEntry({ id }));
+  }
+
+  jumpToLive() {
+    this.stopReplay();
+    this.store.dispatch(TimeTravelActions.jumpToLive());
+  }
+
+  clearTimeline() {
+    this.stopReplay();
+    this.selectedId.set(null);
+    this.store.dispatch(TimeTravelActions.clearTimeline());
+  }
+
+  /**
+   * Jump to the given entry, then walk forward through the following ones
+   *
+   * @param id - First entry of the replay
+   * @param entries - Timeline, newest first (as rendered)
+   */
+  replayFrom(id: number, entries: TimeTravelEntry[]) {
+    this.stopReplay();
+    const ids = entries
+      .filter((entry) => entry.id >= id)
+      .map((entry) => entry.id)
+      .reverse();
+
+    this.isReplaying.set(true);
+    this.replaySubscription = from(ids)
+      .pipe(
+        concatMap((stepId, index) =>
+          timer(index === 0 ? 0 : REPLAY_STEP_MS).pipe(map(() => stepId))
+        )
+      )
+      .subscribe({
+        next: (stepId) => {
+          this.selectedId.set(stepId);
+          this.store.dispatch(TimeTravelActions.jumpToEntry({ id: stepId }));
+        },
+        complete: () => {
+          this.isReplaying.set(false);
+          this.store.dispatch(TimeTravelActions.jumpToLive());
+        },
+      });
+  }
+
+  stopReplay() {
+    this.replaySubscription?.unsubscribe();
+    this.isReplaying.set(false);
+  }
+
+  toggleSnapshot() {
+    this.isSnapshotOpen.update((open) => !open);
+  }
+
+  // Download the registered feature slices as a JSON file
+  exportState() {
+    this.store.pipe(take(1)).subscribe((state) => {
+      const now = new Date();
+      const snapshot = createStateSnapshot(state, now);
+      const slices = Object.keys(snapshot.state);
+      if (!slices.length) {
+        this.showSnapshotErrors(['Nessuno slice da esportare: apri prima la demo NgRx']);
+        return;
+      }
+      downloadFile(JSON.stringify(snapshot, null, 2), snapshotFileName(now), 'application/json');
+      this.snapshotErrors.set([]);
+      this.snapshotMessage.set(`Esportati: ${slices.join(', ')}`);
+    });
+  }
+
+  // Load the chosen file into the textarea and import it right away
+  importFile(event: Event) {
+    const input = event.target as HTMLInputElement;
+    const file = input.files?.[0];
+    // Reset so choosing the same file again fires a new change event
+    input.value = '';
+    if (!file) {
+      return;
+    }
+    file.text().then(
+      (json) => {
+        this.snapshotJson.set(json);
+        this.importState();
+      },
+      () => this.showSnapshotErrors([`Impossibile leggere il file ${file.name}`])
+    );
+  }
+
+  // Validate the JSON in the textarea, the store only receives valid slices
+  importState() {
+    const result = parseStateSnapshot(this.snapshotJson());
+    if (!result.ok) {
+      this.showSnapshotErrors(result.errors);
+      return;
+    }
+    this.stopReplay();
+    this.store.dispatch(SnapshotActions.importSnapshot({ state: result.state }));
+    this.snapshotErrors.set([]);
+    this.snapshotMessage.set(`Importati: ${Object.keys(result.state).join(', ')}`);
+  }
+
+  private showSnapshotErrors(errors: string[]) {
+    this.snapshotErrors.set(errors);
+    this.snapshotMessage.set(null);
+  }
+
+  // Compact single-line JSON for payloads and diff values
+  format(value: unknown): string {
+    return value === undefined ? '—' : JSON.stringify(value);
+  }
+
+  ngOnDestroy() {
+    this.stopReplay();
+  }
+}
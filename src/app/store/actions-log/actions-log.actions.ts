@@ -10,7 +10,7 @@
 //
 // NOTES FOR CONTRIBUTORS:
 // - This feature is for educational demos only
-// - Logging is handled in the reducer by listening to other actions
+// - Logging is handled by actionsLogMetaReducer for every dispatched action
 // - Only clearLogs action is explicitly defined here
 
 import { createAction } from '@ngrx/store';
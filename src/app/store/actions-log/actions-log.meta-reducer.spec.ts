@@ -0,0 +1,111 @@
+import { Action, ActionReducer, combineReducers } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { appReducers } from '../app.reducers';
+import * as CounterActions from '../counter/counter.actions';
+import { counterReducer } from '../counter/counter.reducer';
+import * as ActionsLogActions from './actions-log.actions';
+import { createActionsLogMetaReducer } from './actions-log.meta-reducer';
+import { actionsLogReducer } from './actions-log.reducer';
+
+// Root slices plus the counter and the log, as after visiting the NgRx route
+const rootSlices = combineReducers(appReducers);
+const rootReducer: ActionReducer<AppState> = (state, action) => ({
+  ...rootSlices(state, action),
+  counter: counterReducer(state?.counter, action),
+  actionsLog: actionsLogReducer(state?.actionsLog, action),
+});
+
+const init: Action = { type: '@ngrx/store/init' };
+
+describe('createActionsLogMetaReducer', () => {
+  let reducer: ActionReducer<AppState>;
+
+  // Apply actions in order, starting from the initial state
+  const run = (...actions: Action[]) => actions.reduce(reducer, reducer(undefined, init));
+  const types = (state: AppState) => state.actionsLog?.entries.map((entry) => entry.type);
+
+  beforeEach(() => {
+    reducer = createActionsLogMetaReducer({
+      maxEntries: 3,
+      include: [],
+      exclude: ['@ngrx/', '[Actions Log]'],
+      ignoreStateKeys: ['undoRedo', 'timeTravel', 'router'],
+    })(rootReducer);
+  });
+
+  it('should log an action with its payload and the state changes it made', () => {
+    const [entry] = run(CounterActions.incrementBy({ amount: 5 })).actionsLog?.entries ?? [];
+    expect(entry).toEqual({
+      id: 1,
+      type: '[Counter] Increment By',
+      payload: { amount: 5 },
+      timestamp: expect.any(Number),
+      diff: [
+        { path: 'counter.count', before: 0, after: 5 },
+        { path: 'counter.history', before: [0], after: [0, 5] },
+      ],
+    });
+  });
+
+  it('should put the newest entry first with the next id', () => {
+    const state = run(CounterActions.increment(), CounterActions.reset());
+    expect(state.actionsLog?.entries.map((entry) => [entry.id, entry.payload])).toEqual([
+      [2, null],
+      [1, null],
+    ]);
+  });
+
+  it('should log actions that change nothing with an empty diff', () => {
+    const [entry] = run(CounterActions.setValue({ value: 0 })).actionsLog?.entries ?? [];
+    expect(entry.diff).toEqual([]);
+  });
+
+  it('should keep at most maxEntries, dropping the oldest', () => {
+    const increments = Array.from({ length: 5 }, () => CounterActions.increment());
+    expect(run(...increments).actionsLog?.entries.map((entry) => entry.id)).toEqual([5, 4, 3]);
+  });
+
+  it('should skip excluded prefixes and clear the log with its own action', () => {
+    const state = run(CounterActions.increment(), ActionsLogActions.clearLogs());
+    expect(state.actionsLog?.entries).toEqual([]);
+    // Ids restart after a clear
+    expect(reducer(state, CounterActions.increment()).actionsLog?.entries[0].id).toBe(1);
+  });
+
+  it('should only log included prefixes when include is set', () => {
+    reducer = createActionsLogMetaReducer({
+      maxEntries: 10,
+      include: ['[Counter] Set'],
+      exclude: ['[Counter] Set Bounds'],
+      ignoreStateKeys: [],
+    })(rootReducer);
+    const state = run(
+      CounterActions.increment(),
+      CounterActions.setStep({ step: 2 }),
+      CounterActions.setBounds({ min: 0, max: 10 })
+    );
+    expect(types(state)).toEqual(['[Counter] Set Step']);
+  });
+
+  it('should leave the ignored keys and the log itself out of the diff', () => {
+    reducer = createActionsLogMetaReducer({
+      maxEntries: 3,
+      include: [],
+      exclude: ['@ngrx/'],
+      ignoreStateKeys: ['counter'],
+    })(rootReducer);
+    const state = run(CounterActions.increment(), CounterActions.increment());
+    expect(state.actionsLog?.entries.map((entry) => entry.diff)).toEqual([[], []]);
+  });
+
+  it('should not log anything before the log slice is registered', () => {
+    const withoutLog = createActionsLogMetaReducer({
+      maxEntries: 3,
+      include: [],
+      exclude: [],
+      ignoreStateKeys: [],
+    })(combineReducers(appReducers));
+    const state = withoutLog(undefined, CounterActions.increment());
+    expect(state.actionsLog).toBeUndefined();
+  });
+});
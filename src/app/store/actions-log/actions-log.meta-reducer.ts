@@ -0,0 +1,78 @@
+// COMPONENT TYPE: Store - Meta-Reducer
+// SECTION: State Management - Actions Log
+//
+// ROLE:
+// - Record EVERY dispatched action (type, payload, timestamp, state diff)
+// - Filter recorded actions by type prefix (include / exclude)
+// - Cap the log size
+//
+// PATTERNS USED:
+// - MetaReducer (higher-order reducer wrapping the root reducer)
+// - Factory function returning a configured meta-reducer
+// - Structural state diff computed from before/after references
+//
+// NOTES FOR CONTRIBUTORS:
+// - New features are logged automatically: no on() handler needed anywhere
+// - Register it OUTSIDE undoRedo so undo/redo diffs are visible in the log
+// - Date.now() makes this meta-reducer impure: acceptable for an educational log only
+
+import { ActionReducer, MetaReducer } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { ActionLogEntry } from './actions-log.state';
+import { diffState } from './state-diff';
+
+// PATTERN: Meta-reducer configuration
+// PURPOSE:
+// - Keep logging rules in one place (app.meta-reducers.ts)
+// - Filter noisy action groups without touching feature code
+export interface ActionsLogConfig {
+  maxEntries: number; // Oldest entries are dropped beyond this size
+  include: string[]; // Type prefixes to record, e.g. '[Todo]' (empty = everything)
+  exclude: string[]; // Type prefixes never recorded, checked after include
+  ignoreStateKeys: string[]; // Root keys left out of the diff (the log itself is always left out)
+}
+
+/**
+ * Create a meta-reducer that logs every matching action into state.actionsLog
+ *
+ * @param config - Size cap, include/exclude prefixes and diff settings
+ * @returns MetaReducer<AppState> - Meta-reducer to register with provideStore
+ */
+export function createActionsLogMetaReducer(config: ActionsLogConfig): MetaReducer<AppState> {
+  const ignoredKeys = new Set([...config.ignoreStateKeys, 'actionsLog']);
+  const matches = (type: string, prefixes: string[]) =>
+    prefixes.some((prefix) => type.startsWith(prefix));
+  const shouldLog = (type: string) =>
+    (config.include.length === 0 || matches(type, config.include)) &&
+    !matches(type, config.exclude);
+
+  // Only the diffed part of the state, so the log never diffs itself
+  const pickTracked = (state: AppState | undefined) =>
+    Object.fromEntries(Object.entries(state ?? {}).filter(([key]) => !ignoredKeys.has(key)));
+
+  return (reducer: ActionReducer<AppState>): ActionReducer<AppState> =>
+    (state, action) => {
+      const next = reducer(state, action);
+      if (!shouldLog(action.type) || !next.actionsLog) {
+        return next;
+      }
+
+      const { type, ...props } = action;
+      const entries = next.actionsLog.entries;
+      const entry: ActionLogEntry = {
+        id: (entries[0]?.id ?? 0) + 1,
+        type,
+        payload: Object.keys(props).length ? (props as Record<string, unknown>) : null,
+        timestamp: Date.now(),
+        diff: diffState(pickTracked(state), pickTracked(next)),
+      };
+
+      return {
+        ...next,
+        actionsLog: {
+          ...next.actionsLog,
+          entries: [entry, ...entries].slice(0, config.maxEntries),
+        },
+      };
+    };
+}
@@ -2,25 +2,31 @@
 // SECTION: State Management - Actions Log
 //
 // ROLE:
-// - Provide access to actions log for display
+// - Provide access to actions log entries for display
 // - Support educational visibility of dispatched actions
 //
 // PATTERNS USED:
 // - Feature selector for root access
-// - Simple selector for log array
+// - Selector factory for per-prefix views
 //
 // NOTES FOR CONTRIBUTORS:
-// - Only two selectors needed (state and logs)
-// - Logs are already ordered (newest first)
+// - Entries are already ordered (newest first)
+// - Use selectLogEntriesByPrefix to show a single feature's actions
 // - This is for educational demos only
 
 import { createFeatureSelector, createSelector } from '@ngrx/store';
-import { ActionsLogState } from './actions-log.state';
+import { ACTIONS_LOG_FEATURE_KEY, ActionsLogState } from './actions-log.state';
 
 export const selectActionsLogState =
-  createFeatureSelector<ActionsLogState>('actionsLog');
+  createFeatureSelector<ActionsLogState>(ACTIONS_LOG_FEATURE_KEY);
 
-export const selectLogs = createSelector(
+export const selectLogEntries = createSelector(
   selectActionsLogState,
-  (state) => state.logs
+  (state) => state.entries
 );
+
+// Selector factory: entries whose type starts with the given prefix (e.g. '[Todo')
+export const selectLogEntriesByPrefix = (prefix: string) =>
+  createSelector(selectLogEntries, (entries) =>
+    entries.filter((entry) => entry.type.startsWith(prefix))
+  );
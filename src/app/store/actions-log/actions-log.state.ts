@@ -3,23 +3,40 @@
 //
 // ROLE:
 // - Define actions log state for educational visibility
-// - Track dispatched actions for learning purposes
+// - Describe a log entry (type, payload, timestamp, state diff)
 // - Provide alternative to Redux DevTools for demos
 //
 // PATTERNS USED:
-// - Simple array-based log structure
+// - Array of serializable entries, newest first
 // - Empty initial state
 //
 // NOTES FOR CONTRIBUTORS:
-// - This is for educational purposes only
-// - Logs are limited to 10 entries in reducer
+// - Entries are written by actionsLogMetaReducer, not by feature reducers
+// - The number of entries is capped by ActionsLogConfig.maxEntries
 // - Not needed in production (use Redux DevTools)
-// - Consider removing for real applications
+
+// A single changed value between the state before and after an action
+export interface StateChange {
+  path: string; // Dot path from the root state, e.g. 'counter.count'
+  before: unknown;
+  after: unknown;
+}
+
+export interface ActionLogEntry {
+  id: number; // Sequential id, restarts after clearLogs
+  type: string; // Action type, e.g. '[Counter] Increment'
+  payload: Record<string, unknown> | null; // Action props without `type`, null if none
+  timestamp: number; // Dispatch time (ms since epoch)
+  diff: StateChange[]; // State changes produced by the action
+}
+
+// Key of the lazily registered feature slice (provideState in ngrx-demo.providers.ts)
+export const ACTIONS_LOG_FEATURE_KEY = 'actionsLog';
 
 export interface ActionsLogState {
-  logs: string[];
+  entries: ActionLogEntry[];
 }
 
 export const initialActionsLogState: ActionsLogState = {
-  logs: [],
+  entries: [],
 };
@@ -0,0 +1,55 @@
+// COMPONENT TYPE: Utility
+// SECTION: State Management - Actions Log
+//
+// ROLE:
+// - Compute the list of values that changed between two states
+// - Produce dot paths readable in the actions log UI
+//
+// PATTERNS USED:
+// - Recursive structural diff with reference short-circuit
+// - Bounded output (max depth, max changes) to keep log entries small
+//
+// NOTES FOR CONTRIBUTORS:
+// - Relies on immutable reducers: equal references are never walked
+// - Arrays are compared as a whole (reported as a single change)
+// - Values are stored by reference, never deep-copied
+
+import { StateChange } from './actions-log.state';
+
+const isPlainObject = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Compute the changes between two state trees
+ *
+ * @param before - State before the action
+ * @param after - State after the action
+ * @param maxDepth - Objects deeper than this are reported as a single change
+ * @param maxChanges - Stop collecting after this many changes
+ * @returns StateChange[] - Changed paths with their before/after values
+ */
+export function diffState(
+  before: unknown,
+  after: unknown,
+  maxDepth = 4,
+  maxChanges = 20
+): StateChange[] {
+  const changes: StateChange[] = [];
+
+  const walk = (a: unknown, b: unknown, path: string, depth: number) => {
+    if (a === b || changes.length >= maxChanges) {
+      return;
+    }
+    if (depth < maxDepth && isPlainObject(a) && isPlainObject(b)) {
+      const keys = new Set([...Object.keys(a), ...Object.keys(b)]);
+      for (const key of keys) {
+        walk(a[key], b[key], path ? `${path}.${key}` : key, depth + 1);
+      }
+      return;
+    }
+    changes.push({ path, before: a, after: b });
+  };
+
+  walk(before, after, '', 0);
+  return changes;
+}
@@ -0,0 +1,98 @@
+// COMPONENT TYPE: Store - Meta-Reducers
+// SECTION: State Management - Application Meta-Reducers
+//
+// ROLE:
+// - Configure and collect all meta-reducers wrapping the root reducer
+// - Keep cross-cutting store behaviour (invariant checks, persistence, time travel, logging,
+//   recording, undo/redo, snapshot import) out of feature reducers
+// - Hold the persistence configuration shared with providePersistenceRehydration
+//
+// PATTERNS USED:
+// - MetaReducer array passed to provideStore
+// - Factory functions configured in one place
+//
+// NOTES FOR CONTRIBUTORS:
+// - Add new meta-reducers to the metaReducers array
+// - Order matters: the first meta-reducer is the outermost wrapper
+// - Used in app.config.ts: provideStore(appReducers, { metaReducers })
+
+import { isDevMode } from '@angular/core';
+import { MetaReducer } from '@ngrx/store';
+import { AppState } from './app.state';
+import { createUndoRedoMetaReducer } from './undo-redo/undo-redo.meta-reducer';
+import { createActionsLogMetaReducer } from './actions-log/actions-log.meta-reducer';
+import { createTimeTravelMetaReducer } from './time-travel/time-travel.meta-reducer';
+import {
+  PersistenceConfig,
+  createPersistenceMetaReducer,
+} from './persistence/persistence.meta-reducer';
+import {
+  PERSISTENCE_SCHEMA_VERSION,
+  persistenceMigrations,
+} from './persistence/persistence.migrations';
+import { localStorageStorage } from './persistence/persistence.storage';
+import { createSnapshotImportMetaReducer } from './snapshot/snapshot.meta-reducer';
+import { createRecorderMetaReducer } from './recorder/recorder.meta-reducer';
+import { createInvariantsMetaReducer } from './invariants/invariants.meta-reducer';
+import { StoreInvariant, consoleInvariantReporter } from './invariants/store-invariant';
+import { counterInvariants } from './counter/counter.invariants';
+import { todoInvariants } from './todo/todo.invariants';
+
+export const persistenceConfig: PersistenceConfig = {
+  storageKey: 'angular-showcase.store',
+  // Swap with indexedDbStorage() for large states, the rest of the config is unchanged
+  storage: localStorageStorage,
+  version: PERSISTENCE_SCHEMA_VERSION,
+  migrations: persistenceMigrations,
+  slices: [
+    { key: 'counter' },
+    { key: 'todo', exclude: ['loading', 'error'] },
+    { key: 'actionsLog' },
+    // Saved scripts survive a reload, a recording in progress does not
+    { key: 'recorder', exclude: ['session'] },
+  ],
+  debounceMs: 300,
+};
+
+// Checked after every action in dev mode, add the invariants of new slices here
+export const appInvariants: StoreInvariant[] = [...counterInvariants, ...todoInvariants];
+
+export const metaReducers: MetaReducer<AppState>[] = [
+  // Outermost, dev mode only: checks the final state, after persistence merged pending slices
+  ...(isDevMode()
+    ? [createInvariantsMetaReducer({ invariants: appInvariants, report: consoleInvariantReporter })]
+    : []),
+  // Saves the state produced by every other meta-reducer (including undo/redo)
+  createPersistenceMetaReducer(persistenceConfig),
+  // Wraps everything else, so each snapshot is the complete state (log and undo stacks included)
+  createTimeTravelMetaReducer({
+    maxEntries: 100,
+    ignoredActions: [],
+    // The URL belongs to the Router: restoring an old router slice would navigate away
+    // Saved scripts are tools, not app state: jumping back must not delete them
+    liveKeys: ['router', 'recorder'],
+  }),
+  // Outside undoRedo, so the diff of an undo/redo is recorded too
+  createActionsLogMetaReducer({
+    maxEntries: 20,
+    include: [],
+    // Store internals and the log's own actions are noise in an educational log
+    exclude: ['@ngrx/', '[Persistence]', '[Actions Log]', '[Recorder]'],
+    ignoreStateKeys: ['undoRedo', 'timeTravel', 'router', 'recorder'],
+  }),
+  // Outside undoRedo, so undo and redo can be recorded as steps of a script
+  createRecorderMetaReducer({ include: ['[Counter]', '[Todo]', '[Undo Redo]'] }),
+  createUndoRedoMetaReducer({
+    // The actions log is an educational view of what happened, undo must not rewrite it
+    // The router slice follows the URL, browser back/forward is its undo
+    // Recording and saving scripts are not demo edits either
+    // Todos live on the server: swapping the client slice back would leave it out of sync
+    // (an undone delete gets 404s on the next edit, an undone add comes back on reload)
+    exclude: ['actionsLog', 'timeTravel', 'router', 'recorder', 'todo'],
+    // Rehydration restores saved state, it is not a user edit
+    ignoredActions: ['[Persistence]'],
+    limit: 50,
+  }),
+  // Innermost: an import is a regular change for undo/redo, the actions log and time travel
+  createSnapshotImportMetaReducer(),
+];
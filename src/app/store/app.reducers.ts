@@ -2,8 +2,8 @@
 // SECTION: State Management - Application Reducers
 //
 // ROLE:
-// - Combine all feature reducers into single reducer map
-// - Register feature reducers with NgRx Store
+// - Combine the root reducers into single reducer map
+// - Register root reducers (slices needed on every route) with NgRx Store
 // - Map state keys to their respective reducers
 //
 // PATTERNS USED:
@@ -11,19 +11,20 @@
 // - Feature reducer composition
 //
 // NOTES FOR CONTRIBUTORS:
-// - Add new feature reducers here when creating new store slices
+// - Only slices used app-wide belong here; feature slices are registered per route with
+//   provideState() (see ngrx-demo.providers.ts)
 // - Keys must match AppState interface keys exactly
 // - Import reducers from feature folders
-// - Used in app.config.ts: provideStore(appReducers)
+// - Used in app.config.ts: provideStore(appReducers, { metaReducers })
 
 import { ActionReducerMap } from '@ngrx/store';
+import { routerReducer } from '@ngrx/router-store';
 import { AppState } from './app.state';
-import { counterReducer } from './counter/counter.reducer';
-import { todoReducer } from './todo/todo.reducer';
-import { actionsLogReducer } from './actions-log/actions-log.reducer';
+import { undoRedoReducer } from './undo-redo/undo-redo.reducer';
+import { timeTravelReducer } from './time-travel/time-travel.reducer';
 
 export const appReducers: ActionReducerMap<AppState> = {
-  counter: counterReducer,
-  todo: todoReducer,
-  actionsLog: actionsLogReducer,
+  undoRedo: undoRedoReducer,
+  timeTravel: timeTravelReducer,
+  router: routerReducer,
 };
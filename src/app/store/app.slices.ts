@@ -0,0 +1,52 @@
+// COMPONENT TYPE: Utility
+// SECTION: State Management - Application State
+//
+// ROLE:
+// - Copy and list AppState slices by key, for meta-reducers that work on whole slices
+//   (undo/redo, time travel, persistence, snapshot import)
+//
+// PATTERNS USED:
+// - Pure functions typed against AppState: partial states stay Partial<AppState>
+//
+// NOTES FOR CONTRIBUTORS:
+// - Prefer these helpers to casting the state to a plain record
+// - Not exported from index.ts: only meta-reducers need them
+
+import { AppState } from './app.state';
+
+export type AppStateKey = keyof AppState;
+
+// The generic key keeps the source and target slice types in step
+function copySlice<K extends AppStateKey>(
+  target: Partial<AppState>,
+  source: Partial<AppState>,
+  key: K
+) {
+  target[key] = source[key];
+}
+
+/**
+ * Copy the given slices out of a (partial) state
+ *
+ * @param state - State to read, keys it does not have are copied as undefined
+ * @param keys - Feature keys to copy
+ * @returns Partial<AppState> - Only the requested slices
+ */
+export function pickSlices(
+  state: Partial<AppState>,
+  keys: readonly AppStateKey[]
+): Partial<AppState> {
+  const slices: Partial<AppState> = {};
+  keys.forEach((key) => copySlice(slices, state, key));
+  return slices;
+}
+
+/**
+ * Keys present in a (partial) state
+ *
+ * @param state - Full state or a snapshot of some slices
+ * @returns AppStateKey[] - Its own keys
+ */
+export function sliceKeys(state: Partial<AppState>): AppStateKey[] {
+  return Object.keys(state) as AppStateKey[];
+}
@@ -13,6 +13,7 @@
 //
 // NOTES FOR CONTRIBUTORS:
 // - Add new feature states here when creating new store slices
+// - Lazily registered slices are optional: they are undefined until their route is loaded
 // - Keep feature state keys lowercase (counter, todo, not Counter, Todo)
 // - Import feature state interfaces from their respective files
 // - This interface is used throughout the app for Store<AppState> typing
@@ -20,9 +21,19 @@
 import { CounterState } from './counter/counter.state';
 import { TodoState } from './todo/todo.state';
 import { ActionsLogState } from './actions-log/actions-log.state';
+import { UndoRedoState } from './undo-redo/undo-redo.state';
+import { TimeTravelState } from './time-travel/time-travel.state';
+import { RouterState } from './router/router.state';
+import { RecorderState } from './recorder/recorder.state';
 
 export interface AppState {
-  counter: CounterState;
-  todo: TodoState;
-  actionsLog: ActionsLogState;
+  // Feature slices, registered by the lazy 'state/ngrx' route (ngrx-demo.providers.ts)
+  counter?: CounterState;
+  todo?: TodoState;
+  actionsLog?: ActionsLogState;
+  recorder?: RecorderState; // Recording in progress is written by recorderMetaReducer
+  // Root slices, available on every route
+  undoRedo: UndoRedoState; // Managed by undoRedoMetaReducer
+  timeTravel: TimeTravelState; // Managed by timeTravelMetaReducer
+  router: RouterState; // Managed by @ngrx/router-store (undefined before the first navigation)
 }
@@ -10,6 +10,7 @@
 // - NgRx createAction for type safety
 // - Action naming convention: '[Feature] Action Description'
 // - Simple actions without payloads (props)
+// - Typed payloads for data-carrying actions (setValue, incrementBy, ...)
 //
 // NOTES FOR CONTRIBUTORS:
 // - Use descriptive action names that explain intent
@@ -17,8 +18,36 @@
 // - Add props<{ ... }>() for actions that need data
 // - Keep actions focused (one responsibility each)
 
-import { createAction } from '@ngrx/store';
+import { createAction, props } from '@ngrx/store';
 
 export const increment = createAction('[Counter] Increment');
 export const decrement = createAction('[Counter] Decrement');
 export const reset = createAction('[Counter] Reset');
+
+// Value changes with payload
+export const setValue = createAction(
+  '[Counter] Set Value',
+  props<{ value: number }>()
+);
+
+export const incrementBy = createAction(
+  '[Counter] Increment By',
+  props<{ amount: number }>()
+);
+
+export const decrementBy = createAction(
+  '[Counter] Decrement By',
+  props<{ amount: number }>()
+);
+
+// Configuration
+export const setStep = createAction(
+  '[Counter] Set Step',
+  props<{ step: number }>()
+);
+
+// null removes a bound
+export const setBounds = createAction(
+  '[Counter] Set Bounds',
+  props<{ min: number | null; max: number | null }>()
+);
@@ -0,0 +1,49 @@
+// COMPONENT TYPE: Store - Invariants
+// SECTION: State Management - Counter
+//
+// ROLE:
+// - Describe the rules every CounterState must respect
+// - Catch reducer bugs in dev mode (see invariants.meta-reducer.ts)
+//
+// PATTERNS USED:
+// - StoreInvariant objects with pure checks
+//
+// NOTES FOR CONTRIBUTORS:
+// - Add a rule here whenever the reducer starts guaranteeing something new
+// - Messages are developer-facing (console only), keep them in English
+
+import { StoreInvariant } from '../invariants/store-invariant';
+
+export const counterInvariants: StoreInvariant[] = [
+  {
+    // moveTo() and reset always push the new count into history
+    name: 'counter.history-ends-with-count',
+    check: ({ counter }) => {
+      if (!counter) return [];
+      const last = counter.history[counter.history.length - 1];
+      return last === counter.count
+        ? []
+        : [`history ends with ${last}, but count is ${counter.count}`];
+    },
+  },
+  {
+    name: 'counter.step-is-positive',
+    check: ({ counter }) =>
+      !counter || (Number.isFinite(counter.step) && counter.step > 0)
+        ? []
+        : [`step must be a positive number, got ${counter.step}`],
+  },
+  {
+    name: 'counter.count-within-bounds',
+    check: ({ counter }) => {
+      if (!counter) return [];
+      const { count, min, max } = counter;
+      if (min !== null && max !== null && min > max) {
+        return [`min (${min}) is greater than max (${max})`];
+      }
+      return (min !== null && count < min) || (max !== null && count > max)
+        ? [`count ${count} is outside [${min ?? '-∞'}, ${max ?? '+∞'}]`]
+        : [];
+    },
+  },
+];
@@ -0,0 +1,99 @@
+import * as CounterActions from './counter.actions';
+import { counterReducer } from './counter.reducer';
+import { selectHistoryStats, selectIsAtMax, selectIsAtMin } from './counter.selectors';
+import { COUNTER_FEATURE_KEY, CounterState, initialCounterState } from './counter.state';
+
+// Apply actions in order, starting from the initial state
+function reduce(...actions: Parameters<typeof counterReducer>[1][]): CounterState {
+  return actions.reduce((state, action) => counterReducer(state, action), initialCounterState);
+}
+
+// Selectors read the feature slice from the root state
+const root = (state: CounterState) => ({ [COUNTER_FEATURE_KEY]: state });
+
+describe('counterReducer', () => {
+  it('should record every value change in history', () => {
+    const state = reduce(
+      CounterActions.increment(),
+      CounterActions.incrementBy({ amount: 5 }),
+      CounterActions.decrementBy({ amount: 2 }),
+      CounterActions.setValue({ value: -3 })
+    );
+    expect(state.count).toBe(-3);
+    expect(state.history).toEqual([0, 1, 6, 4, -3]);
+  });
+
+  it('should ignore non-finite values and amounts', () => {
+    const start = reduce(CounterActions.increment());
+    for (const value of [NaN, Infinity, -Infinity]) {
+      expect(counterReducer(start, CounterActions.setValue({ value }))).toBe(start);
+      expect(counterReducer(start, CounterActions.incrementBy({ amount: value }))).toBe(start);
+      expect(counterReducer(start, CounterActions.decrementBy({ amount: value }))).toBe(start);
+    }
+  });
+
+  it('should not add a history entry when the value does not change', () => {
+    const start = reduce(CounterActions.setValue({ value: 4 }));
+    expect(counterReducer(start, CounterActions.setValue({ value: 4 }))).toBe(start);
+    expect(counterReducer(start, CounterActions.incrementBy({ amount: 0 }))).toBe(start);
+  });
+
+  it('should only accept a positive step', () => {
+    const state = reduce(CounterActions.setStep({ step: 5 }));
+    expect(state.step).toBe(5);
+    expect(counterReducer(state, CounterActions.setStep({ step: 0 }))).toBe(state);
+    expect(counterReducer(state, CounterActions.setStep({ step: -1 }))).toBe(state);
+    expect(counterReducer(state, CounterActions.setStep({ step: NaN }))).toBe(state);
+  });
+
+  it('should clamp every change into the bounds', () => {
+    const bounded = reduce(CounterActions.setBounds({ min: -2, max: 3 }));
+    const state = [
+      CounterActions.incrementBy({ amount: 10 }),
+      CounterActions.increment(),
+      CounterActions.setValue({ value: -50 }),
+    ].reduce(counterReducer, bounded);
+    expect(state.history).toEqual([0, 3, -2]);
+    expect(selectIsAtMin(root(state))).toBe(true);
+    expect(selectIsAtMax(root(state))).toBe(false);
+  });
+
+  it('should pull the value inside new bounds and ignore inverted ones', () => {
+    const state = reduce(
+      CounterActions.setValue({ value: 8 }),
+      CounterActions.setBounds({ min: null, max: 5 })
+    );
+    expect(state).toEqual(expect.objectContaining({ count: 5, history: [0, 8, 5], max: 5 }));
+    expect(counterReducer(state, CounterActions.setBounds({ min: 4, max: 1 }))).toBe(state);
+  });
+
+  it('should reset value and history, keeping step and clamping to the bounds', () => {
+    const state = reduce(
+      CounterActions.setStep({ step: 3 }),
+      CounterActions.setValue({ value: 20 }),
+      CounterActions.setBounds({ min: 10, max: null }),
+      CounterActions.reset()
+    );
+    expect(state).toEqual({ count: 10, history: [10], step: 3, min: 10, max: null });
+  });
+});
+
+describe('counter history selectors', () => {
+  it('should compute min, max, average and number of changes', () => {
+    const state = reduce(
+      CounterActions.setValue({ value: 6 }),
+      CounterActions.setValue({ value: -2 }),
+      CounterActions.setValue({ value: 4 })
+    );
+    expect(selectHistoryStats(root(state))).toEqual({ min: -2, max: 6, average: 2, changes: 3 });
+  });
+
+  it('should count no changes for a fresh counter', () => {
+    expect(selectHistoryStats(root(initialCounterState))).toEqual({
+      min: 0,
+      max: 0,
+      average: 0,
+      changes: 0,
+    });
+  });
+});
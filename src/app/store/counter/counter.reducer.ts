@@ -18,22 +18,54 @@
 // - Use array spread for arrays: [...array, newItem]
 // - Each on() handler should be a pure function
 // - Keep reducer logic simple (complex logic belongs in effects)
+// - Every value change goes through moveTo(), so bounds are enforced in one place
 
 import { createReducer, on } from '@ngrx/store';
-import { CounterState, initialCounterState } from './counter.state';
+import { CounterState, clampToBounds, initialCounterState } from './counter.state';
 import * as CounterActions from './counter.actions';
 
+// Move the counter to a new value (clamped into bounds) and record it in history
+// Returns the same state when nothing changes (e.g. incrementing at max): no history entry
+function moveTo(state: CounterState, value: number): CounterState {
+  const count = clampToBounds(value, state.min, state.max);
+  if (count === state.count) {
+    return state;
+  }
+  return {
+    ...state,
+    count,
+    history: [...state.history, count],
+  };
+}
+
 export const counterReducer = createReducer(
   initialCounterState,
-  on(CounterActions.increment, (state) => ({
-    ...state,
-    count: state.count + 1,
-    history: [...state.history, state.count + 1],
-  })),
-  on(CounterActions.decrement, (state) => ({
-    ...state,
-    count: state.count - 1,
-    history: [...state.history, state.count - 1],
-  })),
-  on(CounterActions.reset, () => initialCounterState)
+  on(CounterActions.increment, (state) => moveTo(state, state.count + 1)),
+  on(CounterActions.decrement, (state) => moveTo(state, state.count - 1)),
+  // NaN and Infinity are ignored, like in setValue
+  on(CounterActions.incrementBy, (state, { amount }) =>
+    Number.isFinite(amount) ? moveTo(state, state.count + amount) : state
+  ),
+  on(CounterActions.decrementBy, (state, { amount }) =>
+    Number.isFinite(amount) ? moveTo(state, state.count - amount) : state
+  ),
+  on(CounterActions.setValue, (state, { value }) =>
+    Number.isFinite(value) ? moveTo(state, value) : state
+  ),
+  // Reset clears value and history, but keeps step and bounds
+  on(CounterActions.reset, (state) => {
+    const count = clampToBounds(initialCounterState.count, state.min, state.max);
+    return { ...state, count, history: [count] };
+  }),
+  // Step must be a positive number, invalid values are ignored
+  on(CounterActions.setStep, (state, { step }) =>
+    Number.isFinite(step) && step > 0 ? { ...state, step } : state
+  ),
+  // Inverted bounds are ignored; the current value is pulled inside the new bounds
+  on(CounterActions.setBounds, (state, { min, max }) => {
+    if (min !== null && max !== null && min > max) {
+      return state;
+    }
+    return moveTo({ ...state, min, max }, state.count);
+  })
 );
@@ -18,12 +18,13 @@
 // - Keep selectors simple (single responsibility)
 // - Use selectors for derived/computed values
 // - Never mutate state in selectors
+// - History statistics are derived here, never stored in state
 
 import { createFeatureSelector, createSelector } from '@ngrx/store';
-import { CounterState } from './counter.state';
+import { COUNTER_FEATURE_KEY, CounterState } from './counter.state';
 
 // Feature selector: root access to counter state slice
-export const selectCounterState = createFeatureSelector<CounterState>('counter');
+export const selectCounterState = createFeatureSelector<CounterState>(COUNTER_FEATURE_KEY);
 
 // Derived selectors: extract specific properties
 export const selectCount = createSelector(
@@ -36,6 +37,58 @@ export const selectHistory = createSelector(
   (state) => state.history
 );
 
+export const selectStep = createSelector(
+  selectCounterState,
+  (state) => state.step
+);
+
+export const selectBounds = createSelector(
+  selectCounterState,
+  (state) => ({ min: state.min, max: state.max })
+);
+
+// Bound flags: disable increment/decrement buttons when the counter cannot move
+export const selectIsAtMin = createSelector(
+  selectCounterState,
+  (state) => state.min !== null && state.count <= state.min
+);
+
+export const selectIsAtMax = createSelector(
+  selectCounterState,
+  (state) => state.max !== null && state.count >= state.max
+);
+
+// History statistics: each one recomputes only when history changes
+// reduce() instead of Math.min(...history): no argument-count limit on long histories
+export const selectHistoryMin = createSelector(
+  selectHistory,
+  (history) => history.reduce((min, value) => Math.min(min, value))
+);
+
+export const selectHistoryMax = createSelector(
+  selectHistory,
+  (history) => history.reduce((max, value) => Math.max(max, value))
+);
+
+export const selectHistoryAverage = createSelector(
+  selectHistory,
+  (history) => history.reduce((sum, value) => sum + value, 0) / history.length
+);
+
+// The first history entry is the starting value, not a change
+export const selectChangeCount = createSelector(
+  selectHistory,
+  (history) => history.length - 1
+);
+
+export const selectHistoryStats = createSelector(
+  selectHistoryMin,
+  selectHistoryMax,
+  selectHistoryAverage,
+  selectChangeCount,
+  (min, max, average, changes) => ({ min, max, average, changes })
+);
+
 export const selectCounterFull = createSelector(
   selectCounterState,
   (state) => state
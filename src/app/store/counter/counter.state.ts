@@ -16,13 +16,30 @@
 // - All state properties should be serializable (no functions, classes)
 // - Update initial state when adding new properties
 // - Document each property's purpose if non-obvious
+// - Bounds are optional (null = unbounded) and enforced by the reducer, never by components
+
+// Key of the lazily registered feature slice (provideState in ngrx-demo.providers.ts)
+export const COUNTER_FEATURE_KEY = 'counter';
 
 export interface CounterState {
   count: number; // Current counter value
   history: number[]; // Array of all counter values over time
+  step: number; // Amount used by the "± step" buttons (always > 0)
+  min: number | null; // Lower bound, null = no lower bound
+  max: number | null; // Upper bound, null = no upper bound
 }
 
 export const initialCounterState: CounterState = {
   count: 0,
   history: [0],
+  step: 1,
+  min: null,
+  max: null,
 };
+
+// Clamp a value into the configured bounds
+export function clampToBounds(value: number, min: number | null, max: number | null): number {
+  if (min !== null && value < min) return min;
+  if (max !== null && value > max) return max;
+  return value;
+}
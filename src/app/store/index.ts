@@ -13,7 +13,7 @@
 // NOTES FOR CONTRIBUTORS:
 // - Add new feature exports here when creating new store slices
 // - Group exports by feature for clarity
-// - Export state, actions, reducers, and selectors for each feature
+// - Export state, actions, reducers, selectors (and effects, if any) for each feature
 // - This allows: import { increment, selectCount } from 'store'
 
 // Counter
@@ -21,19 +21,73 @@ export * from './counter/counter.state';
 export * from './counter/counter.actions';
 export * from './counter/counter.reducer';
 export * from './counter/counter.selectors';
+export * from './counter/counter.invariants';
 
 // Todo
 export * from './todo/todo.state';
 export * from './todo/todo.actions';
 export * from './todo/todo.reducer';
 export * from './todo/todo.selectors';
+export * from './todo/todo.effects';
+export * from './todo/todo-router.effects';
+export * from './todo/todo.invariants';
 
 // Actions Log
 export * from './actions-log/actions-log.state';
 export * from './actions-log/actions-log.actions';
 export * from './actions-log/actions-log.reducer';
 export * from './actions-log/actions-log.selectors';
+export * from './actions-log/actions-log.meta-reducer';
+export * from './actions-log/state-diff';
+
+// Action Recorder
+export * from './recorder/recorder.state';
+export * from './recorder/recorder.actions';
+export * from './recorder/recorder.reducer';
+export * from './recorder/recorder.selectors';
+export * from './recorder/recorder.meta-reducer';
+export * from './recorder/todo-id-map';
+
+// Undo / Redo
+export * from './undo-redo/undo-redo.state';
+export * from './undo-redo/undo-redo.actions';
+export * from './undo-redo/undo-redo.reducer';
+export * from './undo-redo/undo-redo.selectors';
+export * from './undo-redo/undo-redo.meta-reducer';
+
+// Time Travel
+export * from './time-travel/time-travel.state';
+export * from './time-travel/time-travel.actions';
+export * from './time-travel/time-travel.reducer';
+export * from './time-travel/time-travel.selectors';
+export * from './time-travel/time-travel.meta-reducer';
+
+// Router
+export * from './router/router.state';
+export * from './router/router.serializer';
+export * from './router/router.selectors';
+
+// Persistence
+export * from './persistence/persistence.actions';
+export * from './persistence/persistence.storage';
+export * from './persistence/persistence.migrations';
+export * from './persistence/persistence.meta-reducer';
+export * from './persistence/persistence.providers';
+
+// State Snapshots
+export * from './snapshot/snapshot.state';
+export * from './snapshot/snapshot.actions';
+export * from './snapshot/snapshot.validation';
+export * from './snapshot/snapshot.serializer';
+export * from './snapshot/snapshot.meta-reducer';
+export * from './snapshot/snapshot.effects';
+
+// Invariants
+export * from './invariants/store-invariant';
+export * from './invariants/invariants.meta-reducer';
 
 // App
 export * from './app.state';
 export * from './app.reducers';
+export * from './app.meta-reducers';
+export * from './ngrx-demo.providers';
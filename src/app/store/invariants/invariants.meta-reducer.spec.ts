@@ -0,0 +1,212 @@
+import { Action, ActionReducer } from '@ngrx/store';
+import { AppState } from '../app.state';
+import * as CounterActions from '../counter/counter.actions';
+import { counterInvariants } from '../counter/counter.invariants';
+import { counterReducer } from '../counter/counter.reducer';
+import { initialCounterState } from '../counter/counter.state';
+import * as TodoActions from '../todo/todo.actions';
+import { todoInvariants } from '../todo/todo.invariants';
+import { todoReducer } from '../todo/todo.reducer';
+import { Todo, TodoState, initialTodoState, todoAdapter } from '../todo/todo.state';
+import { createInvariantsMetaReducer } from './invariants.meta-reducer';
+import { InvariantViolation, StoreInvariant } from './store-invariant';
+
+// Only the slices a test needs: the root slices are never read by the checks
+const appState = (slices: Partial<AppState>) => slices as AppState;
+
+// Problems found by a group of invariants, keyed by invariant name
+function violations(invariants: StoreInvariant[], state: AppState) {
+  return Object.fromEntries(
+    invariants
+      .map((invariant) => [invariant.name, invariant.check(state)] as const)
+      .filter(([, messages]) => messages.length)
+  );
+}
+
+describe('createInvariantsMetaReducer', () => {
+  const action: Action = { type: '[Test] Set' };
+  // Root reducer replacing the state with the one carried by the test
+  let nextState: AppState;
+  const reducer: ActionReducer<AppState> = () => nextState;
+
+  // Fails with one message per negative value
+  const positive: StoreInvariant = {
+    name: 'test.positive',
+    check: (state) =>
+      (state as unknown as { values: number[] }).values
+        .filter((value) => value < 0)
+        .map((value) => `${value} is negative`),
+  };
+
+  let reported: InvariantViolation[];
+  let checked: ActionReducer<AppState>;
+
+  // Run one action producing a state with the given values
+  const dispatch = (...values: number[]) => {
+    nextState = { values } as unknown as AppState;
+    return checked(undefined, action);
+  };
+
+  beforeEach(() => {
+    reported = [];
+    checked = createInvariantsMetaReducer({
+      invariants: [positive],
+      report: (violation) => reported.push(violation),
+    })(reducer);
+  });
+
+  it('should return the state of the wrapped reducer without reporting', () => {
+    expect(dispatch(1, 2)).toBe(nextState);
+    expect(reported).toEqual([]);
+  });
+
+  it('should report a violation with the action and the resulting state', () => {
+    const state = dispatch(-1);
+    expect(reported).toEqual([
+      { invariant: 'test.positive', messages: ['-1 is negative'], action, state },
+    ]);
+  });
+
+  it('should report an ongoing violation only once', () => {
+    dispatch(-1);
+    dispatch(-1);
+    dispatch(-1, 2);
+    expect(reported.length).toBe(1);
+  });
+
+  it('should report again when the problems change', () => {
+    dispatch(-1);
+    dispatch(-1, -2);
+    expect(reported.map((violation) => violation.messages)).toEqual([
+      ['-1 is negative'],
+      ['-1 is negative', '-2 is negative'],
+    ]);
+  });
+
+  it('should report again after the invariant held', () => {
+    dispatch(-1);
+    dispatch(1);
+    dispatch(-1);
+    expect(reported.length).toBe(2);
+  });
+
+  it('should report a check that throws instead of throwing', () => {
+    checked = createInvariantsMetaReducer({
+      invariants: [
+        {
+          name: 'test.broken',
+          check: () => {
+            throw new Error('boom');
+          },
+        },
+      ],
+      report: (violation) => reported.push(violation),
+    })(reducer);
+    expect(() => dispatch()).not.toThrow();
+    expect(reported[0].messages).toEqual(['The check threw: boom']);
+  });
+});
+
+describe('counterInvariants', () => {
+  it('should hold for every state the reducer produces', () => {
+    const states = [
+      CounterActions.increment(),
+      CounterActions.setStep({ step: 5 }),
+      CounterActions.incrementBy({ amount: 5 }),
+      CounterActions.setBounds({ min: 0, max: 3 }),
+      CounterActions.setValue({ value: 10 }),
+      CounterActions.decrement(),
+      CounterActions.reset(),
+    ].reduce(
+      (list, next) => [...list, counterReducer(list[list.length - 1], next)],
+      [initialCounterState]
+    );
+    for (const counter of states) {
+      expect(violations(counterInvariants, appState({ counter }))).toEqual({});
+    }
+  });
+
+  it('should skip the slice before it is registered', () => {
+    expect(violations(counterInvariants, appState({}))).toEqual({});
+  });
+
+  it('should catch a broken counter', () => {
+    const counter = { count: 7, history: [0, 5], step: 0, min: 0, max: 5 };
+    expect(violations(counterInvariants, appState({ counter }))).toEqual({
+      'counter.history-ends-with-count': ['history ends with 5, but count is 7'],
+      'counter.step-is-positive': ['step must be a positive number, got 0'],
+      'counter.count-within-bounds': ['count 7 is outside [0, 5]'],
+    });
+  });
+
+  it('should catch inverted bounds', () => {
+    const counter = { ...initialCounterState, min: 5, max: 1 };
+    expect(violations(counterInvariants, appState({ counter }))).toEqual({
+      'counter.count-within-bounds': ['min (5) is greater than max (1)'],
+    });
+  });
+});
+
+describe('todoInvariants', () => {
+  const todo = (id: number, changes: Partial<Todo> = {}): Todo => ({
+    id,
+    text: `Todo ${id}`,
+    completed: false,
+    priority: 'medium',
+    dueDate: null,
+    tags: ['casa'],
+    order: id,
+    listId: 1,
+    ...changes,
+  });
+
+  const loaded: TodoState = todoAdapter.setAll([todo(1), todo(2)], initialTodoState);
+
+  it('should hold for the states the reducer produces', () => {
+    const states = [
+      TodoActions.createList({ name: 'Lavoro' }),
+      TodoActions.addTodoSuccess({ todo: todo(3, { listId: 2 }) }),
+      TodoActions.deleteListSuccess({ id: 2, todoIds: [3] }),
+    ].reduce((list, next) => [...list, todoReducer(list[list.length - 1], next)], [loaded]);
+    for (const state of states) {
+      expect(violations(todoInvariants, appState({ todo: state }))).toEqual({});
+    }
+  });
+
+  it('should catch ids and entities that disagree', () => {
+    const state: TodoState = {
+      ...loaded,
+      ids: [1, 1, 3],
+      entities: { 1: todo(1), 2: todo(2), 4: todo(5) },
+    };
+    expect(violations(todoInvariants, appState({ todo: state }))).toEqual({
+      'todo.entities-match-ids': [
+        'todos: duplicate ids in [1, 1, 3]',
+        'todos: id 3 has no entity',
+        'todos: entity 2 is missing from ids',
+        'todos: entity 4 is missing from ids',
+      ],
+    });
+  });
+
+  it('should catch a missing active list and a stale list sequence', () => {
+    const state: TodoState = { ...loaded, lists: { ...loaded.lists, activeId: 9, nextId: 1 } };
+    expect(violations(todoInvariants, appState({ todo: state }))).toEqual({
+      'todo.active-list-exists': [
+        'active list 9 does not exist',
+        'lists.nextId 1 is not greater than list ids [1]',
+      ],
+    });
+  });
+
+  it('should catch todos of missing lists and tags that are not normalized', () => {
+    const state = todoAdapter.setAll(
+      [todo(1, { listId: 4 }), todo(2, { tags: ['Casa', 'casa', 'casa', ''] })],
+      initialTodoState
+    );
+    expect(violations(todoInvariants, appState({ todo: state }))).toEqual({
+      'todo.list-references': ['todo 1 belongs to missing list 4'],
+      'todo.tags-normalized': ['todo 2 has invalid tags [Casa, casa, ]'],
+    });
+  });
+});
@@ -0,0 +1,65 @@
+// COMPONENT TYPE: Store - Meta-Reducer
+// SECTION: State Management - Invariants
+//
+// ROLE:
+// - Run every registered invariant after each action
+// - Report a violation once, with the action that introduced it and the resulting state
+// - Report again only if the problems change or after the invariant holds again
+//
+// PATTERNS USED:
+// - MetaReducer (higher-order reducer wrapping the root reducer)
+// - Factory function returning a configured meta-reducer
+// - Closure state to remember which invariants are currently failing
+//
+// NOTES FOR CONTRIBUTORS:
+// - Dev mode only (see app.meta-reducers.ts): checks cost a full pass over the slices
+// - Register it OUTERMOST, so it checks the state every other meta-reducer produced
+// - It never changes the state and never throws: a failing check is reported as a violation
+
+import { ActionReducer, MetaReducer } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { InvariantReporter, StoreInvariant } from './store-invariant';
+
+export interface InvariantsConfig {
+  invariants: StoreInvariant[];
+  report: InvariantReporter;
+}
+
+/**
+ * Create a meta-reducer that checks the state after every action
+ *
+ * @param config - Invariants to check and where to report violations
+ * @returns MetaReducer<AppState> - Meta-reducer to register with provideStore
+ */
+export function createInvariantsMetaReducer(config: InvariantsConfig): MetaReducer<AppState> {
+  // Messages last reported per invariant, so an ongoing violation is not reported on every action
+  const failing = new Map<string, string>();
+
+  const run = (invariant: StoreInvariant, state: AppState): string[] => {
+    try {
+      return invariant.check(state);
+    } catch (err) {
+      return [`The check threw: ${err instanceof Error ? err.message : String(err)}`];
+    }
+  };
+
+  return (reducer: ActionReducer<AppState>): ActionReducer<AppState> =>
+    (state, action) => {
+      const next = reducer(state, action);
+
+      for (const invariant of config.invariants) {
+        const messages = run(invariant, next);
+        if (!messages.length) {
+          failing.delete(invariant.name);
+          continue;
+        }
+        const key = messages.join('\n');
+        if (failing.get(invariant.name) !== key) {
+          failing.set(invariant.name, key);
+          config.report({ invariant: invariant.name, messages, action, state: next });
+        }
+      }
+
+      return next;
+    };
+}
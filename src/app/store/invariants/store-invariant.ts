@@ -0,0 +1,49 @@
+// COMPONENT TYPE: Utility
+// SECTION: State Management - Invariants
+//
+// ROLE:
+// - Define the contract of a store invariant (a rule every reachable state must respect)
+// - Describe a reported violation (invariant, messages, offending action and state)
+// - Provide the default console reporter
+//
+// PATTERNS USED:
+// - Plain objects with a pure check function, grouped per feature (e.g. counter.invariants.ts)
+// - Strategy pattern for reporting (console by default, anything else in tests)
+//
+// NOTES FOR CONTRIBUTORS:
+// - A check returns the list of problems found, an empty list means the state is valid
+// - Checks receive the whole AppState: lazy slices may be undefined, skip them then
+// - Checks run after EVERY action in dev mode, keep them linear in the slice size
+
+import { Action } from '@ngrx/store';
+import { AppState } from '../app.state';
+
+export interface StoreInvariant {
+  name: string; // Short unique id, e.g. 'counter.history-ends-with-count'
+  check: (state: AppState) => string[];
+}
+
+export interface InvariantViolation {
+  invariant: string;
+  messages: string[];
+  action: Action; // First action after which the invariant stopped holding
+  state: AppState; // State produced by that action
+}
+
+export type InvariantReporter = (violation: InvariantViolation) => void;
+
+/**
+ * Default reporter: one collapsible console group per violation
+ */
+export const consoleInvariantReporter: InvariantReporter = ({
+  invariant,
+  messages,
+  action,
+  state,
+}) => {
+  console.groupCollapsed(`⚠️ Invariant violated: ${invariant} (after ${action.type})`);
+  messages.forEach((message) => console.error(message));
+  console.log('Action:', action);
+  console.log('State:', state);
+  console.groupEnd();
+};
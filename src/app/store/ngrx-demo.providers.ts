@@ -0,0 +1,49 @@
+// COMPONENT TYPE: Store - Providers
+// SECTION: State Management - Feature Registration
+//
+// ROLE:
+// - Register the counter, todo, actions log and recorder slices when the NgRx route is loaded
+// - Register the effects that only make sense for those slices
+//
+// PATTERNS USED:
+// - Feature store: provideState() adds a slice to the running store on demand
+// - Route-level providers (Route.providers) as the registration point
+// - makeEnvironmentProviders to ship the whole feature as one provider function
+//
+// NOTES FOR CONTRIBUTORS:
+// - Used by the lazy routes that need these slices (ngrx-example.routes.ts,
+//   signal-store.routes.ts), NEVER in app.config.ts
+// - Registering from several routes is safe: existing slices keep their state and the effects
+//   implement OnIdentifyEffects, so only one instance of each class runs
+// - Root meta-reducers (persistence, time travel, log, undo/redo) also wrap these slices
+// - Persisted values are merged in when a slice is registered, see persistence.meta-reducer.ts
+// - Slices stay registered after leaving the route: coming back keeps the same state
+
+import { EnvironmentProviders, makeEnvironmentProviders } from '@angular/core';
+import { provideState } from '@ngrx/store';
+import { provideEffects } from '@ngrx/effects';
+import { COUNTER_FEATURE_KEY } from './counter/counter.state';
+import { counterReducer } from './counter/counter.reducer';
+import { TODO_FEATURE_KEY } from './todo/todo.state';
+import { todoReducer } from './todo/todo.reducer';
+import { TodoEffects } from './todo/todo.effects';
+import { TodoRouterEffects } from './todo/todo-router.effects';
+import { ACTIONS_LOG_FEATURE_KEY } from './actions-log/actions-log.state';
+import { actionsLogReducer } from './actions-log/actions-log.reducer';
+import { RECORDER_FEATURE_KEY } from './recorder/recorder.state';
+import { recorderReducer } from './recorder/recorder.reducer';
+
+/**
+ * Feature slices and effects of the NgRx demos
+ *
+ * @returns EnvironmentProviders - Providers to add to the route's providers array
+ */
+export function provideNgrxDemoStore(): EnvironmentProviders {
+  return makeEnvironmentProviders([
+    provideState(COUNTER_FEATURE_KEY, counterReducer),
+    provideState(TODO_FEATURE_KEY, todoReducer),
+    provideState(ACTIONS_LOG_FEATURE_KEY, actionsLogReducer),
+    provideState(RECORDER_FEATURE_KEY, recorderReducer),
+    provideEffects(TodoEffects, TodoRouterEffects),
+  ]);
+}
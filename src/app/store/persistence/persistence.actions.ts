@@ -0,0 +1,20 @@
+// COMPONENT TYPE: Store - Actions
+// SECTION: State Management - Persistence
+//
+// ROLE:
+// - Carry the persisted (already migrated) slices into the store at boot
+// - Signal that rehydration is done, so saving can start
+//
+// PATTERNS USED:
+// - Action with typed payload handled by a meta-reducer
+//
+// NOTES FOR CONTRIBUTORS:
+// - Dispatched once by providePersistenceRehydration, even when nothing was stored
+// - The payload is keyed by feature key and may be empty
+
+import { createAction, props } from '@ngrx/store';
+
+export const rehydrateState = createAction(
+  '[Persistence] Rehydrate State',
+  props<{ state: Record<string, unknown> }>()
+);
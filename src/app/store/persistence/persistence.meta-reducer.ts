@@ -0,0 +1,167 @@
+// COMPONENT TYPE: Store - Meta-Reducer
+// SECTION: State Management - Persistence
+//
+// ROLE:
+// - Merge persisted slices into the state when rehydrateState is dispatched
+// - Keep persisted (or imported) slices of lazy features aside until their reducer is registered
+// - Save the configured slices to storage whenever they change
+// - Strip transient fields (loading flags, errors) before saving
+//
+// PATTERNS USED:
+// - MetaReducer (higher-order reducer wrapping the root reducer)
+// - Factory function returning a configured meta-reducer
+// - Debounced fire-and-forget writes, so bursts of actions cause a single save
+//
+// NOTES FOR CONTRIBUTORS:
+// - Nothing is saved before rehydration, otherwise the initial state would overwrite storage
+// - Saving is the only side effect allowed here; keep it fire-and-forget and never throw
+// - Configuration lives in app.meta-reducers.ts (persistenceConfig)
+// - Pending slices (feature not loaded yet) are saved back untouched, so visiting another
+//   route never erases them from storage
+
+import { Action, ActionReducer, MetaReducer } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { AppStateKey } from '../app.slices';
+import { PersistenceStorage } from './persistence.storage';
+import { PersistenceMigration, PersistedState } from './persistence.migrations';
+import * as PersistenceActions from './persistence.actions';
+import * as SnapshotActions from '../snapshot/snapshot.actions';
+
+// PATTERN: Persisted slice definition
+// PURPOSE:
+// - Declare which AppState keys survive a reload
+// - List transient fields that must always start from their initial value
+export interface PersistedSliceConfig {
+  key: AppStateKey; // Feature key in AppState
+  exclude?: string[]; // Fields of the slice never written to storage
+}
+
+export interface PersistenceConfig {
+  storageKey: string; // Key (localStorage) or record id (IndexedDB)
+  storage: PersistenceStorage;
+  version: number; // Current schema version, see persistence.migrations.ts
+  migrations: Record<number, PersistenceMigration>;
+  slices: PersistedSliceConfig[];
+  debounceMs: number;
+}
+
+type SliceRecord = Record<string, unknown>;
+
+const isRecord = (value: unknown): value is SliceRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+// Build the persisted payload: configured slices without their excluded fields,
+// falling back to the pending value for slices whose feature is not registered yet
+function serializeSlices(
+  state: AppState,
+  slices: PersistedSliceConfig[],
+  pending: PersistedState
+): PersistedState {
+  return Object.fromEntries(
+    slices
+      .filter(({ key }) => isRecord(state[key]) || key in pending)
+      .map(({ key, exclude = [] }) => {
+        const current = state[key];
+        if (!isRecord(current)) {
+          return [key, pending[key]];
+        }
+        const slice: SliceRecord = { ...current };
+        exclude.forEach((field) => delete slice[field]);
+        return [key, slice];
+      })
+  );
+}
+
+// Shallow-merge persisted fields over the registered slices (unknown keys are ignored)
+// and return the persisted slices that have no registered feature yet
+function mergeSlices(
+  state: AppState,
+  persisted: PersistedState,
+  slices: PersistedSliceConfig[]
+): { merged: Partial<AppState>; pending: PersistedState } {
+  const merged: SliceRecord = {};
+  const pending: PersistedState = {};
+  for (const { key } of slices) {
+    const saved = persisted[key];
+    if (!isRecord(saved)) {
+      continue;
+    }
+    const current = state[key];
+    if (isRecord(current)) {
+      merged[key] = { ...current, ...saved };
+    } else {
+      pending[key] = saved;
+    }
+  }
+  // Persisted slices were migrated to the current schema: they fit their AppState key
+  return { merged: merged as Partial<AppState>, pending };
+}
+
+/**
+ * Create a persistence meta-reducer for the configured AppState slices
+ *
+ * @param config - Storage, schema version, migrations and persisted slices
+ * @returns MetaReducer<AppState> - Meta-reducer to register with provideStore
+ */
+export function createPersistenceMetaReducer(config: PersistenceConfig): MetaReducer<AppState> {
+  let hydrated = false;
+  // Persisted slices waiting for their feature to be registered with provideState()
+  let pending: PersistedState = {};
+  let saveTimer: ReturnType<typeof setTimeout> | undefined;
+
+  const scheduleSave = (state: AppState) => {
+    clearTimeout(saveTimer);
+    saveTimer = setTimeout(() => {
+      config.storage.save(config.storageKey, {
+        version: config.version,
+        savedAt: Date.now(),
+        state: serializeSlices(state, config.slices, pending),
+      });
+    }, config.debounceMs);
+  };
+
+  const isRehydrate = (
+    action: Action
+  ): action is ReturnType<typeof PersistenceActions.rehydrateState> =>
+    action.type === PersistenceActions.rehydrateState.type;
+
+  const isImport = (
+    action: Action
+  ): action is ReturnType<typeof SnapshotActions.importSnapshot> =>
+    action.type === SnapshotActions.importSnapshot.type;
+
+  return (reducer: ActionReducer<AppState>): ActionReducer<AppState> =>
+    (state, action) => {
+      if (isRehydrate(action) && state) {
+        hydrated = true;
+        const restored = mergeSlices(state, action.state, config.slices);
+        pending = restored.pending;
+        return reducer({ ...state, ...restored.merged }, action);
+      }
+
+      // Imported slices of features that are not registered yet wait like persisted ones,
+      // registered slices are replaced by the snapshot meta-reducer
+      const imported = isImport(action) && !!state;
+      if (imported) {
+        const slices = action.state as PersistedState;
+        pending = { ...pending, ...mergeSlices(state, slices, config.slices).pending };
+      }
+
+      const reduced = reducer(state, action);
+      let next = reduced;
+
+      // A lazy feature was just registered: restore its persisted values
+      if (config.slices.some(({ key }) => key in pending && isRecord(reduced[key]))) {
+        const restored = mergeSlices(reduced, pending, config.slices);
+        next = { ...reduced, ...restored.merged };
+        pending = restored.pending;
+      }
+
+      const changed = config.slices.some(({ key }) => next[key] !== state?.[key]);
+      if (hydrated && (changed || imported)) {
+        scheduleSave(next);
+      }
+
+      return next;
+    };
+}
@@ -0,0 +1,170 @@
+import {
+  PERSISTENCE_SCHEMA_VERSION,
+  PersistedState,
+  migratePersistedState,
+  persistenceMigrations,
+} from './persistence.migrations';
+
+// Run the real migrations from a given version up to the current one
+function migrate(version: number, state: PersistedState) {
+  return migratePersistedState(
+    { version, savedAt: 0, state },
+    PERSISTENCE_SCHEMA_VERSION,
+    persistenceMigrations
+  );
+}
+
+const spesa = { id: 1, text: 'Spesa', completed: false };
+const palestra = { id: 2, text: 'Palestra', completed: true };
+
+// Fields added to every todo by v5
+const v5Defaults = { priority: 'medium', dueDate: null, tags: [] };
+
+// Same data as saved by each release
+const v1: PersistedState = {
+  todo: {
+    todos: [spesa, palestra],
+    filter: 'active',
+  },
+  actionsLog: { logs: ['[Counter] Increment', '[Todo] Add'] },
+  counter: { count: 3, history: [] },
+};
+
+const v2: PersistedState = {
+  todo: {
+    ids: [1, 2],
+    entities: { 1: spesa, 2: palestra },
+    sort: 'created',
+    filter: 'active',
+  },
+  actionsLog: v1['actionsLog'],
+  counter: v1['counter'],
+};
+
+const v3: PersistedState = {
+  ...v2,
+  actionsLog: {
+    entries: [
+      { id: 2, type: '[Counter] Increment', payload: null, timestamp: 0, diff: [] },
+      { id: 1, type: '[Todo] Add', payload: null, timestamp: 0, diff: [] },
+    ],
+  },
+};
+
+const v4: PersistedState = {
+  ...v3,
+  counter: { step: 1, min: null, max: null, count: 3, history: [0] },
+};
+
+const v5: PersistedState = {
+  ...v4,
+  todo: {
+    ids: [1, 2],
+    entities: {
+      1: { ...v5Defaults, order: 1, ...spesa },
+      2: { ...v5Defaults, order: 2, ...palestra },
+    },
+    sort: 'created',
+    filter: 'active',
+    tagFilter: null,
+  },
+};
+
+const v6: PersistedState = {
+  ...v5,
+  todo: {
+    ids: [1, 2],
+    entities: {
+      1: { listId: 1, ...v5Defaults, order: 1, ...spesa },
+      2: { listId: 1, ...v5Defaults, order: 2, ...palestra },
+    },
+    sort: 'created',
+    tagFilter: null,
+    lists: {
+      ids: [1],
+      entities: { 1: { id: 1, name: 'La mia lista', filter: 'active' } },
+      activeId: 1,
+      nextId: 2,
+    },
+  },
+};
+
+describe('migratePersistedState', () => {
+  beforeEach(() => {
+    vi.spyOn(console, 'warn').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('should target the last migration', () => {
+    expect(PERSISTENCE_SCHEMA_VERSION).toBe(6);
+  });
+
+  it.each([
+    [1, v1],
+    [2, v2],
+    [3, v3],
+    [4, v4],
+    [5, v5],
+  ])('should upgrade state saved with v%i to the current shape', (version, state) => {
+    expect(migrate(version, state)).toEqual(v6);
+  });
+
+  it('should leave current state untouched', () => {
+    expect(migrate(6, v6)).toBe(v6);
+  });
+
+  it('should pass through slices that were never persisted', () => {
+    expect(migrate(1, {})).toEqual({});
+    expect(migrate(1, { counter: { count: 1 } })).toEqual({
+      counter: { step: 1, min: null, max: null, count: 1, history: [0] },
+    });
+  });
+
+  it('should keep a non-empty counter history and custom bounds', () => {
+    const counter = { count: 2, history: [0, 1, 2], step: 2, min: 0, max: 10 };
+    expect(migrate(3, { counter })).toEqual({ counter });
+  });
+
+  it('should put todos without a filter in an "all" list', () => {
+    const migrated = migrate(5, { todo: { ids: [], entities: {} } });
+    expect(migrated?.['todo']).toEqual({
+      ids: [],
+      entities: {},
+      lists: {
+        ids: [1],
+        entities: { 1: { id: 1, name: 'La mia lista', filter: 'all' } },
+        activeId: 1,
+        nextId: 2,
+      },
+    });
+  });
+
+  it('should discard state saved by a newer release', () => {
+    expect(migrate(PERSISTENCE_SCHEMA_VERSION + 1, v6)).toBeNull();
+  });
+
+  it('should discard state without a valid version', () => {
+    expect(migrate(Number.NaN, v6)).toBeNull();
+    expect(migrate(1.5, v6)).toBeNull();
+  });
+
+  it('should discard state when a migration throws', () => {
+    const failing = {
+      ...persistenceMigrations,
+      3: () => {
+        throw new Error('broken');
+      },
+    };
+    const envelope = { version: 1, savedAt: 0, state: v1 };
+    expect(migratePersistedState(envelope, PERSISTENCE_SCHEMA_VERSION, failing)).toBeNull();
+  });
+
+  it('should skip versions without a migration', () => {
+    const envelope = { version: 1, savedAt: 0, state: { value: 1 } };
+    const migrations = { 3: (state: PersistedState) => ({ ...state, value: 3 }) };
+    expect(migratePersistedState(envelope, 4, migrations)).toEqual({ value: 3 });
+  });
+});
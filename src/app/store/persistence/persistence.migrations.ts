@@ -0,0 +1,142 @@
+// COMPONENT TYPE: Store - Migrations
+// SECTION: State Management - Persistence
+//
+// ROLE:
+// - Upgrade state saved by older releases to the current schema version
+// - Keep the history of persisted shape changes in one place
+// - Discard data that cannot be migrated instead of crashing at boot
+//
+// PATTERNS USED:
+// - Sequential migrations keyed by target version (v1 → v2 → ... → current)
+// - Pure functions on plain JSON (no store, no Angular)
+//
+// NOTES FOR CONTRIBUTORS:
+// - When you change the shape of a persisted slice:
+//   1. bump PERSISTENCE_SCHEMA_VERSION
+//   2. add a migration keyed by the new version that converts the previous shape
+// - Never edit a released migration, add a new one instead
+// - Migrations receive untrusted data: check shapes before reading fields
+
+import { PersistedEnvelope } from './persistence.storage';
+
+export type PersistedState = Record<string, unknown>;
+export type PersistenceMigration = (state: PersistedState) => PersistedState;
+
+export const PERSISTENCE_SCHEMA_VERSION = 6;
+
+export const persistenceMigrations: Record<number, PersistenceMigration> = {
+  // v2: TodoState moved from `todos: Todo[]` to an entity collection (ids + entities) with sort
+  2: (state) => {
+    const todo = state['todo'] as { todos?: { id: number }[] } | undefined;
+    if (!todo || !Array.isArray(todo.todos)) {
+      return state;
+    }
+    const { todos, ...rest } = todo;
+    return {
+      ...state,
+      todo: {
+        ...rest,
+        ids: todos.map((item) => item.id),
+        entities: Object.fromEntries(todos.map((item) => [item.id, item])),
+        sort: 'created',
+      },
+    };
+  },
+
+  // v3: ActionsLogState moved from `logs: string[]` to structured `entries`
+  3: (state) => {
+    const logs = (state['actionsLog'] as { logs?: unknown } | undefined)?.logs;
+    if (!Array.isArray(logs)) {
+      return state;
+    }
+    // Old entries carried only a label: keep it as the type, without payload or diff
+    const entries = logs.map((log, index) => ({
+      id: logs.length - index,
+      type: String(log),
+      payload: null,
+      timestamp: 0,
+      diff: [],
+    }));
+    return { ...state, actionsLog: { entries } };
+  },
+
+  // v4: CounterState gained `step` and optional `min`/`max` bounds
+  4: (state) => {
+    const counter = state['counter'] as { history?: unknown } | undefined;
+    if (!counter) {
+      return state;
+    }
+    // History statistics need at least one value
+    const history =
+      Array.isArray(counter.history) && counter.history.length ? counter.history : [0];
+    return { ...state, counter: { step: 1, min: null, max: null, ...counter, history } };
+  },
+
+  // v5: Todo gained priority, dueDate, tags and order; TodoState gained tagFilter
+  5: (state) => {
+    const todo = state['todo'] as { entities?: Record<string, { id: number }> } | undefined;
+    if (!todo) {
+      return state;
+    }
+    const entities = Object.fromEntries(
+      Object.entries(todo.entities ?? {}).map(([id, item]) => [
+        id,
+        { priority: 'medium', dueDate: null, tags: [], order: item.id, ...item },
+      ])
+    );
+    return { ...state, todo: { tagFilter: null, ...todo, entities } };
+  },
+
+  // v6: the global `filter` moved into named lists; every todo joins the default list (id 1)
+  6: (state) => {
+    const todo = state['todo'] as
+      | { filter?: unknown; entities?: Record<string, object> }
+      | undefined;
+    if (!todo) {
+      return state;
+    }
+    const { filter, ...rest } = todo;
+    const entities = Object.fromEntries(
+      Object.entries(rest.entities ?? {}).map(([id, item]) => [id, { listId: 1, ...item }])
+    );
+    const lists = {
+      ids: [1],
+      entities: { 1: { id: 1, name: 'La mia lista', filter: filter ?? 'all' } },
+      activeId: 1,
+      nextId: 2,
+    };
+    return { ...state, todo: { ...rest, entities, lists } };
+  },
+};
+
+/**
+ * Bring a persisted envelope up to the target version
+ *
+ * @param envelope - Envelope read from storage
+ * @param targetVersion - Current schema version
+ * @param migrations - Migrations keyed by the version they upgrade to
+ * @returns PersistedState | null - Migrated slices, or null when the data must be discarded
+ */
+export function migratePersistedState(
+  envelope: PersistedEnvelope,
+  targetVersion: number,
+  migrations: Record<number, PersistenceMigration>
+): PersistedState | null {
+  // Data written by a newer release cannot be safely downgraded
+  if (!Number.isInteger(envelope.version) || envelope.version > targetVersion) {
+    console.warn(`Persistence: discarding state with unsupported version ${envelope.version}`);
+    return null;
+  }
+
+  try {
+    let state = envelope.state;
+    for (let version = envelope.version + 1; version <= targetVersion; version++) {
+      const migrate = migrations[version];
+      state = migrate ? migrate(state) : state;
+    }
+    return state;
+  } catch (err) {
+    console.warn('Persistence: migration failed, discarding persisted state', err);
+    return null;
+  }
+}
@@ -0,0 +1,40 @@
+// COMPONENT TYPE: Config
+// SECTION: State Management - Persistence
+//
+// ROLE:
+// - Load the persisted envelope before the app is rendered
+// - Run migrations and dispatch rehydrateState with the result
+//
+// PATTERNS USED:
+// - provideAppInitializer: bootstrap waits for the (possibly async) storage read
+// - Provider function mirroring provideStore / provideEffects naming
+//
+// NOTES FOR CONTRIBUTORS:
+// - Always dispatches rehydrateState (with {} when nothing usable is stored)
+//   because the meta-reducer only starts saving after it
+// - Use the same PersistenceConfig instance passed to createPersistenceMetaReducer
+
+import { EnvironmentProviders, inject, provideAppInitializer } from '@angular/core';
+import { Store } from '@ngrx/store';
+import { PersistenceConfig } from './persistence.meta-reducer';
+import { migratePersistedState } from './persistence.migrations';
+import * as PersistenceActions from './persistence.actions';
+
+/**
+ * Rehydrate persisted store slices at application boot
+ *
+ * @param config - Persistence configuration shared with the meta-reducer
+ * @returns EnvironmentProviders - Providers to add to the application config
+ */
+export function providePersistenceRehydration(config: PersistenceConfig): EnvironmentProviders {
+  return provideAppInitializer(async () => {
+    // inject() must run before the first await
+    const store = inject(Store);
+    const envelope = await config.storage.load(config.storageKey);
+    const state = envelope
+      ? migratePersistedState(envelope, config.version, config.migrations)
+      : null;
+
+    store.dispatch(PersistenceActions.rehydrateState({ state: state ?? {} }));
+  });
+}
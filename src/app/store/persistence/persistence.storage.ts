@@ -0,0 +1,127 @@
+// COMPONENT TYPE: Utility
+// SECTION: State Management - Persistence
+//
+// ROLE:
+// - Define the storage contract used by the persistence meta-reducer
+// - Provide localStorage and IndexedDB implementations
+// - Define the versioned envelope written to storage
+//
+// PATTERNS USED:
+// - Strategy pattern (interchangeable storage backends)
+// - Promise-based API so sync and async storages look the same
+//
+// NOTES FOR CONTRIBUTORS:
+// - Storage errors are swallowed and logged: persistence must never break the app
+// - localStorage is limited to ~5MB, switch to indexedDbStorage for large states
+// - Keep the envelope shape stable, bump `version` and add a migration instead
+
+// PATTERN: Versioned envelope
+// PURPOSE:
+// - Store the schema version next to the data
+// - Let migrations upgrade data saved by older releases
+export interface PersistedEnvelope {
+  version: number; // Schema version the state was saved with
+  savedAt: number; // Timestamp (ms) of the last save
+  state: Record<string, unknown>; // Persisted slices keyed by feature key
+}
+
+export interface PersistenceStorage {
+  load(key: string): Promise<PersistedEnvelope | null>;
+  save(key: string, envelope: PersistedEnvelope): Promise<void>;
+  remove(key: string): Promise<void>;
+}
+
+/**
+ * Synchronous browser storage wrapped in promises
+ */
+export const localStorageStorage: PersistenceStorage = {
+  async load(key) {
+    try {
+      const raw = localStorage.getItem(key);
+      return raw ? (JSON.parse(raw) as PersistedEnvelope) : null;
+    } catch (err) {
+      console.warn('Persistence: could not read localStorage', err);
+      return null;
+    }
+  },
+  async save(key, envelope) {
+    try {
+      localStorage.setItem(key, JSON.stringify(envelope));
+    } catch (err) {
+      console.warn('Persistence: could not write localStorage', err);
+    }
+  },
+  async remove(key) {
+    try {
+      localStorage.removeItem(key);
+    } catch (err) {
+      console.warn('Persistence: could not clear localStorage', err);
+    }
+  },
+};
+
+const IDB_STORE_NAME = 'state';
+
+// Open (and create on first use) the database holding the state object store
+function openDatabase(dbName: string): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    const request = indexedDB.open(dbName, 1);
+    request.onupgradeneeded = () => request.result.createObjectStore(IDB_STORE_NAME);
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+// Run a single request inside a transaction and resolve with its result
+function runRequest<T>(
+  dbName: string,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  return openDatabase(dbName).then(
+    (db) =>
+      new Promise<T>((resolve, reject) => {
+        const request = operation(db.transaction(IDB_STORE_NAME, mode).objectStore(IDB_STORE_NAME));
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+      }).finally(() => db.close())
+  );
+}
+
+/**
+ * Asynchronous IndexedDB storage (structured clone, no size limit in practice)
+ *
+ * @param dbName - Name of the IndexedDB database
+ * @returns PersistenceStorage - Storage backed by a single object store
+ */
+export function indexedDbStorage(dbName = 'angular-showcase'): PersistenceStorage {
+  return {
+    async load(key) {
+      try {
+        const envelope = await runRequest<PersistedEnvelope | undefined>(
+          dbName,
+          'readonly',
+          (store) => store.get(key)
+        );
+        return envelope ?? null;
+      } catch (err) {
+        console.warn('Persistence: could not read IndexedDB', err);
+        return null;
+      }
+    },
+    async save(key, envelope) {
+      try {
+        await runRequest(dbName, 'readwrite', (store) => store.put(envelope, key));
+      } catch (err) {
+        console.warn('Persistence: could not write IndexedDB', err);
+      }
+    },
+    async remove(key) {
+      try {
+        await runRequest(dbName, 'readwrite', (store) => store.delete(key));
+      } catch (err) {
+        console.warn('Persistence: could not clear IndexedDB', err);
+      }
+    },
+  };
+}
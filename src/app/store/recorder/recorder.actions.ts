@@ -0,0 +1,36 @@
+// COMPONENT TYPE: Store - Actions
+// SECTION: State Management - Action Recorder
+//
+// ROLE:
+// - Start, save and cancel a recording
+// - Delete saved scripts
+//
+// PATTERNS USED:
+// - NgRx createAction with props<{ ... }>()
+//
+// NOTES FOR CONTRIBUTORS:
+// - The caller passes the start time and initial state: reducers stay pure
+// - '[Recorder]' actions are never recorded, logged or tracked by undo/redo
+// - Replaying a script dispatches the recorded '[Counter]' / '[Todo]' actions themselves,
+//   there is no replay action (see ngrx-action-recorder/action-script-player.ts)
+
+import { createAction, props } from '@ngrx/store';
+import { SnapshotSlices } from '../snapshot/snapshot.state';
+
+export const startRecording = createAction(
+  '[Recorder] Start Recording',
+  props<{ startedAt: number; initialState: SnapshotSlices }>()
+);
+
+// Save the recording in progress as a named script (empty recordings are discarded)
+export const saveRecording = createAction(
+  '[Recorder] Save Recording',
+  props<{ name: string }>()
+);
+
+export const cancelRecording = createAction('[Recorder] Cancel Recording');
+
+export const deleteScript = createAction(
+  '[Recorder] Delete Script',
+  props<{ id: number }>()
+);
@@ -0,0 +1,101 @@
+import { Action, ActionReducer, combineReducers } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { appReducers } from '../app.reducers';
+import * as CounterActions from '../counter/counter.actions';
+import { counterReducer } from '../counter/counter.reducer';
+import { initialCounterState } from '../counter/counter.state';
+import * as TodoActions from '../todo/todo.actions';
+import * as RecorderActions from './recorder.actions';
+import { createRecorderMetaReducer } from './recorder.meta-reducer';
+import { recorderReducer } from './recorder.reducer';
+
+// Root slices plus the counter and the recorder, as after visiting the NgRx route
+const rootSlices = combineReducers(appReducers);
+const rootReducer: ActionReducer<AppState> = (state, action) => ({
+  ...rootSlices(state, action),
+  counter: counterReducer(state?.counter, action),
+  recorder: recorderReducer(state?.recorder, action),
+});
+
+const init: Action = { type: '@ngrx/store/init' };
+const start = RecorderActions.startRecording({
+  startedAt: 1000,
+  initialState: { counter: initialCounterState },
+});
+
+describe('createRecorderMetaReducer', () => {
+  let reducer: ActionReducer<AppState>;
+  let now: ReturnType<typeof vi.spyOn>;
+
+  // Apply actions in order, starting from the initial state
+  const run = (...actions: Action[]) => actions.reduce(reducer, reducer(undefined, init));
+
+  beforeEach(() => {
+    now = vi.spyOn(Date, 'now').mockReturnValue(1250);
+    reducer = createRecorderMetaReducer({ include: ['[Counter]', '[Todo]'] })(rootReducer);
+  });
+
+  afterEach(() => now.mockRestore());
+
+  it('should record matching actions with their offset from the start', () => {
+    const state = run(start, CounterActions.incrementBy({ amount: 5 }));
+    expect(state.counter?.count).toBe(5);
+    expect(state.recorder?.session?.steps).toEqual([
+      { offsetMs: 250, action: { type: '[Counter] Increment By', amount: 5 } },
+    ]);
+  });
+
+  it('should record nothing while no session is open', () => {
+    const state = run(CounterActions.increment());
+    expect(state.counter?.count).toBe(1);
+    expect(state.recorder?.session).toBeNull();
+  });
+
+  it('should skip actions outside the included prefixes', () => {
+    const state = run(start, CounterActions.increment(), { type: '[Users] Load' });
+    expect(state.recorder?.session?.steps.map((step) => step.action.type)).toEqual([
+      '[Counter] Increment',
+    ]);
+  });
+
+  it('should not record anything before the recorder slice is registered', () => {
+    const withoutRecorder = createRecorderMetaReducer({ include: ['[Counter]'] })(
+      combineReducers(appReducers)
+    );
+    expect(withoutRecorder(undefined, CounterActions.increment()).recorder).toBeUndefined();
+  });
+
+  it('should remember the ids of todos created during the recording', () => {
+    const created = TodoActions.addTodoSuccess({
+      todo: {
+        id: 42,
+        text: 'Nuovo',
+        completed: false,
+        priority: 'medium',
+        dueDate: null,
+        tags: [],
+        order: 0,
+        listId: 1,
+      },
+    });
+    expect(run(created).recorder?.session).toBeNull();
+    expect(run(start, created).recorder?.session?.createdTodoIds).toEqual([42]);
+  });
+
+  it('should save a recording as a script and drop empty ones', () => {
+    const saved = run(
+      start,
+      CounterActions.increment(),
+      RecorderActions.saveRecording({ name: 'Demo' })
+    );
+    expect(saved.recorder?.session).toBeNull();
+    expect(saved.recorder?.nextId).toBe(2);
+    expect(saved.recorder?.entities[1]).toEqual(
+      expect.objectContaining({ id: 1, name: 'Demo', recordedAt: 1000 })
+    );
+
+    const empty = run(start, RecorderActions.saveRecording({ name: 'Vuoto' }));
+    expect(empty.recorder?.ids).toEqual([]);
+    expect(empty.recorder?.session).toBeNull();
+  });
+});
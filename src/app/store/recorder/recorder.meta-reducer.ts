@@ -0,0 +1,54 @@
+// COMPONENT TYPE: Store - Meta-Reducer
+// SECTION: State Management - Action Recorder
+//
+// ROLE:
+// - Append every matching action to the recording in progress, with its offset in ms
+//
+// PATTERNS USED:
+// - MetaReducer (higher-order reducer wrapping the root reducer)
+// - Factory function returning a configured meta-reducer
+//
+// NOTES FOR CONTRIBUTORS:
+// - Only user intents are recorded ('[Counter]', '[Todo]', '[Undo Redo]'): API results come
+//   back by themselves when the replayed requests run their effects again
+// - Nothing happens until startRecording opened a session in state.recorder
+// - Date.now() makes this meta-reducer impure: acceptable for a dev tool only
+
+import { ActionReducer, MetaReducer } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { RecordedAction } from './recorder.state';
+
+export interface RecorderConfig {
+  include: string[]; // Type prefixes recorded while a session is open
+}
+
+/**
+ * Create a meta-reducer that records matching actions into state.recorder.session
+ *
+ * @param config - Recorded type prefixes
+ * @returns MetaReducer<AppState> - Meta-reducer to register with provideStore
+ */
+export function createRecorderMetaReducer(config: RecorderConfig): MetaReducer<AppState> {
+  const shouldRecord = (type: string) => config.include.some((prefix) => type.startsWith(prefix));
+
+  return (reducer: ActionReducer<AppState>): ActionReducer<AppState> =>
+    (state, action) => {
+      const next = reducer(state, action);
+      const recorder = next.recorder;
+      const session = recorder?.session;
+      if (!recorder || !session || !shouldRecord(action.type)) {
+        return next;
+      }
+      const step = {
+        offsetMs: Date.now() - session.recordedAt,
+        action: { ...action } as RecordedAction,
+      };
+      return {
+        ...next,
+        recorder: {
+          ...recorder,
+          session: { ...session, steps: [...session.steps, step] },
+        },
+      };
+    };
+}
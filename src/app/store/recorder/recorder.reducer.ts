@@ -0,0 +1,54 @@
+// COMPONENT TYPE: Store - Reducer
+// SECTION: State Management - Action Recorder
+//
+// ROLE:
+// - Open, save and cancel the recording session
+// - Keep the ids of todos created while recording
+// - Delete saved scripts
+//
+// PATTERNS USED:
+// - EntityAdapter methods (addOne, removeOne)
+// - Pattern matching with on() handlers
+//
+// NOTES FOR CONTRIBUTORS:
+// - Recorded steps are appended by recorderMetaReducer, do not add handlers for
+//   '[Counter]' / '[Todo]' actions here
+// - addTodoSuccess is the exception: it is an API result, never replayed, only remembered
+
+import { createReducer, on } from '@ngrx/store';
+import { RecorderState, actionScriptAdapter, initialRecorderState } from './recorder.state';
+import * as RecorderActions from './recorder.actions';
+import * as TodoActions from '../todo/todo.actions';
+
+export const recorderReducer = createReducer(
+  initialRecorderState,
+  on(RecorderActions.startRecording, (state, { startedAt, initialState }): RecorderState => ({
+    ...state,
+    session: { recordedAt: startedAt, initialState, steps: [], createdTodoIds: [] },
+  })),
+  // Empty recordings are dropped instead of saved
+  on(RecorderActions.saveRecording, (state, { name }) => {
+    if (!state.session?.steps.length) {
+      return { ...state, session: null };
+    }
+    const script = { ...state.session, id: state.nextId, name };
+    return actionScriptAdapter.addOne(script, {
+      ...state,
+      session: null,
+      nextId: state.nextId + 1,
+    });
+  }),
+  on(RecorderActions.cancelRecording, (state): RecorderState => ({ ...state, session: null })),
+  on(RecorderActions.deleteScript, (state, { id }) => actionScriptAdapter.removeOne(id, state)),
+  on(TodoActions.addTodoSuccess, (state, { todo }) =>
+    state.session
+      ? {
+          ...state,
+          session: {
+            ...state.session,
+            createdTodoIds: [...state.session.createdTodoIds, todo.id],
+          },
+        }
+      : state
+  )
+);
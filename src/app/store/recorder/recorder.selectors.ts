@@ -0,0 +1,51 @@
+// COMPONENT TYPE: Store - Selectors
+// SECTION: State Management - Action Recorder
+//
+// ROLE:
+// - Provide access to saved scripts and to the recording in progress
+//
+// PATTERNS USED:
+// - Feature selector for root access
+// - EntityAdapter.getSelectors() for the script collection
+//
+// NOTES FOR CONTRIBUTORS:
+// - Scripts keep insertion order (oldest first)
+
+import { createFeatureSelector, createSelector } from '@ngrx/store';
+import {
+  ActionScript,
+  RECORDER_FEATURE_KEY,
+  RecorderState,
+  actionScriptAdapter,
+} from './recorder.state';
+
+export const selectRecorderState = createFeatureSelector<RecorderState>(RECORDER_FEATURE_KEY);
+
+const { selectAll, selectEntities } = actionScriptAdapter.getSelectors(selectRecorderState);
+
+export const selectAllScripts = selectAll;
+export const selectScriptEntities = selectEntities;
+
+export const selectScriptById = (id: number) =>
+  createSelector(selectScriptEntities, (entities): ActionScript | undefined => entities[id]);
+
+export const selectRecordingSession = createSelector(
+  selectRecorderState,
+  (state) => state.session
+);
+
+export const selectIsRecording = createSelector(
+  selectRecordingSession,
+  (session) => session !== null
+);
+
+export const selectRecordedStepCount = createSelector(
+  selectRecordingSession,
+  (session) => session?.steps.length ?? 0
+);
+
+// Default name offered when saving the recording in progress
+export const selectNextScriptName = createSelector(
+  selectRecorderState,
+  (state) => `Script ${state.nextId}`
+);
@@ -0,0 +1,58 @@
+// COMPONENT TYPE: Store - State
+// SECTION: State Management - Action Recorder
+//
+// ROLE:
+// - Define recorded steps (action + offset from the start of the recording)
+// - Define named action scripts saved for later replay
+// - Track the recording in progress
+//
+// PATTERNS USED:
+// - @ngrx/entity: EntityState<ActionScript> with its own adapter
+// - Serializable actions stored as plain objects ({ type, ...props })
+//
+// NOTES FOR CONTRIBUTORS:
+// - Steps are written by recorderMetaReducer, not by the reducer (timings need Date.now())
+// - Each script keeps the counter and todo state it started from: replay resets to it first
+// - createdTodoIds lists the ids the server gave to todos added while recording, in order,
+//   so replay can map them to the ids the server hands out the second time
+// - Script ids come from nextId: scripts never reach the backend
+
+import { EntityAdapter, EntityState, createEntityAdapter } from '@ngrx/entity';
+import { SnapshotSlices } from '../snapshot/snapshot.state';
+
+// A dispatched action as plain JSON
+export type RecordedAction = { type: string } & Record<string, unknown>;
+
+export interface RecordedStep {
+  offsetMs: number; // Time since the recording started
+  action: RecordedAction;
+}
+
+export interface ActionScript {
+  id: number;
+  name: string;
+  recordedAt: number; // Timestamp (ms) of the start of the recording
+  initialState: SnapshotSlices; // Counter and todo slices when the recording started
+  steps: RecordedStep[];
+  createdTodoIds: number[]; // Ids of '[Todo API] Add Todo Success' results, in order
+}
+
+// Recording in progress: becomes an ActionScript when it is saved
+export type RecordingSession = Omit<ActionScript, 'id' | 'name'>;
+
+// Key of the lazily registered feature slice (provideState in ngrx-demo.providers.ts)
+export const RECORDER_FEATURE_KEY = 'recorder';
+
+export interface RecorderState extends EntityState<ActionScript> {
+  session: RecordingSession | null; // null = not recording
+  nextId: number; // Monotonic id sequence for scripts
+}
+
+export const actionScriptAdapter: EntityAdapter<ActionScript> = createEntityAdapter<ActionScript>({
+  sortComparer: false,
+});
+
+export const initialRecorderState: RecorderState = actionScriptAdapter.getInitialState({
+  session: null,
+  nextId: 1,
+});
@@ -0,0 +1,64 @@
+// COMPONENT TYPE: Utility
+// SECTION: State Management - Action Recorder
+//
+// ROLE:
+// - Find the todo ids a recorded action refers to
+// - Rewrite those ids when the server gave replayed todos different ids
+//
+// PATTERNS USED:
+// - Pure functions keyed by action type
+//
+// NOTES FOR CONTRIBUTORS:
+// - Todo ids come from the backend sequence and are never reused, so a todo added while
+//   recording gets a new id on every replay
+// - List ids are client state restored with the script's initial state: never remap them
+// - Add new todo actions carrying a todo id to TODO_ID_ACTIONS
+
+import * as TodoActions from '../todo/todo.actions';
+import { RecordedAction } from './recorder.state';
+
+// Actions whose `id` prop is a todo id (list actions use `id` for list ids)
+const TODO_ID_ACTIONS = new Set<string>([
+  TodoActions.toggleTodo.type,
+  TodoActions.deleteTodo.type,
+  TodoActions.editTodoText.type,
+  TodoActions.setTodoPriority.type,
+  TodoActions.setTodoDueDate.type,
+  TodoActions.addTodoTag.type,
+  TodoActions.removeTodoTag.type,
+  TodoActions.moveTodoToList.type,
+]);
+
+/**
+ * Todo ids referenced by a recorded action
+ *
+ * @param action - Recorded action
+ * @returns number[] - Referenced todo ids, empty when the action has none
+ */
+export function referencedTodoIds(action: RecordedAction): number[] {
+  if (TODO_ID_ACTIONS.has(action.type)) {
+    return [action['id'] as number];
+  }
+  if (action.type === TodoActions.reorderTodos.type) {
+    return action['ids'] as number[];
+  }
+  return [];
+}
+
+/**
+ * Copy of a recorded action with its todo ids replaced (unknown ids are kept)
+ *
+ * @param action - Recorded action
+ * @param ids - Recorded id → replayed id
+ * @returns RecordedAction - Action ready to dispatch
+ */
+export function remapTodoIds(action: RecordedAction, ids: Map<number, number>): RecordedAction {
+  const remap = (id: number) => ids.get(id) ?? id;
+  if (TODO_ID_ACTIONS.has(action.type)) {
+    return { ...action, id: remap(action['id'] as number) };
+  }
+  if (action.type === TodoActions.reorderTodos.type) {
+    return { ...action, ids: (action['ids'] as number[]).map(remap) };
+  }
+  return action;
+}
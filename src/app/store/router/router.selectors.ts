@@ -0,0 +1,57 @@
+// COMPONENT TYPE: Store - Selectors
+// SECTION: State Management - Router
+//
+// ROLE:
+// - Expose the current URL, path params, query params and route data from the store
+// - Let selectors and effects of other features react to the URL
+//
+// PATTERNS USED:
+// - Feature selector for root access
+// - Selector factories for single param lookup
+//
+// NOTES FOR CONTRIBUTORS:
+// - Every selector tolerates the initial undefined state (before the first navigation)
+// - The 'router' key is written by routerReducer, fed by provideRouterStore() in app.config.ts
+// - Param values are always strings (or undefined): validate them before use
+
+import { createFeatureSelector, createSelector } from '@ngrx/store';
+import { RouterState } from './router.state';
+
+export const selectRouter = createFeatureSelector<RouterState>('router');
+
+export const selectRouterState = createSelector(
+  selectRouter,
+  (router) => router?.state
+);
+
+export const selectCurrentUrl = createSelector(
+  selectRouterState,
+  (state) => state?.url ?? ''
+);
+
+// Path without query string and fragment, e.g. '/state/ngrx'
+export const selectCurrentPath = createSelector(
+  selectCurrentUrl,
+  (url) => url.split(/[?#]/)[0]
+);
+
+export const selectRouteParams = createSelector(
+  selectRouterState,
+  (state) => state?.params ?? {}
+);
+
+export const selectQueryParams = createSelector(
+  selectRouterState,
+  (state) => state?.queryParams ?? {}
+);
+
+export const selectRouteData = createSelector(
+  selectRouterState,
+  (state) => state?.data ?? {}
+);
+
+export const selectRouteParam = (name: string) =>
+  createSelector(selectRouteParams, (params): string | undefined => params[name]);
+
+export const selectQueryParam = (name: string) =>
+  createSelector(selectQueryParams, (params): string | undefined => params[name]);
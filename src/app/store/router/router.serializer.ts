@@ -0,0 +1,39 @@
+// COMPONENT TYPE: Store - Router Serializer
+// SECTION: State Management - Router
+//
+// ROLE:
+// - Turn Angular's RouterStateSnapshot into the minimal RouterStateUrl stored in AppState
+//
+// PATTERNS USED:
+// - Custom RouterStateSerializer (@ngrx/router-store)
+// - Flattened params: params of every route segment merged into one object
+//
+// NOTES FOR CONTRIBUTORS:
+// - Registered in app.config.ts: provideRouterStore({ serializer: AppRouterSerializer })
+// - Child params win over parent params with the same name
+// - Never put class instances (components, resolvers) in the result, it must stay serializable
+
+import { Injectable } from '@angular/core';
+import { Params, RouterStateSnapshot } from '@angular/router';
+import { RouterStateSerializer } from '@ngrx/router-store';
+import { RouterStateUrl } from './router.state';
+
+@Injectable()
+export class AppRouterSerializer implements RouterStateSerializer<RouterStateUrl> {
+  serialize(routerState: RouterStateSnapshot): RouterStateUrl {
+    // Walk down to the deepest activated route, collecting params on the way
+    let route = routerState.root;
+    let params: Params = { ...route.params };
+    while (route.firstChild) {
+      route = route.firstChild;
+      params = { ...params, ...route.params };
+    }
+
+    return {
+      url: routerState.url,
+      params,
+      queryParams: routerState.root.queryParams,
+      data: route.data,
+    };
+  }
+}
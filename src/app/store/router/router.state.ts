@@ -0,0 +1,28 @@
+// COMPONENT TYPE: Store - State
+// SECTION: State Management - Router
+//
+// ROLE:
+// - Define the serialized router state kept in AppState.router
+// - Document what components and effects can read from the URL through the store
+//
+// PATTERNS USED:
+// - Minimal serializable state (no ActivatedRouteSnapshot in the store)
+// - RouterReducerState wrapper from @ngrx/router-store
+//
+// NOTES FOR CONTRIBUTORS:
+// - Keep RouterStateUrl plain JSON: it is snapshotted by time travel and shown in the inspector
+// - The slice is written by routerReducer only, components keep navigating with the Router
+// - The shape is produced by AppRouterSerializer (router.serializer.ts)
+
+import { Data, Params } from '@angular/router';
+import { RouterReducerState } from '@ngrx/router-store';
+
+export interface RouterStateUrl {
+  url: string; // Full URL with query string, e.g. '/state/ngrx?tab=todos&filter=active'
+  params: Params; // Path params of the whole route chain, e.g. { id: '3' }
+  queryParams: Params;
+  data: Data; // Static data of the deepest activated route
+}
+
+// undefined until the first navigation starts
+export type RouterState = RouterReducerState<RouterStateUrl> | undefined;
@@ -0,0 +1,22 @@
+// COMPONENT TYPE: Store - Actions
+// SECTION: State Management - State Snapshots
+//
+// ROLE:
+// - Carry a validated snapshot into the store
+//
+// PATTERNS USED:
+// - Action with typed payload handled by a meta-reducer
+//
+// NOTES FOR CONTRIBUTORS:
+// - Dispatch only the result of parseStateSnapshot(): the payload is trusted as it is
+// - Handled by snapshotImportMetaReducer (registered slices) and the persistence
+//   meta-reducer (slices whose feature is not loaded yet)
+// - Not ignored by undo/redo: one undo brings back the state before the import
+
+import { createAction, props } from '@ngrx/store';
+import { SnapshotSlices } from './snapshot.state';
+
+export const importSnapshot = createAction(
+  '[Snapshot] Import',
+  props<{ state: SnapshotSlices }>()
+);
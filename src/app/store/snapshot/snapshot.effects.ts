@@ -0,0 +1,52 @@
+// COMPONENT TYPE: Store - Effects
+// SECTION: State Management - State Snapshots
+//
+// ROLE:
+// - Push imported todos to the todo API, so the server agrees with the imported state
+//
+// PATTERNS USED:
+// - NgRx createEffect with Actions stream and ofType()
+// - switchMap: only the latest import matters
+// - catchError inside the inner observable so the effect stream never dies
+//
+// NOTES FOR CONTRIBUTORS:
+// - Without this sync the next loadTodos would bring the old todos back
+// - Results reuse the '[Todo API] Load Todos' actions: the server returns the whole collection
+// - Root effect (app.config.ts): imports work on every route, even before the todo slice exists
+
+import { Injectable, inject } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Actions, createEffect, ofType } from '@ngrx/effects';
+import { catchError, filter, map, of, switchMap } from 'rxjs';
+import { TodoApiService } from '../../../services/todo-api.service';
+import * as TodoActions from '../todo/todo.actions';
+import { TodoState, todoAdapter } from '../todo/todo.state';
+import * as SnapshotActions from './snapshot.actions';
+
+const { selectAll } = todoAdapter.getSelectors();
+
+@Injectable()
+export class SnapshotEffects {
+  private actions$ = inject(Actions);
+  private todoApi = inject(TodoApiService);
+
+  syncImportedTodos$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(SnapshotActions.importSnapshot),
+      map(({ state }) => state.todo),
+      filter((todo): todo is TodoState => todo !== undefined),
+      switchMap((todo) =>
+        this.todoApi.replaceTodos(selectAll(todo)).pipe(
+          map((todos) => TodoActions.loadTodosSuccess({ todos })),
+          catchError((err: HttpErrorResponse) =>
+            of(
+              TodoActions.loadTodosFailure({
+                error: `Errore nel salvataggio dei todo importati: ${err.statusText || err.message}`,
+              })
+            )
+          )
+        )
+      )
+    )
+  );
+}
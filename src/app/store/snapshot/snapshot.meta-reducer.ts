@@ -0,0 +1,40 @@
+// COMPONENT TYPE: Store - Meta-Reducer
+// SECTION: State Management - State Snapshots
+//
+// ROLE:
+// - Replace the registered feature slices with the ones of an imported snapshot
+//
+// PATTERNS USED:
+// - MetaReducer (higher-order reducer wrapping the root reducer)
+// - Whole-slice replacement, so feature reducers need no import handler
+//
+// NOTES FOR CONTRIBUTORS:
+// - Register it last (innermost): undo/redo, the actions log and time travel then see the
+//   import as a regular state change, with a before and an after
+// - Slices of features that are not registered yet are left to the persistence meta-reducer,
+//   which applies them when the feature loads
+
+import { Action, ActionReducer, MetaReducer } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { pickSlices, sliceKeys } from '../app.slices';
+import * as SnapshotActions from './snapshot.actions';
+
+const isImport = (action: Action): action is ReturnType<typeof SnapshotActions.importSnapshot> =>
+  action.type === SnapshotActions.importSnapshot.type;
+
+/**
+ * Create the meta-reducer that applies imported state snapshots
+ *
+ * @returns MetaReducer<AppState> - Meta-reducer to register with provideStore
+ */
+export function createSnapshotImportMetaReducer(): MetaReducer<AppState> {
+  return (reducer: ActionReducer<AppState>): ActionReducer<AppState> =>
+    (state, action) => {
+      if (!isImport(action) || !state) {
+        return reducer(state, action);
+      }
+      // combineReducers would drop unregistered keys anyway: skip them explicitly
+      const registered = sliceKeys(action.state).filter((key) => state[key] !== undefined);
+      return reducer({ ...state, ...pickSlices(action.state, registered) }, action);
+    };
+}
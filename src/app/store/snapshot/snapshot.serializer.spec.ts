@@ -0,0 +1,201 @@
+import { ActionReducer } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { initialActionsLogState } from '../actions-log/actions-log.state';
+import { initialCounterState } from '../counter/counter.state';
+import { PERSISTENCE_SCHEMA_VERSION } from '../persistence/persistence.migrations';
+import { Todo, TodoState, initialTodoState, todoAdapter } from '../todo/todo.state';
+import { initialTimeTravelState } from '../time-travel/time-travel.state';
+import { initialUndoRedoState } from '../undo-redo/undo-redo.state';
+import * as SnapshotActions from './snapshot.actions';
+import { createSnapshotImportMetaReducer } from './snapshot.meta-reducer';
+import { createStateSnapshot, parseStateSnapshot, snapshotFileName } from './snapshot.serializer';
+import { SNAPSHOT_FORMAT, SnapshotParseResult } from './snapshot.state';
+
+const exportedAt = new Date('2024-05-01T10:30:00.000Z');
+
+function todo(id: number, changes: Partial<Todo> = {}): Todo {
+  return {
+    id,
+    text: `Todo ${id}`,
+    completed: false,
+    priority: 'medium',
+    dueDate: null,
+    tags: [],
+    order: id,
+    listId: 1,
+    ...changes,
+  };
+}
+
+const todoState: TodoState = todoAdapter.setAll(
+  [todo(1), todo(2, { completed: true, dueDate: '2024-06-01' })],
+  { ...initialTodoState, loading: true, error: 'Errore' }
+);
+
+const appState: AppState = {
+  counter: { ...initialCounterState, count: 3, history: [0, 3] },
+  todo: todoState,
+  actionsLog: initialActionsLogState,
+  undoRedo: initialUndoRedoState,
+  timeTravel: initialTimeTravelState,
+  router: undefined,
+};
+
+// Errors of a file that must be rejected
+function errors(result: SnapshotParseResult): string[] {
+  if (result.ok) {
+    throw new Error('Unexpected valid snapshot');
+  }
+  return result.errors;
+}
+
+// Snapshot file carrying the given slices at the current version
+const file = (state: unknown) =>
+  JSON.stringify({ format: SNAPSHOT_FORMAT, version: PERSISTENCE_SCHEMA_VERSION, state });
+
+describe('createStateSnapshot', () => {
+  it('should export the feature slices without transient todo fields', () => {
+    expect(createStateSnapshot(appState, exportedAt)).toEqual({
+      format: SNAPSHOT_FORMAT,
+      version: PERSISTENCE_SCHEMA_VERSION,
+      exportedAt: '2024-05-01T10:30:00.000Z',
+      state: {
+        counter: appState.counter,
+        todo: { ...todoState, loading: false, error: null },
+        actionsLog: initialActionsLogState,
+      },
+    });
+  });
+
+  it('should leave out features that are not registered', () => {
+    const state = { ...appState, todo: undefined, actionsLog: undefined };
+    expect(Object.keys(createStateSnapshot(state, exportedAt).state)).toEqual(['counter']);
+  });
+
+  it('should name the file after the export time', () => {
+    expect(snapshotFileName(exportedAt)).toBe('angular-showcase-state-2024-05-01T10-30-00.json');
+  });
+});
+
+describe('parseStateSnapshot', () => {
+  it('should read back an export', () => {
+    const snapshot = createStateSnapshot(appState, exportedAt);
+    expect(parseStateSnapshot(JSON.stringify(snapshot))).toEqual({
+      ok: true,
+      state: snapshot.state,
+    });
+  });
+
+  it('should accept bare slices and reset the transient todo fields', () => {
+    const result = parseStateSnapshot(JSON.stringify({ todo: todoState }));
+    expect(result).toEqual({
+      ok: true,
+      state: { todo: { ...todoState, loading: false, error: null } },
+    });
+  });
+
+  it('should upgrade files exported by older releases', () => {
+    const counter = { step: 1, min: null, max: null, count: 3, history: [0, 3] };
+    const result = parseStateSnapshot(JSON.stringify({ version: 4, state: { counter } }));
+    expect(result).toEqual({ ok: true, state: { counter } });
+  });
+
+  it('should reject text that is not a snapshot', () => {
+    expect(errors(parseStateSnapshot('{'))[0]).toMatch(/^JSON non valido: /);
+    expect(errors(parseStateSnapshot('[]'))).toEqual([
+      'Il JSON deve essere un oggetto, non un valore singolo o un array',
+    ]);
+    expect(errors(parseStateSnapshot('{"format": "other"}'))).toEqual([
+      `format: atteso "${SNAPSHOT_FORMAT}", trovato "other"`,
+    ]);
+    expect(errors(parseStateSnapshot('{}'))).toEqual([
+      'Nessuno slice da importare: attesi counter, todo, actionsLog',
+    ]);
+  });
+
+  it('should reject a bad envelope', () => {
+    const newer = JSON.stringify({ version: PERSISTENCE_SCHEMA_VERSION + 1, state: {} });
+    expect(errors(parseStateSnapshot(newer))[0]).toMatch(/^version: lo snapshot è della versione/);
+    expect(errors(parseStateSnapshot('{"version": 0, "state": []}'))).toEqual([
+      'version: atteso un numero intero positivo, trovato 0',
+      'state: atteso un oggetto con gli slice counter, todo e actionsLog',
+    ]);
+    expect(errors(parseStateSnapshot(file({ counter: appState.counter, users: [] })))).toEqual([
+      'users: slice sconosciuto, sono ammessi counter, todo, actionsLog',
+    ]);
+  });
+
+  it('should report every field that does not match the counter shape', () => {
+    const counter = { count: '3', history: [], step: 0, min: 5, max: 1 };
+    expect(errors(parseStateSnapshot(file({ counter })))).toEqual([
+      'counter.count: atteso un numero, trovato "3"',
+    ]);
+    const valid = { ...counter, count: 3 };
+    expect(errors(parseStateSnapshot(file({ counter: valid })))).toEqual([
+      'counter.history: deve contenere almeno un valore',
+      'counter.step: deve essere maggiore di 0, trovato 0',
+      'counter: min (5) è maggiore di max (1)',
+    ]);
+  });
+
+  it('should check the todo entities and their cross references', () => {
+    const broken = {
+      ...todoState,
+      ids: [1, 2, 4],
+      entities: {
+        1: { ...todo(1), priority: 'urgent', listId: 9 },
+        2: todo(3),
+        3: todo(3),
+      },
+      lists: { ...todoState.lists, activeId: 7 },
+    };
+    expect(errors(parseStateSnapshot(file({ todo: broken })))).toEqual([
+      "todo.entities.1.priority: atteso 'high' | 'medium' | 'low', trovato \"urgent\"",
+      'todo.entities.2.id: atteso 2, trovato 3',
+      "todo.ids: l'id 4 non ha un elemento in entities",
+      'todo.entities.3: elemento non presente in ids',
+    ]);
+    const dangling = {
+      ...todoState,
+      entities: { ...todoState.entities, 1: todo(1, { listId: 9 }) },
+      lists: broken.lists,
+    };
+    expect(errors(parseStateSnapshot(file({ todo: dangling })))).toEqual([
+      'todo.lists.activeId: la lista 7 non esiste',
+      'todo.entities.1.listId: la lista 9 non esiste',
+    ]);
+  });
+
+  it('should report missing fields and cut long error lists', () => {
+    const entries = Array.from({ length: 25 }, (_, id) => ({ id, type: 1 }));
+    const messages = errors(parseStateSnapshot(file({ actionsLog: { entries } })));
+    expect(messages.length).toBe(21);
+    expect(messages.slice(0, 3)).toEqual([
+      'actionsLog.entries[0].type: atteso una stringa, trovato 1',
+      'actionsLog.entries[0].payload: campo mancante (atteso un oggetto o null)',
+      'actionsLog.entries[0].timestamp: campo mancante (atteso un numero)',
+    ]);
+    expect(messages[20]).toBe('…e altri 80 errori');
+  });
+});
+
+describe('createSnapshotImportMetaReducer', () => {
+  // Root reducer that keeps the state as it is
+  const identity: ActionReducer<AppState> = (state) => state as AppState;
+  const reducer = createSnapshotImportMetaReducer()(identity);
+
+  it('should replace the registered slices and skip the others', () => {
+    const state = { ...appState, actionsLog: undefined };
+    const counter = { ...initialCounterState, count: 8, history: [8] };
+    const imported = reducer(
+      state,
+      SnapshotActions.importSnapshot({ state: { counter, actionsLog: initialActionsLogState } })
+    );
+    expect(imported).toEqual({ ...state, counter });
+    expect(imported.todo).toBe(state.todo);
+  });
+
+  it('should pass other actions through', () => {
+    expect(reducer(appState, { type: '[Test] Other' })).toBe(appState);
+  });
+});
@@ -0,0 +1,173 @@
+// COMPONENT TYPE: Utility
+// SECTION: State Management - State Snapshots
+//
+// ROLE:
+// - Build the exported snapshot from the current AppState
+// - Parse imported JSON: envelope detection, version check, migrations, validation
+// - Name downloaded snapshot files
+//
+// PATTERNS USED:
+// - Pure functions: the UI reads files and triggers downloads, the store applies the result
+// - Reuse of persistence migrations for files exported by older releases
+//
+// NOTES FOR CONTRIBUTORS:
+// - parseStateSnapshot() never throws: every problem ends up in the errors array
+// - Accepted input: a snapshot file, a persisted envelope ({ version, state }) or bare slices
+//   ({ counter, todo, actionsLog }), the last one assumed to be at the current version
+// - Only registered slices are exported: lazy features appear once their route was opened
+
+import { AppState } from '../app.state';
+import {
+  PERSISTENCE_SCHEMA_VERSION,
+  PersistedState,
+  migratePersistedState,
+  persistenceMigrations,
+} from '../persistence/persistence.migrations';
+import {
+  SNAPSHOT_FORMAT,
+  SNAPSHOT_SLICE_KEYS,
+  SnapshotParseResult,
+  SnapshotSliceKey,
+  SnapshotSlices,
+  StateSnapshot,
+} from './snapshot.state';
+import { snapshotValidators } from './snapshot.validation';
+
+// Longer error lists are cut, the first problems are usually enough to fix a file
+const MAX_REPORTED_ERRORS = 20;
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isSliceKey = (key: string): key is SnapshotSliceKey =>
+  SNAPSHOT_SLICE_KEYS.includes(key as SnapshotSliceKey);
+
+const fail = (errors: string[]): SnapshotParseResult => ({
+  ok: false,
+  errors:
+    errors.length > MAX_REPORTED_ERRORS
+      ? [
+          ...errors.slice(0, MAX_REPORTED_ERRORS),
+          `…e altri ${errors.length - MAX_REPORTED_ERRORS} errori`,
+        ]
+      : errors,
+});
+
+/**
+ * Build a snapshot of the registered feature slices
+ *
+ * @param state - Current AppState
+ * @param exportedAt - Export time
+ * @returns StateSnapshot - Envelope ready for JSON.stringify
+ */
+export function createStateSnapshot(state: AppState, exportedAt: Date): StateSnapshot {
+  const { counter, todo, actionsLog } = state;
+  return {
+    format: SNAPSHOT_FORMAT,
+    version: PERSISTENCE_SCHEMA_VERSION,
+    exportedAt: exportedAt.toISOString(),
+    state: {
+      ...(counter && { counter }),
+      // A pending request or an old error must not come back with the import
+      ...(todo && { todo: { ...todo, loading: false, error: null } }),
+      ...(actionsLog && { actionsLog }),
+    },
+  };
+}
+
+// Tell the accepted inputs apart and return the version and slices to migrate
+function readEnvelope(
+  data: Record<string, unknown>
+): { version: number; state: PersistedState } | string[] {
+  if ('format' in data && data['format'] !== SNAPSHOT_FORMAT) {
+    return [`format: atteso "${SNAPSHOT_FORMAT}", trovato ${JSON.stringify(data['format'])}`];
+  }
+  if (!('format' in data) && !('version' in data)) {
+    return { version: PERSISTENCE_SCHEMA_VERSION, state: data };
+  }
+  const { version, state } = data;
+  const errors: string[] = [];
+  if (!Number.isInteger(version) || (version as number) < 1) {
+    errors.push(`version: atteso un numero intero positivo, trovato ${JSON.stringify(version)}`);
+  } else if ((version as number) > PERSISTENCE_SCHEMA_VERSION) {
+    errors.push(
+      `version: lo snapshot è della versione ${version}, ` +
+        `questa app legge fino alla versione ${PERSISTENCE_SCHEMA_VERSION}`
+    );
+  }
+  if (!isRecord(state)) {
+    errors.push('state: atteso un oggetto con gli slice counter, todo e actionsLog');
+  }
+  return errors.length ? errors : { version: version as number, state: state as PersistedState };
+}
+
+/**
+ * Parse and validate snapshot JSON before it reaches the store
+ *
+ * @param json - File content or pasted text
+ * @returns SnapshotParseResult - Validated slices, or the list of problems found
+ */
+export function parseStateSnapshot(json: string): SnapshotParseResult {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (err) {
+    return fail([`JSON non valido: ${(err as Error).message}`]);
+  }
+  if (!isRecord(data)) {
+    return fail(['Il JSON deve essere un oggetto, non un valore singolo o un array']);
+  }
+
+  const envelope = readEnvelope(data);
+  if (Array.isArray(envelope)) {
+    return fail(envelope);
+  }
+
+  const unknownKeys = Object.keys(envelope.state).filter((key) => !isSliceKey(key));
+  if (unknownKeys.length) {
+    return fail(
+      unknownKeys.map(
+        (key) => `${key}: slice sconosciuto, sono ammessi ${SNAPSHOT_SLICE_KEYS.join(', ')}`
+      )
+    );
+  }
+  if (!Object.keys(envelope.state).length) {
+    return fail([`Nessuno slice da importare: attesi ${SNAPSHOT_SLICE_KEYS.join(', ')}`]);
+  }
+
+  const migrated = migratePersistedState(
+    { version: envelope.version, savedAt: 0, state: envelope.state },
+    PERSISTENCE_SCHEMA_VERSION,
+    persistenceMigrations
+  );
+  if (!migrated) {
+    return fail([`Migrazione dalla versione ${envelope.version} non riuscita`]);
+  }
+
+  const errors: string[] = [];
+  for (const key of SNAPSHOT_SLICE_KEYS) {
+    if (key in migrated) {
+      snapshotValidators[key](migrated[key], key, errors);
+    }
+  }
+  if (errors.length) {
+    return fail(errors);
+  }
+
+  // The only narrowing: every slice present passed its validator
+  const state = migrated as SnapshotSlices;
+  return {
+    ok: true,
+    state: state.todo ? { ...state, todo: { ...state.todo, loading: false, error: null } } : state,
+  };
+}
+
+/**
+ * File name for a downloaded snapshot, e.g. angular-showcase-state-2024-05-01T10-30-00.json
+ *
+ * @param exportedAt - Export time
+ * @returns string - Name without characters that file systems reject
+ */
+export function snapshotFileName(exportedAt: Date): string {
+  return `angular-showcase-state-${exportedAt.toISOString().slice(0, 19).replace(/:/g, '-')}.json`;
+}
@@ -0,0 +1,53 @@
+// COMPONENT TYPE: Store - State
+// SECTION: State Management - State Snapshots
+//
+// ROLE:
+// - Define the JSON file format used to export and import the store state
+// - List the slices a snapshot may contain
+// - Describe the result of parsing untrusted snapshot JSON
+//
+// PATTERNS USED:
+// - Versioned envelope (same schema version as the persistence meta-reducer)
+// - Discriminated union for the parse result (ok: true | false)
+//
+// NOTES FOR CONTRIBUTORS:
+// - Snapshots share PERSISTENCE_SCHEMA_VERSION: old files are upgraded by persistence migrations
+// - Only feature slices are exported; undoRedo, timeTravel and router are runtime state
+// - Adding a slice here also needs a validator in snapshot.validation.ts
+
+import { COUNTER_FEATURE_KEY, CounterState } from '../counter/counter.state';
+import { TODO_FEATURE_KEY, TodoState } from '../todo/todo.state';
+import { ACTIONS_LOG_FEATURE_KEY, ActionsLogState } from '../actions-log/actions-log.state';
+
+// Marker that tells a snapshot file apart from any other JSON
+export const SNAPSHOT_FORMAT = 'angular-showcase/state-snapshot';
+
+export const SNAPSHOT_SLICE_KEYS = [
+  COUNTER_FEATURE_KEY,
+  TODO_FEATURE_KEY,
+  ACTIONS_LOG_FEATURE_KEY,
+] as const;
+
+export type SnapshotSliceKey = (typeof SNAPSHOT_SLICE_KEYS)[number];
+
+// Slices carried by a snapshot, each one optional
+export interface SnapshotSlices {
+  counter?: CounterState;
+  todo?: TodoState;
+  actionsLog?: ActionsLogState;
+}
+
+// PATTERN: Versioned envelope
+// PURPOSE:
+// - Recognize snapshot files on import
+// - Let persistence migrations upgrade files exported by older releases
+export interface StateSnapshot {
+  format: typeof SNAPSHOT_FORMAT;
+  version: number; // PERSISTENCE_SCHEMA_VERSION at export time
+  exportedAt: string; // ISO timestamp, informative only
+  state: SnapshotSlices;
+}
+
+export type SnapshotParseResult =
+  | { ok: true; state: SnapshotSlices }
+  | { ok: false; errors: string[] }; // User-facing messages, in Italian
@@ -0,0 +1,257 @@
+// COMPONENT TYPE: Utility
+// SECTION: State Management - State Snapshots
+//
+// ROLE:
+// - Check untrusted JSON against the CounterState, TodoState and ActionsLogState shapes
+// - Report every problem with its path (e.g. 'todo.entities.3.priority')
+// - Check cross references (ids vs entities, todo listId, active list, counter bounds)
+//
+// PATTERNS USED:
+// - Small composable rules: (value, path, errors) => boolean
+// - Error accumulation instead of throwing, so the user sees all problems at once
+//
+// NOTES FOR CONTRIBUTORS:
+// - Pure functions on plain JSON (no store, no Angular)
+// - Messages are shown to users, keep them in Italian
+// - When a state interface changes, update its validator together with the persistence migration
+
+import { SnapshotSliceKey } from './snapshot.state';
+import { TODO_FILTERS, todoPriorityRank, todoSortComparers } from '../todo/todo.state';
+
+type JsonRecord = Record<string, unknown>;
+
+// Validates value (found at path) and appends messages to errors; true when valid
+type Rule = (value: unknown, path: string, errors: string[]) => boolean;
+
+const TODO_PRIORITIES = Object.keys(todoPriorityRank);
+const TODO_SORTS = Object.keys(todoSortComparers);
+const ISO_DATE = /^\d{4}-\d{2}-\d{2}$/;
+
+const isRecord = (value: unknown): value is JsonRecord =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const isNumber = (value: unknown): value is number =>
+  typeof value === 'number' && Number.isFinite(value);
+
+// Short description of an unexpected value for error messages
+function describe(value: unknown): string {
+  if (Array.isArray(value)) return 'un array';
+  if (isRecord(value)) return 'un oggetto';
+  const json = JSON.stringify(value);
+  return json.length > 40 ? `${json.slice(0, 40)}…` : json;
+}
+
+// Build a rule from a type guard and the description of what is expected
+function rule(guard: (value: unknown) => boolean, expected: string): Rule {
+  return (value, path, errors) => {
+    if (guard(value)) {
+      return true;
+    }
+    errors.push(
+      value === undefined
+        ? `${path}: campo mancante (atteso ${expected})`
+        : `${path}: atteso ${expected}, trovato ${describe(value)}`
+    );
+    return false;
+  };
+}
+
+const object = rule(isRecord, 'un oggetto');
+const number = rule(isNumber, 'un numero');
+const integer = rule(Number.isInteger, 'un numero intero');
+const string = rule((value) => typeof value === 'string', 'una stringa');
+const boolean = rule((value) => typeof value === 'boolean', 'true o false');
+const nullableNumber = rule((value) => value === null || isNumber(value), 'un numero o null');
+const nullableString = rule(
+  (value) => value === null || typeof value === 'string',
+  'una stringa o null'
+);
+const isoDateOrNull = rule(
+  (value) => value === null || (typeof value === 'string' && ISO_DATE.test(value)),
+  "una data 'YYYY-MM-DD' o null"
+);
+
+function oneOf(values: readonly string[]): Rule {
+  return rule(
+    (value) => values.includes(value as string),
+    values.map((value) => `'${value}'`).join(' | ')
+  );
+}
+
+// Rule for an array whose items all follow itemRule
+function arrayOf(itemRule: Rule): Rule {
+  return (value, path, errors) => {
+    if (!rule(Array.isArray, 'un array')(value, path, errors)) {
+      return false;
+    }
+    const before = errors.length;
+    (value as unknown[]).forEach((item, index) => itemRule(item, `${path}[${index}]`, errors));
+    return errors.length === before;
+  };
+}
+
+// Optional fields are only checked when present
+function optional(fieldRule: Rule): Rule {
+  return (value, path, errors) => value === undefined || fieldRule(value, path, errors);
+}
+
+// Rule for an object whose fields follow the given rules (extra fields are ignored)
+function shape(fields: Record<string, Rule>): Rule {
+  return (value, path, errors) => {
+    if (!object(value, path, errors)) {
+      return false;
+    }
+    const before = errors.length;
+    for (const [key, fieldRule] of Object.entries(fields)) {
+      fieldRule((value as JsonRecord)[key], `${path}.${key}`, errors);
+    }
+    return errors.length === before;
+  };
+}
+
+// PATTERN: Entity collection validation
+// PURPOSE:
+// - Check the @ngrx/entity layout (ids array + entities dictionary) and each entity
+// - Catch ids without an entity, entities missing from ids and mismatched entity ids
+function entityCollection(entityRule: Rule, extraFields: Record<string, Rule> = {}): Rule {
+  return (value, path, errors) => {
+    const before = errors.length;
+    if (!shape({ ids: arrayOf(integer), entities: object, ...extraFields })(value, path, errors)) {
+      return false;
+    }
+    const { ids, entities } = value as { ids: number[]; entities: JsonRecord };
+    if (new Set(ids).size !== ids.length) {
+      errors.push(`${path}.ids: contiene id duplicati`);
+    }
+    for (const id of ids) {
+      const entity = entities[id];
+      if (entity === undefined) {
+        errors.push(`${path}.ids: l'id ${id} non ha un elemento in entities`);
+      } else if (entityRule(entity, `${path}.entities.${id}`, errors)) {
+        if ((entity as JsonRecord)['id'] !== id) {
+          const found = describe((entity as JsonRecord)['id']);
+          errors.push(`${path}.entities.${id}.id: atteso ${id}, trovato ${found}`);
+        }
+      }
+    }
+    const listed = new Set(ids.map(String));
+    for (const key of Object.keys(entities)) {
+      if (!listed.has(key)) {
+        errors.push(`${path}.entities.${key}: elemento non presente in ids`);
+      }
+    }
+    return errors.length === before;
+  };
+}
+
+// ═══ COUNTER ═══
+
+const counterState = shape({
+  count: number,
+  history: arrayOf(number),
+  step: number,
+  min: nullableNumber,
+  max: nullableNumber,
+});
+
+function validateCounterState(value: unknown, path: string, errors: string[]): boolean {
+  if (!counterState(value, path, errors)) {
+    return false;
+  }
+  const { count, history, step, min, max } = value as {
+    count: number;
+    history: number[];
+    step: number;
+    min: number | null;
+    max: number | null;
+  };
+  const before = errors.length;
+  if (history.length === 0) {
+    errors.push(`${path}.history: deve contenere almeno un valore`);
+  }
+  if (step <= 0) {
+    errors.push(`${path}.step: deve essere maggiore di 0, trovato ${step}`);
+  }
+  if (min !== null && max !== null && min > max) {
+    errors.push(`${path}: min (${min}) è maggiore di max (${max})`);
+  } else if ((min !== null && count < min) || (max !== null && count > max)) {
+    errors.push(`${path}.count: ${count} è fuori dai limiti min/max`);
+  }
+  return errors.length === before;
+}
+
+// ═══ TODO ═══
+
+const todo = shape({
+  id: integer,
+  text: string,
+  completed: boolean,
+  priority: oneOf(TODO_PRIORITIES),
+  dueDate: isoDateOrNull,
+  tags: arrayOf(string),
+  order: number,
+  listId: integer,
+});
+
+const todoList = shape({
+  id: integer,
+  name: string,
+  filter: oneOf(TODO_FILTERS),
+});
+
+const todoState = entityCollection(todo, {
+  lists: entityCollection(todoList, { activeId: integer, nextId: integer }),
+  tagFilter: nullableString,
+  sort: oneOf(TODO_SORTS),
+  // Transient fields: snapshots may omit them, they are reset on import anyway
+  loading: optional(boolean),
+  error: optional(nullableString),
+});
+
+function validateTodoState(value: unknown, path: string, errors: string[]): boolean {
+  if (!todoState(value, path, errors)) {
+    return false;
+  }
+  const { ids, entities, lists } = value as {
+    ids: number[];
+    entities: Record<number, { listId: number }>;
+    lists: { ids: number[]; activeId: number; nextId: number };
+  };
+  const before = errors.length;
+  if (lists.ids.length === 0) {
+    errors.push(`${path}.lists.ids: serve almeno una lista`);
+  }
+  if (!lists.ids.includes(lists.activeId)) {
+    errors.push(`${path}.lists.activeId: la lista ${lists.activeId} non esiste`);
+  }
+  if (lists.ids.some((id) => id >= lists.nextId)) {
+    errors.push(`${path}.lists.nextId: deve essere maggiore di ogni id di lista`);
+  }
+  for (const id of ids) {
+    if (!lists.ids.includes(entities[id].listId)) {
+      errors.push(`${path}.entities.${id}.listId: la lista ${entities[id].listId} non esiste`);
+    }
+  }
+  return errors.length === before;
+}
+
+// ═══ ACTIONS LOG ═══
+
+const validateActionsLogState = shape({
+  entries: arrayOf(
+    shape({
+      id: integer,
+      type: string,
+      payload: rule((value) => value === null || isRecord(value), 'un oggetto o null'),
+      timestamp: number,
+      diff: arrayOf(shape({ path: string })),
+    })
+  ),
+});
+
+// One validator per snapshot slice, called with the feature key as root path
+export const snapshotValidators: Record<SnapshotSliceKey, Rule> = {
+  counter: validateCounterState,
+  todo: validateTodoState,
+  actionsLog: validateActionsLogState,
+};
@@ -0,0 +1,27 @@
+// COMPONENT TYPE: Store - Actions
+// SECTION: State Management - Time Travel
+//
+// ROLE:
+// - Define navigation actions over the recorded timeline (jump, back to live)
+// - Define action to drop the recorded timeline
+//
+// PATTERNS USED:
+// - NgRx createAction with props<{ ... }>()
+// - Actions handled by a meta-reducer instead of a feature reducer
+//
+// NOTES FOR CONTRIBUTORS:
+// - These actions are interpreted by timeTravelMetaReducer and never reach feature reducers
+// - They are never recorded in the timeline themselves
+
+import { createAction, props } from '@ngrx/store';
+
+// Replace the whole state with the one right after the given entry
+export const jumpToEntry = createAction(
+  '[Time Travel] Jump To Entry',
+  props<{ id: number }>()
+);
+
+// Restore the state after the newest entry
+export const jumpToLive = createAction('[Time Travel] Jump To Live');
+
+export const clearTimeline = createAction('[Time Travel] Clear Timeline');
@@ -0,0 +1,138 @@
+// COMPONENT TYPE: Store - Meta-Reducer
+// SECTION: State Management - Time Travel
+//
+// ROLE:
+// - Record every dispatched action with the AppState before and after it
+// - Handle jumpToEntry / jumpToLive by swapping a recorded snapshot in
+// - Branch the timeline when a new action is dispatched while viewing the past
+//
+// PATTERNS USED:
+// - MetaReducer (higher-order reducer wrapping the root reducer)
+// - Factory function returning a configured meta-reducer
+// - Structural sharing: snapshots are references to immutable state, never copies
+//
+// NOTES FOR CONTRIBUTORS:
+// - Register it right inside persistence, so snapshots include actionsLog and undoRedo too
+// - Jumping does NOT run feature reducers or effects: no HTTP call is ever replayed
+// - liveKeys are recorded but never restored: the router slice must follow the real URL
+// - Date.now() makes this meta-reducer impure: acceptable for a dev tool only
+
+import { ActionReducer, MetaReducer } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { AppStateKey, pickSlices } from '../app.slices';
+import {
+  TimeTravelEntry,
+  TimeTravelSnapshot,
+  TimeTravelState,
+  initialTimeTravelState,
+} from './time-travel.state';
+import * as TimeTravelActions from './time-travel.actions';
+
+// PATTERN: Meta-reducer configuration
+// PURPOSE:
+// - Keep recording rules in one place (app.meta-reducers.ts)
+// - Cap memory usage of the timeline
+export interface TimeTravelConfig {
+  maxEntries: number; // Oldest entries are dropped beyond this size
+  ignoredActions: string[]; // Action types, or type prefixes, never recorded
+  liveKeys: AppStateKey[]; // Feature keys kept as they are when jumping (e.g. 'router')
+}
+
+// Everything but the timeline itself
+function toSnapshot(state: AppState): TimeTravelSnapshot {
+  const snapshot: TimeTravelSnapshot = { ...state };
+  delete snapshot.timeTravel;
+  return snapshot;
+}
+
+// Put a recorded snapshot back over the current state, keeping the given timeline and the
+// live keys. Slices registered after the snapshot (lazy features) keep their current value.
+function fromSnapshot(
+  state: AppState,
+  snapshot: TimeTravelSnapshot,
+  timeTravel: TimeTravelState,
+  live: Partial<AppState>
+): AppState {
+  return { ...state, ...snapshot, ...live, timeTravel };
+}
+
+/**
+ * Create a meta-reducer that records a time-travel timeline into state.timeTravel
+ *
+ * @param config - Size cap and ignored action prefixes
+ * @returns MetaReducer<AppState> - Meta-reducer to register with provideStore
+ */
+export function createTimeTravelMetaReducer(config: TimeTravelConfig): MetaReducer<AppState> {
+  const isIgnored = (type: string) =>
+    type.startsWith('@ngrx/') || config.ignoredActions.some((ignored) => type.startsWith(ignored));
+
+  return (reducer: ActionReducer<AppState>): ActionReducer<AppState> =>
+    (state, action) => {
+      // Store initialization: nothing to record yet
+      if (!state) {
+        return reducer(state, action);
+      }
+
+      const timeline = state.timeTravel;
+
+      switch (action.type) {
+        case TimeTravelActions.jumpToEntry.type: {
+          const { id } = action as ReturnType<typeof TimeTravelActions.jumpToEntry>;
+          const entry = timeline.entries.find((e) => e.id === id);
+          if (!entry) {
+            return state;
+          }
+          return fromSnapshot(
+            state,
+            entry.after,
+            { ...timeline, currentId: id },
+            pickSlices(state, config.liveKeys)
+          );
+        }
+
+        case TimeTravelActions.jumpToLive.type: {
+          const latest = timeline.entries[timeline.entries.length - 1];
+          if (!latest || timeline.currentId === null) {
+            return state;
+          }
+          return fromSnapshot(
+            state,
+            latest.after,
+            { ...timeline, currentId: null },
+            pickSlices(state, config.liveKeys)
+          );
+        }
+
+        case TimeTravelActions.clearTimeline.type:
+          return { ...state, timeTravel: initialTimeTravelState };
+      }
+
+      const next = reducer(state, action);
+      if (isIgnored(action.type)) {
+        return next;
+      }
+
+      // A new action while viewing the past starts a new branch: the old future is dropped
+      const { currentId } = timeline;
+      const history =
+        currentId === null ? timeline.entries : timeline.entries.filter((e) => e.id <= currentId);
+
+      const { type, ...props } = action;
+      const entry: TimeTravelEntry = {
+        id: (timeline.entries[timeline.entries.length - 1]?.id ?? 0) + 1,
+        type,
+        payload: Object.keys(props).length ? (props as Record<string, unknown>) : null,
+        timestamp: Date.now(),
+        before: toSnapshot(state),
+        after: toSnapshot(next),
+      };
+
+      return {
+        ...next,
+        timeTravel: {
+          entries: [...history, entry].slice(-config.maxEntries),
+          currentId: null,
+        },
+      };
+    };
+}
@@ -0,0 +1,18 @@
+// COMPONENT TYPE: Store - Reducer
+// SECTION: State Management - Time Travel
+//
+// ROLE:
+// - Register the 'timeTravel' key in the root reducer map
+// - Provide the initial (empty) timeline
+//
+// PATTERNS USED:
+// - Placeholder reducer for a meta-reducer owned slice
+//
+// NOTES FOR CONTRIBUTORS:
+// - Do NOT add on() handlers here: timeTravelMetaReducer replaces this slice after every action
+// - The reducer exists only so ActionReducerMap<AppState> stays complete and typed
+
+import { createReducer } from '@ngrx/store';
+import { initialTimeTravelState } from './time-travel.state';
+
+export const timeTravelReducer = createReducer(initialTimeTravelState);
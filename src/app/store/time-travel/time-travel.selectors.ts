@@ -0,0 +1,39 @@
+// COMPONENT TYPE: Store - Selectors
+// SECTION: State Management - Time Travel
+//
+// ROLE:
+// - Expose the recorded timeline for the store inspector
+// - Expose whether the store is currently showing a past state
+//
+// PATTERNS USED:
+// - Feature selector for root access
+// - Selector factory for single entry lookup
+//
+// NOTES FOR CONTRIBUTORS:
+// - selectTimelineEntries is newest-first for display, the state keeps oldest-first
+// - Entries hold full snapshots: render them lazily (only the selected one)
+
+import { createFeatureSelector, createSelector } from '@ngrx/store';
+import { TimeTravelState } from './time-travel.state';
+
+export const selectTimeTravelState = createFeatureSelector<TimeTravelState>('timeTravel');
+
+export const selectTimelineEntries = createSelector(
+  selectTimeTravelState,
+  (state) => [...state.entries].reverse()
+);
+
+export const selectCurrentEntryId = createSelector(
+  selectTimeTravelState,
+  (state) => state.currentId
+);
+
+export const selectIsTimeTraveling = createSelector(
+  selectCurrentEntryId,
+  (currentId) => currentId !== null
+);
+
+export const selectTimelineEntryById = (id: number) =>
+  createSelector(selectTimeTravelState, (state) =>
+    state.entries.find((entry) => entry.id === id)
+  );
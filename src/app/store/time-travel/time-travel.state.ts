@@ -0,0 +1,40 @@
+// COMPONENT TYPE: Store - State
+// SECTION: State Management - Time Travel
+//
+// ROLE:
+// - Define the timeline of dispatched actions shown by the store inspector
+// - Keep the AppState before and after every recorded action
+// - Track whether the store is showing a past state or the live one
+//
+// PATTERNS USED:
+// - Full-state snapshots with structural sharing (no deep copies)
+// - Cursor (currentId) over an append-only timeline
+//
+// NOTES FOR CONTRIBUTORS:
+// - This state is written by timeTravelMetaReducer only, never by a regular reducer
+// - Snapshots never contain the 'timeTravel' key itself
+// - Oldest entries are at the START of the array, newest at the END
+
+import { AppState } from '../app.state';
+
+// AppState without the 'timeTravel' key, as seen right before/after an action
+export type TimeTravelSnapshot = Partial<AppState>;
+
+export interface TimeTravelEntry {
+  id: number; // Incremental, unique within the timeline
+  type: string;
+  payload: Record<string, unknown> | null; // Action props without type, null if none
+  timestamp: number;
+  before: TimeTravelSnapshot;
+  after: TimeTravelSnapshot;
+}
+
+export interface TimeTravelState {
+  entries: TimeTravelEntry[];
+  currentId: number | null; // Entry whose 'after' is displayed, null = live state
+}
+
+export const initialTimeTravelState: TimeTravelState = {
+  entries: [],
+  currentId: null,
+};
@@ -0,0 +1,108 @@
+import { TestBed } from '@angular/core/testing';
+import { Router } from '@angular/router';
+import { provideMockActions } from '@ngrx/effects/testing';
+import { routerNavigatedAction } from '@ngrx/router-store';
+import { Action } from '@ngrx/store';
+import { MockStore, provideMockStore } from '@ngrx/store/testing';
+import { Subject } from 'rxjs';
+import * as TodoActions from './todo.actions';
+import { TODO_FILTER_ROUTE_DATA, TodoRouterEffects } from './todo-router.effects';
+import { todoReducer } from './todo.reducer';
+import { TODO_FEATURE_KEY, TodoFilter, initialTodoState } from './todo.state';
+
+// Root state with the active list filtered by filter and the router on the given URL
+function appState(filter: TodoFilter, queryParams: Record<string, string>, synced = true) {
+  return {
+    [TODO_FEATURE_KEY]: todoReducer(initialTodoState, TodoActions.setFilter({ filter })),
+    router: {
+      navigationId: 1,
+      state: {
+        url: '/state/ngrx',
+        params: {},
+        queryParams,
+        data: synced ? { [TODO_FILTER_ROUTE_DATA]: true } : {},
+      },
+    },
+  };
+}
+
+const navigated = { type: routerNavigatedAction.type } as Action;
+
+describe('TodoRouterEffects', () => {
+  let actions$: Subject<Action>;
+  let store: MockStore;
+  let effects: TodoRouterEffects;
+  let navigate: ReturnType<typeof vi.fn>;
+
+  beforeEach(() => {
+    actions$ = new Subject<Action>();
+    navigate = vi.fn();
+    TestBed.configureTestingModule({
+      providers: [
+        TodoRouterEffects,
+        provideMockActions(() => actions$),
+        provideMockStore({ initialState: appState('all', {}) }),
+        { provide: Router, useValue: { navigate } },
+      ],
+    });
+    store = TestBed.inject(MockStore);
+    effects = TestBed.inject(TodoRouterEffects);
+  });
+
+  describe('filterFromUrl$', () => {
+    let emitted: Action[];
+
+    beforeEach(() => {
+      emitted = [];
+      effects.filterFromUrl$.subscribe((action) => emitted.push(action));
+    });
+
+    it('should apply a valid ?filter= to the active list', () => {
+      store.setState(appState('all', { filter: 'completed' }));
+      actions$.next(navigated);
+      expect(emitted).toEqual([TodoActions.setFilter({ filter: 'completed' })]);
+    });
+
+    it('should ignore a param equal to the store, invalid or on another route', () => {
+      store.setState(appState('active', { filter: 'active' }));
+      actions$.next(navigated);
+      store.setState(appState('all', { filter: 'done' }));
+      actions$.next(navigated);
+      store.setState(appState('all', { filter: 'completed' }, false));
+      actions$.next(navigated);
+      expect(emitted).toEqual([]);
+    });
+  });
+
+  describe('filterToUrl$', () => {
+    beforeEach(() => effects.filterToUrl$.subscribe());
+
+    it('should write a filter change to the URL as a new history entry', () => {
+      store.setState(appState('active', { filter: 'all' }));
+      actions$.next(TodoActions.setFilter({ filter: 'active' }));
+      expect(navigate).toHaveBeenCalledExactlyOnceWith([], {
+        queryParams: { filter: 'active' },
+        queryParamsHandling: 'merge',
+        replaceUrl: false,
+      });
+    });
+
+    it('should replace a missing or invalid param after a navigation', () => {
+      store.setState(appState('completed', {}));
+      actions$.next(navigated);
+      store.setState(appState('completed', { filter: 'done' }));
+      actions$.next(navigated);
+      expect(navigate.mock.calls.map(([, extras]) => extras.replaceUrl)).toEqual([true, true]);
+    });
+
+    it('should leave a valid param, an already synced URL and other routes alone', () => {
+      store.setState(appState('all', { filter: 'active' }));
+      actions$.next(navigated);
+      store.setState(appState('active', { filter: 'active' }));
+      actions$.next(TodoActions.setActiveList({ id: 1 }));
+      store.setState(appState('active', {}, false));
+      actions$.next(TodoActions.setFilter({ filter: 'active' }));
+      expect(navigate).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,102 @@
+// COMPONENT TYPE: Store - Effects
+// SECTION: State Management - Todo
+//
+// ROLE:
+// - Keep the status filter of the active list in sync with the ?filter= query param
+// - Make filtered todo views bookmarkable and shareable
+//
+// PATTERNS USED:
+// - Router state read from the store (@ngrx/router-store selectors)
+// - routerNavigatedAction as the URL -> store trigger
+// - Non-dispatching effect ({ dispatch: false }) for the store -> URL direction
+//
+// NOTES FOR CONTRIBUTORS:
+// - Only routes with data: { [TODO_FILTER_ROUTE_DATA]: true } are synced (see ngrx-example.routes.ts)
+// - A valid param always wins: the store follows the URL after every navigation
+// - A missing or invalid param is replaced (replaceUrl) with the current store filter
+// - Both directions compare values first, so the two effects never loop
+// - Registered by provideNgrxDemoStore() (ngrx-demo.providers.ts) with TodoEffects
+
+import { Injectable, inject } from '@angular/core';
+import { Router } from '@angular/router';
+import { Actions, OnIdentifyEffects, createEffect, ofType } from '@ngrx/effects';
+import { routerNavigatedAction } from '@ngrx/router-store';
+import { Store } from '@ngrx/store';
+import { filter, map, tap, withLatestFrom } from 'rxjs';
+import { selectQueryParam, selectRouteData } from '../router/router.selectors';
+import * as TodoActions from './todo.actions';
+import * as TodoSelectors from './todo.selectors';
+import { TodoFilter, isTodoFilter } from './todo.state';
+
+export const TODO_FILTER_QUERY_PARAM = 'filter';
+
+// Route data flag enabling the sync on a route
+export const TODO_FILTER_ROUTE_DATA = 'syncTodoFilter';
+
+@Injectable()
+export class TodoRouterEffects implements OnIdentifyEffects {
+  private actions$ = inject(Actions);
+  private store = inject(Store);
+  private router = inject(Router);
+
+  private isSyncedRoute$ = this.store
+    .select(selectRouteData)
+    .pipe(map((data) => data[TODO_FILTER_ROUTE_DATA] === true));
+
+  private filterParam$ = this.store.select(selectQueryParam(TODO_FILTER_QUERY_PARAM));
+
+  // URL -> store: a bookmarked ?filter= is applied to the active list
+  filterFromUrl$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(routerNavigatedAction),
+      withLatestFrom(
+        this.isSyncedRoute$,
+        this.filterParam$,
+        this.store.select(TodoSelectors.selectFilter)
+      ),
+      filter(
+        ([, synced, param, current]) => synced && isTodoFilter(param) && param !== current
+      ),
+      map(([, , param]) => TodoActions.setFilter({ filter: param as TodoFilter }))
+    )
+  );
+
+  // Store -> URL: filter changes (or a list with another filter) are written to the URL
+  filterToUrl$ = createEffect(
+    () =>
+      this.actions$.pipe(
+        ofType(
+          TodoActions.setFilter,
+          TodoActions.setActiveList,
+          TodoActions.createList,
+          TodoActions.deleteListSuccess,
+          routerNavigatedAction
+        ),
+        withLatestFrom(
+          this.isSyncedRoute$,
+          this.filterParam$,
+          this.store.select(TodoSelectors.selectFilter)
+        ),
+        // After a navigation only a missing or invalid param is fixed, a valid one wins
+        filter(
+          ([action, synced, param, current]) =>
+            synced &&
+            param !== current &&
+            (action.type !== routerNavigatedAction.type || !isTodoFilter(param))
+        ),
+        tap(([action, , , current]) =>
+          this.router.navigate([], {
+            queryParams: { [TODO_FILTER_QUERY_PARAM]: current },
+            queryParamsHandling: 'merge',
+            replaceUrl: action.type === routerNavigatedAction.type,
+          })
+        )
+      ),
+    { dispatch: false }
+  );
+
+  // Several lazy routes register this class: one identity means only the first instance runs
+  ngrxOnIdentifyEffects(): string {
+    return 'TodoRouterEffects';
+  }
+}
@@ -2,7 +2,8 @@
 // SECTION: State Management - Todo
 //
 // ROLE:
-// - Define all todo-related actions (CRUD + filter)
+// - Define all todo-related actions (CRUD + details + reorder + lists + filter + sort)
+// - Define API result actions (success/failure) dispatched by TodoEffects
 // - Provide type-safe action creators with payloads
 // - Document user interactions with todo list
 //
@@ -10,14 +11,20 @@
 // - NgRx createAction with props<{ ... }>()
 // - Action naming convention: '[Feature] Action Description'
 // - Typed payloads for data-carrying actions
+// - Request / Success / Failure triplets for async flows
 //
 // NOTES FOR CONTRIBUTORS:
 // - Actions with data use props<{ key: type }>()
 // - Actions without data omit props (like clearCompleted)
 // - Keep action names descriptive and verb-based
 // - Group related actions (CRUD together, then filter)
+// - '[Todo]' actions come from the UI, '[Todo API]' actions only from effects
 
 import { createAction, props } from '@ngrx/store';
+import { Todo, TodoFilter, TodoPriority, TodoSort } from './todo.state';
+
+// Loading
+export const loadTodos = createAction('[Todo] Load Todos');
 
 // CRUD Operations
 export const addTodo = createAction(
@@ -35,10 +42,161 @@ export const deleteTodo = createAction(
   props<{ id: number }>()
 );
 
-// Filter Management
+// Details (all saved through the same PATCH request)
+export const editTodoText = createAction(
+  '[Todo] Edit Todo Text',
+  props<{ id: number; text: string }>()
+);
+
+export const setTodoPriority = createAction(
+  '[Todo] Set Todo Priority',
+  props<{ id: number; priority: TodoPriority }>()
+);
+
+export const setTodoDueDate = createAction(
+  '[Todo] Set Todo Due Date',
+  props<{ id: number; dueDate: string | null }>()
+);
+
+export const addTodoTag = createAction(
+  '[Todo] Add Todo Tag',
+  props<{ id: number; tag: string }>()
+);
+
+export const removeTodoTag = createAction(
+  '[Todo] Remove Todo Tag',
+  props<{ id: number; tag: string }>()
+);
+
+export const moveTodoToList = createAction(
+  '[Todo] Move Todo To List',
+  props<{ id: number; listId: number }>()
+);
+
+// Manual order: ids of ALL todos of the active list in their new order
+export const reorderTodos = createAction(
+  '[Todo] Reorder Todos',
+  props<{ ids: number[] }>()
+);
+
+// List Management (lists are client state, only deleteList calls the API)
+export const createList = createAction(
+  '[Todo] Create List',
+  props<{ name: string }>()
+);
+
+export const renameList = createAction(
+  '[Todo] Rename List',
+  props<{ id: number; name: string }>()
+);
+
+export const setActiveList = createAction(
+  '[Todo] Set Active List',
+  props<{ id: number }>()
+);
+
+// Deletes the list AND its todos on the server
+export const deleteList = createAction(
+  '[Todo] Delete List',
+  props<{ id: number }>()
+);
+
+// Filter Management (the status filter applies to the active list)
 export const setFilter = createAction(
   '[Todo] Set Filter',
-  props<{ filter: 'all' | 'active' | 'completed' }>()
+  props<{ filter: TodoFilter }>()
+);
+
+export const setTagFilter = createAction(
+  '[Todo] Set Tag Filter',
+  props<{ tag: string | null }>()
 );
 
 export const clearCompleted = createAction('[Todo] Clear Completed');
+
+// Sort Management
+export const setSort = createAction(
+  '[Todo] Set Sort',
+  props<{ sort: TodoSort }>()
+);
+
+// API Results (dispatched by TodoEffects)
+export const loadTodosSuccess = createAction(
+  '[Todo API] Load Todos Success',
+  props<{ todos: Todo[] }>()
+);
+
+export const loadTodosFailure = createAction(
+  '[Todo API] Load Todos Failure',
+  props<{ error: string }>()
+);
+
+export const addTodoSuccess = createAction(
+  '[Todo API] Add Todo Success',
+  props<{ todo: Todo }>()
+);
+
+export const addTodoFailure = createAction(
+  '[Todo API] Add Todo Failure',
+  props<{ error: string }>()
+);
+
+export const toggleTodoSuccess = createAction(
+  '[Todo API] Toggle Todo Success',
+  props<{ todo: Todo }>()
+);
+
+export const toggleTodoFailure = createAction(
+  '[Todo API] Toggle Todo Failure',
+  props<{ error: string }>()
+);
+
+export const deleteTodoSuccess = createAction(
+  '[Todo API] Delete Todo Success',
+  props<{ id: number }>()
+);
+
+export const deleteTodoFailure = createAction(
+  '[Todo API] Delete Todo Failure',
+  props<{ error: string }>()
+);
+
+export const clearCompletedSuccess = createAction(
+  '[Todo API] Clear Completed Success',
+  props<{ ids: number[] }>()
+);
+
+export const clearCompletedFailure = createAction(
+  '[Todo API] Clear Completed Failure',
+  props<{ error: string }>()
+);
+
+export const updateTodoSuccess = createAction(
+  '[Todo API] Update Todo Success',
+  props<{ todo: Todo }>()
+);
+
+export const updateTodoFailure = createAction(
+  '[Todo API] Update Todo Failure',
+  props<{ error: string }>()
+);
+
+export const reorderTodosSuccess = createAction(
+  '[Todo API] Reorder Todos Success',
+  props<{ todos: Todo[] }>()
+);
+
+export const reorderTodosFailure = createAction(
+  '[Todo API] Reorder Todos Failure',
+  props<{ error: string }>()
+);
+
+export const deleteListSuccess = createAction(
+  '[Todo API] Delete List Success',
+  props<{ id: number; todoIds: number[] }>()
+);
+
+export const deleteListFailure = createAction(
+  '[Todo API] Delete List Failure',
+  props<{ error: string }>()
+);
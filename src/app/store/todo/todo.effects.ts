@@ -0,0 +1,263 @@
+// COMPONENT TYPE: Store - Effects
+// SECTION: State Management - Todo
+//
+// ROLE:
+// - Run the side effects behind todo actions (HTTP calls to TodoApiService)
+// - Translate API responses into '[Todo API]' success/failure actions
+// - Keep reducers pure by moving all async work here
+//
+// PATTERNS USED:
+// - NgRx createEffect with Actions stream and ofType()
+// - Flattening operators chosen per use case (switchMap, concatMap, mergeMap, exhaustMap)
+// - catchError inside the inner observable so the effect stream never dies
+//
+// NOTES FOR CONTRIBUTORS:
+// - Always return a failure action from catchError, never let errors escape
+// - switchMap cancels stale loads, concatMap keeps creation order,
+//   mergeMap runs independent updates in parallel, exhaustMap ignores double clicks
+// - Error messages are shown to users, keep them in Italian
+// - Detail edits read the todo INSIDE concatMap, so each edit builds on the previous result
+// - Registered by provideNgrxDemoStore() (ngrx-demo.providers.ts) when a route using it loads
+
+import { Injectable, inject } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Actions, OnIdentifyEffects, createEffect, ofType } from '@ngrx/effects';
+import { Store } from '@ngrx/store';
+import {
+  catchError,
+  concatMap,
+  exhaustMap,
+  map,
+  mergeMap,
+  of,
+  switchMap,
+  take,
+  throwError,
+  withLatestFrom,
+} from 'rxjs';
+import { TodoApiService } from '../../../services/todo-api.service';
+import * as TodoActions from './todo.actions';
+import * as TodoSelectors from './todo.selectors';
+import { Todo } from './todo.state';
+
+// Build a user-facing message from an HTTP error
+function toErrorMessage(prefix: string, err: HttpErrorResponse): string {
+  return `${prefix}: ${err.statusText || err.message}`;
+}
+
+type TodoDetailAction = ReturnType<
+  | typeof TodoActions.editTodoText
+  | typeof TodoActions.setTodoPriority
+  | typeof TodoActions.setTodoDueDate
+  | typeof TodoActions.addTodoTag
+  | typeof TodoActions.removeTodoTag
+  | typeof TodoActions.moveTodoToList
+>;
+
+// Translate a detail action into the PATCH body, based on the current todo
+function toTodoChanges(action: TodoDetailAction, todo: Todo): Partial<Omit<Todo, 'id'>> {
+  switch (action.type) {
+    case TodoActions.editTodoText.type:
+      return { text: action.text.trim() };
+    case TodoActions.setTodoPriority.type:
+      return { priority: action.priority };
+    case TodoActions.setTodoDueDate.type:
+      return { dueDate: action.dueDate };
+    case TodoActions.addTodoTag.type:
+      return { tags: todo.tags.includes(action.tag) ? todo.tags : [...todo.tags, action.tag] };
+    case TodoActions.removeTodoTag.type:
+      return { tags: todo.tags.filter((tag) => tag !== action.tag) };
+    case TodoActions.moveTodoToList.type:
+      return { listId: action.listId };
+  }
+}
+
+@Injectable()
+export class TodoEffects implements OnIdentifyEffects {
+  private actions$ = inject(Actions);
+  private store = inject(Store);
+  private todoApi = inject(TodoApiService);
+
+  loadTodos$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TodoActions.loadTodos),
+      switchMap(() =>
+        this.todoApi.getTodos().pipe(
+          map((todos) => TodoActions.loadTodosSuccess({ todos })),
+          catchError((err) =>
+            of(
+              TodoActions.loadTodosFailure({
+                error: toErrorMessage('Errore nel caricamento dei todo', err),
+              })
+            )
+          )
+        )
+      )
+    )
+  );
+
+  addTodo$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TodoActions.addTodo),
+      // The todo goes to the list that was active when the user added it
+      withLatestFrom(this.store.select(TodoSelectors.selectActiveListId)),
+      concatMap(([{ text }, listId]) =>
+        this.todoApi.addTodo(text, listId).pipe(
+          map((todo) => TodoActions.addTodoSuccess({ todo })),
+          catchError((err) =>
+            of(
+              TodoActions.addTodoFailure({
+                error: toErrorMessage('Errore nella creazione del todo', err),
+              })
+            )
+          )
+        )
+      )
+    )
+  );
+
+  // The current completed flag is read from the store to send the toggled value
+  toggleTodo$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TodoActions.toggleTodo),
+      withLatestFrom(this.store.select(TodoSelectors.selectTodoEntities)),
+      mergeMap(([{ id }, entities]) => {
+        const completed = !entities[id]?.completed;
+        return this.todoApi.updateTodo(id, { completed }).pipe(
+          map((todo) => TodoActions.toggleTodoSuccess({ todo })),
+          catchError((err) =>
+            of(
+              TodoActions.toggleTodoFailure({
+                error: toErrorMessage("Errore nell'aggiornamento del todo", err),
+              })
+            )
+          )
+        );
+      })
+    )
+  );
+
+  // concatMap + reading the todo only when the request starts: two quick tag edits
+  // never overwrite each other with stale data
+  updateTodo$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(
+        TodoActions.editTodoText,
+        TodoActions.setTodoPriority,
+        TodoActions.setTodoDueDate,
+        TodoActions.addTodoTag,
+        TodoActions.removeTodoTag,
+        TodoActions.moveTodoToList
+      ),
+      concatMap((action) =>
+        this.store.select(TodoSelectors.selectTodoById(action.id)).pipe(
+          take(1),
+          switchMap((todo) =>
+            todo
+              ? this.todoApi.updateTodo(action.id, toTodoChanges(action, todo))
+              : throwError(() => new HttpErrorResponse({ statusText: 'Todo non trovato' }))
+          ),
+          map((todo) => TodoActions.updateTodoSuccess({ todo })),
+          catchError((err) =>
+            of(
+              TodoActions.updateTodoFailure({
+                error: toErrorMessage("Errore nell'aggiornamento del todo", err),
+              })
+            )
+          )
+        )
+      )
+    )
+  );
+
+  // switchMap: only the latest order matters, older pending saves are cancelled
+  reorderTodos$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TodoActions.reorderTodos),
+      switchMap(({ ids }) =>
+        this.todoApi.reorderTodos(ids).pipe(
+          map((todos) => TodoActions.reorderTodosSuccess({ todos })),
+          catchError((err) =>
+            of(
+              TodoActions.reorderTodosFailure({
+                error: toErrorMessage("Errore nel salvataggio dell'ordine", err),
+              })
+            )
+          )
+        )
+      )
+    )
+  );
+
+  // The reorder was applied optimistically: reload to get back the server order
+  reloadAfterReorderFailure$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TodoActions.reorderTodosFailure),
+      map(() => TodoActions.loadTodos())
+    )
+  );
+
+  deleteTodo$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TodoActions.deleteTodo),
+      mergeMap(({ id }) =>
+        this.todoApi.deleteTodo(id).pipe(
+          map(() => TodoActions.deleteTodoSuccess({ id })),
+          catchError((err) =>
+            of(
+              TodoActions.deleteTodoFailure({
+                error: toErrorMessage("Errore nell'eliminazione del todo", err),
+              })
+            )
+          )
+        )
+      )
+    )
+  );
+
+  // The last list cannot be deleted: the demo always needs an active list
+  deleteList$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TodoActions.deleteList),
+      withLatestFrom(this.store.select(TodoSelectors.selectTodoListTotal)),
+      mergeMap(([{ id }, listCount]) =>
+        listCount <= 1
+          ? of(TodoActions.deleteListFailure({ error: "Non puoi eliminare l'ultima lista" }))
+          : this.todoApi.deleteTodosInList(id).pipe(
+              map((todoIds) => TodoActions.deleteListSuccess({ id, todoIds })),
+              catchError((err) =>
+                of(
+                  TodoActions.deleteListFailure({
+                    error: toErrorMessage("Errore nell'eliminazione della lista", err),
+                  })
+                )
+              )
+            )
+      )
+    )
+  );
+
+  clearCompleted$ = createEffect(() =>
+    this.actions$.pipe(
+      ofType(TodoActions.clearCompleted),
+      withLatestFrom(this.store.select(TodoSelectors.selectActiveListId)),
+      exhaustMap(([, listId]) =>
+        this.todoApi.deleteCompleted(listId).pipe(
+          map((ids) => TodoActions.clearCompletedSuccess({ ids })),
+          catchError((err) =>
+            of(
+              TodoActions.clearCompletedFailure({
+                error: toErrorMessage("Errore nell'eliminazione dei completati", err),
+              })
+            )
+          )
+        )
+      )
+    )
+  );
+
+  // Several lazy routes register this class: one identity means only the first instance runs
+  ngrxOnIdentifyEffects(): string {
+    return 'TodoEffects';
+  }
+}
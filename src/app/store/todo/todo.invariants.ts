@@ -0,0 +1,98 @@
+// COMPONENT TYPE: Store - Invariants
+// SECTION: State Management - Todo
+//
+// ROLE:
+// - Describe the rules every TodoState must respect (entity collections, list references,
+//   normalized tags)
+// - Catch reducer bugs in dev mode (see invariants.meta-reducer.ts)
+//
+// PATTERNS USED:
+// - StoreInvariant objects with pure checks
+// - One shared check for both entity collections (todos and lists)
+//
+// NOTES FOR CONTRIBUTORS:
+// - Add a rule here whenever the reducer starts guaranteeing something new
+// - Messages are developer-facing (console only), keep them in English
+
+import { EntityState } from '@ngrx/entity';
+import { StoreInvariant } from '../invariants/store-invariant';
+import { normalizeTag } from './todo.state';
+
+// ids and entities must describe the same items, without duplicates
+function checkEntityCollection<T extends { id: number }>(
+  label: string,
+  collection: EntityState<T>
+): string[] {
+  const problems: string[] = [];
+  const ids = collection.ids as number[];
+  const unique = new Set(ids);
+  if (unique.size !== ids.length) {
+    problems.push(`${label}: duplicate ids in [${ids.join(', ')}]`);
+  }
+  for (const id of ids) {
+    const entity = collection.entities[id];
+    if (!entity) {
+      problems.push(`${label}: id ${id} has no entity`);
+    } else if (entity.id !== id) {
+      problems.push(`${label}: entity stored under ${id} has id ${entity.id}`);
+    }
+  }
+  for (const key of Object.keys(collection.entities)) {
+    if (!unique.has(Number(key))) {
+      problems.push(`${label}: entity ${key} is missing from ids`);
+    }
+  }
+  return problems;
+}
+
+export const todoInvariants: StoreInvariant[] = [
+  {
+    name: 'todo.entities-match-ids',
+    check: ({ todo }) =>
+      todo
+        ? [...checkEntityCollection('todos', todo), ...checkEntityCollection('lists', todo.lists)]
+        : [],
+  },
+  {
+    // The demo always needs an active list, and list ids come from a monotonic sequence
+    name: 'todo.active-list-exists',
+    check: ({ todo }) => {
+      if (!todo) return [];
+      const { ids, entities, activeId, nextId } = todo.lists;
+      const problems: string[] = [];
+      if (!entities[activeId]) {
+        problems.push(`active list ${activeId} does not exist`);
+      }
+      const stale = (ids as number[]).filter((id) => id >= nextId);
+      if (stale.length) {
+        problems.push(`lists.nextId ${nextId} is not greater than list ids [${stale.join(', ')}]`);
+      }
+      return problems;
+    },
+  },
+  {
+    name: 'todo.list-references',
+    check: ({ todo }) => {
+      if (!todo) return [];
+      return Object.values(todo.entities).flatMap((item) =>
+        item && !todo.lists.entities[item.listId]
+          ? [`todo ${item.id} belongs to missing list ${item.listId}`]
+          : []
+      );
+    },
+  },
+  {
+    // Todo.tags: normalized with normalizeTag() (never empty), no duplicates
+    name: 'todo.tags-normalized',
+    check: ({ todo }) => {
+      if (!todo) return [];
+      return Object.values(todo.entities).flatMap((item) => {
+        if (!item) return [];
+        const invalid = item.tags.filter(
+          (tag, index) => !tag || tag !== normalizeTag(tag) || item.tags.indexOf(tag) !== index
+        );
+        return invalid.length ? [`todo ${item.id} has invalid tags [${invalid.join(', ')}]`] : [];
+      });
+    },
+  },
+];
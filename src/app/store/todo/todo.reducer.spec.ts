@@ -0,0 +1,122 @@
+import * as TodoActions from './todo.actions';
+import { todoReducer } from './todo.reducer';
+import {
+  selectActiveList,
+  selectActiveListTodos,
+  selectFilter,
+  selectFilteredTodos,
+  selectTodoCountByList,
+} from './todo.selectors';
+import { TODO_FEATURE_KEY, Todo, TodoState, initialTodoState, todoAdapter } from './todo.state';
+
+function todo(id: number, listId: number, completed = false): Todo {
+  return {
+    id,
+    text: `Todo ${id}`,
+    completed,
+    priority: 'medium',
+    dueDate: null,
+    tags: [],
+    order: id,
+    listId,
+  };
+}
+
+// Apply actions in order, starting from the initial state with some todos loaded
+function reduce(...actions: Parameters<typeof todoReducer>[1][]): TodoState {
+  return actions.reduce(
+    (state, action) => todoReducer(state, action),
+    todoAdapter.setAll([todo(1, 1), todo(2, 1, true)], initialTodoState)
+  );
+}
+
+// Selectors read the feature slice from the root state
+const root = (state: TodoState) => ({ [TODO_FEATURE_KEY]: state });
+
+describe('todoReducer lists', () => {
+  it('should start with the default list active', () => {
+    const state = reduce();
+    expect(state.lists.ids).toEqual([1]);
+    expect(state.lists.activeId).toBe(1);
+    expect(selectActiveList(root(state))?.name).toBe('La mia lista');
+  });
+
+  it('should create lists with increasing ids and switch to the new one', () => {
+    const state = reduce(
+      TodoActions.createList({ name: 'Lavoro' }),
+      TodoActions.createList({ name: 'Casa' })
+    );
+    expect(state.lists.ids).toEqual([1, 2, 3]);
+    expect(state.lists.entities[3]).toEqual({ id: 3, name: 'Casa', filter: 'all' });
+    expect(state.lists.activeId).toBe(3);
+    expect(state.lists.nextId).toBe(4);
+  });
+
+  it('should rename a list', () => {
+    const state = reduce(TodoActions.renameList({ id: 1, name: 'Personale' }));
+    expect(state.lists.entities[1]?.name).toBe('Personale');
+  });
+
+  it('should ignore switching to an unknown list', () => {
+    const before = reduce(TodoActions.createList({ name: 'Lavoro' }));
+    expect(todoReducer(before, TodoActions.setActiveList({ id: 42 }))).toBe(before);
+    expect(todoReducer(before, TodoActions.setActiveList({ id: 1 })).lists.activeId).toBe(1);
+  });
+
+  it('should keep a status filter per list', () => {
+    const state = reduce(
+      TodoActions.setFilter({ filter: 'completed' }),
+      TodoActions.createList({ name: 'Lavoro' }),
+      TodoActions.setFilter({ filter: 'active' })
+    );
+    expect(state.lists.entities[1]?.filter).toBe('completed');
+    expect(selectFilter(root(state))).toBe('active');
+    const back = todoReducer(state, TodoActions.setActiveList({ id: 1 }));
+    expect(selectFilter(root(back))).toBe('completed');
+  });
+
+  it('should remove a deleted list with its todos and fall back to the first list', () => {
+    const withWork = reduce(
+      TodoActions.createList({ name: 'Lavoro' }),
+      TodoActions.addTodoSuccess({ todo: todo(3, 2) })
+    );
+    const state = todoReducer(withWork, TodoActions.deleteListSuccess({ id: 2, todoIds: [3] }));
+    expect(state.lists.ids).toEqual([1]);
+    expect(state.lists.activeId).toBe(1);
+    expect(state.ids).toEqual([1, 2]);
+    expect(state.loading).toBe(false);
+  });
+
+  it('should keep the active list when another one is deleted', () => {
+    const state = reduce(
+      TodoActions.createList({ name: 'Lavoro' }),
+      TodoActions.deleteListSuccess({ id: 1, todoIds: [1, 2] })
+    );
+    expect(state.lists.activeId).toBe(2);
+    expect(state.ids).toEqual([]);
+  });
+});
+
+describe('todo list selectors', () => {
+  const state = reduce(
+    TodoActions.createList({ name: 'Lavoro' }),
+    TodoActions.addTodoSuccess({ todo: todo(3, 2) }),
+    TodoActions.addTodoSuccess({ todo: todo(4, 2, true) }),
+    TodoActions.addTodoSuccess({ todo: todo(5, 2) })
+  );
+
+  it('should scope todos to the active list', () => {
+    expect(selectActiveListTodos(root(state)).map((item) => item.id)).toEqual([3, 4, 5]);
+    const first = todoReducer(state, TodoActions.setActiveList({ id: 1 }));
+    expect(selectActiveListTodos(root(first)).map((item) => item.id)).toEqual([1, 2]);
+  });
+
+  it('should count todos per list', () => {
+    expect(selectTodoCountByList(root(state))).toEqual({ 1: 2, 2: 3 });
+  });
+
+  it('should apply the filter of the active list', () => {
+    const active = todoReducer(state, TodoActions.setFilter({ filter: 'active' }));
+    expect(selectFilteredTodos(root(active)).map((item) => item.id)).toEqual([3, 5]);
+  });
+});
@@ -2,60 +2,140 @@
 // SECTION: State Management - Todo
 //
 // ROLE:
-// - Handle todo CRUD operations immutably
-// - Manage filter state changes
-// - Demonstrate array manipulation patterns (map, filter, spread)
+// - Apply todo API results (from TodoEffects) to the entity collection
+// - Track loading and error flags for pending requests
+// - Manage filter, tag filter and sort state changes
+// - Manage named lists (create, rename, switch, delete) in the nested lists collection
+// - Apply manual reordering immediately (optimistic), see reorderTodos below
 //
 // PATTERNS USED:
-// - Immutable array operations (map, filter, spread)
-// - Date.now() for simple unique IDs (use UUID in production)
-// - Object spread for shallow copies
+// - EntityAdapter methods (setAll, addOne, upsertOne, upsertMany, updateMany, removeOne,
+//   removeMany)
+// - O(1) lookups by id instead of linear map/filter scans
+// - Pessimistic updates: todos change only on '[Todo API] ... Success'
+//   (except reorder: dragged items must not snap back while the request is pending)
 // - Pattern matching with on() handlers
 //
 // NOTES FOR CONTRIBUTORS:
-// - NEVER mutate arrays directly, use map/filter/spread
-// - map() for updates, filter() for deletions, [...array, item] for additions
-// - Use Date.now() only for demos (use proper ID generation in production)
+// - NEVER touch ids/entities directly, use todoAdapter helpers (they stay immutable)
+// - Request actions only flip loading on, the HTTP call lives in todo.effects.ts
+// - Todo ids are generated by the backend, never in the reducer
+// - List ids come from state.lists.nextId: lists never reach the backend
 // - Each handler returns new state object
 
 import { createReducer, on } from '@ngrx/store';
-import { TodoState, initialTodoState } from './todo.state';
+import {
+  TodoListsState,
+  TodoState,
+  initialTodoState,
+  todoAdapter,
+  todoListAdapter,
+} from './todo.state';
 import * as TodoActions from './todo.actions';
 
+// Apply a change to the nested lists collection
+function withLists(state: TodoState, lists: TodoListsState): TodoState {
+  return { ...state, lists };
+}
+
 export const todoReducer = createReducer(
   initialTodoState,
-  // Add new todo to end of array
-  on(TodoActions.addTodo, (state, { text }) => ({
-    ...state,
-    todos: [
-      ...state.todos,
-      {
-        id: Date.now(), // Simple ID generation for demo
-        text,
-        completed: false,
-      },
-    ],
-  })),
-  // Toggle completed status using map
-  on(TodoActions.toggleTodo, (state, { id }) => ({
-    ...state,
-    todos: state.todos.map((todo) =>
-      todo.id === id ? { ...todo, completed: !todo.completed } : todo
-    ),
-  })),
-  // Remove todo using filter
-  on(TodoActions.deleteTodo, (state, { id }) => ({
-    ...state,
-    todos: state.todos.filter((todo) => todo.id !== id),
-  })),
-  // Update filter state
-  on(TodoActions.setFilter, (state, { filter }) => ({
+  // Requests: mark as loading and clear the previous error
+  on(
+    TodoActions.loadTodos,
+    TodoActions.addTodo,
+    TodoActions.toggleTodo,
+    TodoActions.deleteTodo,
+    TodoActions.clearCompleted,
+    TodoActions.editTodoText,
+    TodoActions.setTodoPriority,
+    TodoActions.setTodoDueDate,
+    TodoActions.addTodoTag,
+    TodoActions.removeTodoTag,
+    TodoActions.moveTodoToList,
+    TodoActions.deleteList,
+    (state): TodoState => ({ ...state, loading: true, error: null })
+  ),
+  // Optimistic: apply the new manual order now, TodoEffects reloads todos if saving fails
+  on(TodoActions.reorderTodos, (state, { ids }) =>
+    todoAdapter.updateMany(
+      ids.map((id, order) => ({ id, changes: { order } })),
+      { ...state, loading: true, error: null }
+    )
+  ),
+  // Replace the whole collection with the server response
+  on(TodoActions.loadTodosSuccess, (state, { todos }) =>
+    todoAdapter.setAll(todos, { ...state, loading: false })
+  ),
+  // Add created todo
+  on(TodoActions.addTodoSuccess, (state, { todo }) =>
+    todoAdapter.addOne(todo, { ...state, loading: false })
+  ),
+  // Replace updated todo with the server version
+  on(TodoActions.toggleTodoSuccess, TodoActions.updateTodoSuccess, (state, { todo }) =>
+    todoAdapter.upsertOne(todo, { ...state, loading: false })
+  ),
+  // Confirm the manual order with the server version
+  on(TodoActions.reorderTodosSuccess, (state, { todos }) =>
+    todoAdapter.upsertMany(todos, { ...state, loading: false })
+  ),
+  // Remove todo by id
+  on(TodoActions.deleteTodoSuccess, (state, { id }) =>
+    todoAdapter.removeOne(id, { ...state, loading: false })
+  ),
+  // Remove all todos deleted by the server
+  on(TodoActions.clearCompletedSuccess, (state, { ids }) =>
+    todoAdapter.removeMany(ids, { ...state, loading: false })
+  ),
+  // Failures: stop loading and keep the message for the UI
+  on(
+    TodoActions.loadTodosFailure,
+    TodoActions.addTodoFailure,
+    TodoActions.toggleTodoFailure,
+    TodoActions.deleteTodoFailure,
+    TodoActions.clearCompletedFailure,
+    TodoActions.updateTodoFailure,
+    TodoActions.reorderTodosFailure,
+    TodoActions.deleteListFailure,
+    (state, { error }): TodoState => ({ ...state, loading: false, error })
+  ),
+  // Remove the list and the todos deleted with it, then fall back to another list
+  on(TodoActions.deleteListSuccess, (state, { id, todoIds }) => {
+    const lists = todoListAdapter.removeOne(id, state.lists);
+    const activeId = lists.activeId === id ? (lists.ids[0] as number) : lists.activeId;
+    return todoAdapter.removeMany(todoIds, {
+      ...withLists(state, { ...lists, activeId }),
+      loading: false,
+    });
+  }),
+  // Create a list and switch to it
+  on(TodoActions.createList, (state, { name }) => {
+    const { nextId } = state.lists;
+    const lists = todoListAdapter.addOne({ id: nextId, name, filter: 'all' }, state.lists);
+    return withLists(state, { ...lists, activeId: nextId, nextId: nextId + 1 });
+  }),
+  on(TodoActions.renameList, (state, { id, name }) =>
+    withLists(state, todoListAdapter.updateOne({ id, changes: { name } }, state.lists))
+  ),
+  // Unknown ids are ignored, so activeId always points to an existing list
+  on(TodoActions.setActiveList, (state, { id }) =>
+    state.lists.entities[id] ? withLists(state, { ...state.lists, activeId: id }) : state
+  ),
+  // Update the status filter of the active list
+  on(TodoActions.setFilter, (state, { filter }) =>
+    withLists(
+      state,
+      todoListAdapter.updateOne({ id: state.lists.activeId, changes: { filter } }, state.lists)
+    )
+  ),
+  // Update tag filter (null = any tag)
+  on(TodoActions.setTagFilter, (state, { tag }) => ({
     ...state,
-    filter,
+    tagFilter: tag,
   })),
-  // Remove all completed todos
-  on(TodoActions.clearCompleted, (state) => ({
+  // Update sort order (entities are untouched, selectors re-sort)
+  on(TodoActions.setSort, (state, { sort }) => ({
     ...state,
-    todos: state.todos.filter((todo) => !todo.completed),
+    sort,
   }))
 );
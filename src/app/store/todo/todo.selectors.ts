@@ -2,66 +2,183 @@
 // SECTION: State Management - Todo
 //
 // ROLE:
-// - Provide memoized access to todo state slices
-// - Compute derived values (filtered todos, counts)
+// - Provide memoized access to the todo entity collection
+// - Compute derived values (sorted and filtered todos, counts, tags, overdue todos)
 // - Compose selectors for complex queries
+// - Scope list views (sorting, filters, counts, tags) to the active list
 // - Demonstrate selector composition pattern
 //
 // PATTERNS USED:
 // - Feature selector for root access
-// - Simple selectors for direct state properties
+// - EntityAdapter.getSelectors() for ids, entities, all and total
 // - Derived selectors composing multiple inputs
 // - Memoization prevents unnecessary recalculations
 //
 // NOTES FOR CONTRIBUTORS:
 // - Derived selectors (like selectFilteredTodos) only recompute when inputs change
-// - Compose selectors to build complex queries from simple ones
-// - Keep selector logic pure (no side effects)
-// - Use selectors for filtering, sorting, aggregation
+// - Sorting is done once in selectSortedTodos, filters build on top of it
+// - selectAllTodos / selectTodoTotal cover every list, selectActiveListTodos only the active one
+// - Use selectTodoEntities / selectTodoById for lookups, never Array.find()
+// - Keep selector logic pure (no side effects): "today" is passed in, never read from Date here
 
 import { createFeatureSelector, createSelector } from '@ngrx/store';
-import { TodoState } from './todo.state';
+import {
+  Todo,
+  TODO_FEATURE_KEY,
+  TodoState,
+  isTodoOverdue,
+  TodoList,
+  todoAdapter,
+  todoListAdapter,
+  todoSortComparers,
+} from './todo.state';
 
 // Feature selector: root access to todo state
-export const selectTodoState = createFeatureSelector<TodoState>('todo');
+export const selectTodoState = createFeatureSelector<TodoState>(TODO_FEATURE_KEY);
+
+// Entity selectors generated by the adapter
+const { selectIds, selectEntities, selectAll, selectTotal } =
+  todoAdapter.getSelectors(selectTodoState);
+
+export const selectTodoIds = selectIds;
+export const selectTodoEntities = selectEntities;
+export const selectTodoTotal = selectTotal;
 
 // Base selectors: extract direct properties
-export const selectAllTodos = createSelector(
+// selectAllTodos keeps insertion order, use selectSortedTodos for display
+export const selectAllTodos = selectAll;
+
+// Lists: nested entity collection with its own adapter selectors
+export const selectTodoListsState = createSelector(
   selectTodoState,
-  (state) => state.todos
+  (state) => state.lists
+);
+
+const listSelectors = todoListAdapter.getSelectors(selectTodoListsState);
+
+export const selectAllTodoLists = listSelectors.selectAll;
+export const selectTodoListEntities = listSelectors.selectEntities;
+export const selectTodoListTotal = listSelectors.selectTotal;
+
+export const selectActiveListId = createSelector(
+  selectTodoListsState,
+  (lists) => lists.activeId
 );
 
+export const selectActiveList = createSelector(
+  selectTodoListEntities,
+  selectActiveListId,
+  (entities, id): TodoList | undefined => entities[id]
+);
+
+// Status filter of the active list
 export const selectFilter = createSelector(
+  selectActiveList,
+  (list) => list?.filter ?? 'all'
+);
+
+export const selectTagFilter = createSelector(
   selectTodoState,
-  (state) => state.filter
+  (state) => state.tagFilter
 );
 
-// Derived selector: filter todos based on current filter
-// Composes two selectors (todos + filter)
-export const selectFilteredTodos = createSelector(
+export const selectSort = createSelector(
+  selectTodoState,
+  (state) => state.sort
+);
+
+// Request status selectors: driven by TodoEffects result actions
+export const selectTodoLoading = createSelector(
+  selectTodoState,
+  (state) => state.loading
+);
+
+export const selectTodoError = createSelector(
+  selectTodoState,
+  (state) => state.error
+);
+
+// Selector factory: O(1) lookup of a single todo by id
+export const selectTodoById = (id: number) =>
+  createSelector(selectTodoEntities, (entities): Todo | undefined => entities[id]);
+
+// Derived selector: todos of the active list, in insertion order
+export const selectActiveListTodos = createSelector(
   selectAllTodos,
+  selectActiveListId,
+  (todos, listId) => todos.filter((todo) => todo.listId === listId)
+);
+
+export const selectActiveListTodoCount = createSelector(
+  selectActiveListTodos,
+  (todos) => todos.length
+);
+
+// Number of todos per list id (for list tabs)
+export const selectTodoCountByList = createSelector(selectAllTodos, (todos) => {
+  const counts: Partial<Record<number, number>> = {};
+  for (const todo of todos) {
+    counts[todo.listId] = (counts[todo.listId] ?? 0) + 1;
+  }
+  return counts;
+});
+
+// Derived selector: todos of the active list ordered by the current sort comparer
+export const selectSortedTodos = createSelector(
+  selectActiveListTodos,
+  selectSort,
+  (todos, sort) => [...todos].sort(todoSortComparers[sort])
+);
+
+// Derived selector: filter sorted todos based on current status filter and tag filter
+// Composes three selectors (sorted todos + filter + tag filter)
+export const selectFilteredTodos = createSelector(
+  selectSortedTodos,
   selectFilter,
-  (todos, filter) => {
+  selectTagFilter,
+  (todos, filter, tagFilter) => {
+    const byTag = tagFilter === null ? todos : todos.filter((t) => t.tags.includes(tagFilter));
     switch (filter) {
       case 'active':
-        return todos.filter((t) => !t.completed);
+        return byTag.filter((t) => !t.completed);
       case 'completed':
-        return todos.filter((t) => t.completed);
+        return byTag.filter((t) => t.completed);
       default:
-        return todos;
+        return byTag;
     }
   }
 );
 
-// Computed selectors: aggregate values
-export const selectActiveTodosCount = createSelector(
-  selectAllTodos,
-  (todos) => todos.filter((t) => !t.completed).length
+// Ids of the active list's todos in manual order: the base list for drag-and-drop reordering
+export const selectManualOrderIds = createSelector(selectActiveListTodos, (todos) =>
+  [...todos].sort(todoSortComparers.manual).map((todo) => todo.id)
 );
 
-export const selectCompletedTodosCount = createSelector(
-  selectAllTodos,
-  (todos) => todos.filter((t) => t.completed).length
+// Every tag used by at least one todo of the active list, alphabetically
+export const selectAllTags = createSelector(selectActiveListTodos, (todos) =>
+  [...new Set(todos.flatMap((todo) => todo.tags))].sort()
+);
+
+// Selector factory: overdue todos of the active list relative to a 'YYYY-MM-DD' date
+export const selectOverdueCount = (today: string) =>
+  createSelector(selectActiveListTodos, (todos) =>
+    todos.reduce((count, todo) => count + Number(isTodoOverdue(todo, today)), 0)
+  );
+
+// Computed selectors: aggregate values for the active list
+// Completed count is a single pass, active count derives from it
+export const selectCompletedTodosCount = createSelector(selectActiveListTodos, (todos) => {
+  let count = 0;
+  for (const todo of todos) {
+    if (todo.completed) count++;
+  }
+  return count;
+});
+
+export const selectActiveTodosCount = createSelector(
+  selectActiveListTodoCount,
+  selectCompletedTodosCount,
+  (total, completed) => total - completed
 );
 
 export const selectTodoStateFull = createSelector(
@@ -2,37 +2,138 @@
 // SECTION: State Management - Todo
 //
 // ROLE:
-// - Define todo feature state shape with entities and filter
-// - Provide initial state with example todos
+// - Define todo feature state shape as a normalized entity collection
+// - Track async request status (loading, error) for the todo API
+// - Define the available sort orders and their comparers
+// - Define todo details (priority, due date, tags, manual order) and their helpers
+// - Define named todo lists, each with its own status filter
 // - Serve as single source of truth for todo structure
 //
 // PATTERNS USED:
-// - Entity interface (Todo) for typed array items
-// - State interface with entities array and UI state (filter)
-// - Exported initial state with demo data
+// - @ngrx/entity: EntityState<Todo> (ids array + entities dictionary)
+// - EntityAdapter shared by reducer (CRUD helpers) and selectors (getSelectors)
+// - Request status flags driven by effect result actions
+// - Comparer map keyed by a serializable sort key
+// - Nested EntityState for lists (second adapter: todoListAdapter)
 //
 // NOTES FOR CONTRIBUTORS:
 // - Keep Todo interface simple and serializable
-// - Filter type is union for type safety
-// - Initial todos are for demonstration purposes
-// - Consider adding createdAt timestamp for real apps
+// - Never read or write ids/entities by hand, always go through todoAdapter
+// - The adapter keeps insertion order; sorting happens in selectors via todoSortComparers
+// - Add a new sort order by extending TodoSort and todoSortComparers together
+// - Todos start empty: they are loaded from TodoApiService by TodoEffects
+// - Due dates are local 'YYYY-MM-DD' strings: they compare correctly as plain strings
+// - Lists are client state (persisted by the persistence meta-reducer), todos only store listId
+
+import { Comparer, EntityAdapter, EntityState, createEntityAdapter } from '@ngrx/entity';
+
+export type TodoPriority = 'low' | 'medium' | 'high';
 
 export interface Todo {
   id: number;
   text: string;
   completed: boolean;
+  priority: TodoPriority;
+  dueDate: string | null; // 'YYYY-MM-DD', null = no due date
+  tags: string[]; // Normalized with normalizeTag(), no duplicates
+  order: number; // Position in the manual sort, assigned by the backend
+  listId: number; // TodoList the todo belongs to
 }
 
-export interface TodoState {
-  todos: Todo[];
-  filter: 'all' | 'active' | 'completed';
+export type TodoFilter = 'all' | 'active' | 'completed';
+
+export const TODO_FILTERS: readonly TodoFilter[] = ['all', 'active', 'completed'];
+
+// Type guard for untrusted values (e.g. the ?filter= query param)
+export function isTodoFilter(value: unknown): value is TodoFilter {
+  return TODO_FILTERS.includes(value as TodoFilter);
+}
+
+export interface TodoList {
+  id: number;
+  name: string;
+  filter: TodoFilter; // Status filter, kept per list
 }
 
-export const initialTodoState: TodoState = {
-  todos: [
-    { id: 1, text: 'Learn NgRx', completed: false },
-    { id: 2, text: 'Create a store', completed: true },
-    { id: 3, text: 'Implement actions', completed: false },
-  ],
-  filter: 'all',
+// List created on first run: it can be renamed but there is always at least one list
+export const DEFAULT_TODO_LIST_ID = 1;
+
+export type TodoSort = 'created' | 'text' | 'status' | 'priority' | 'dueDate' | 'manual';
+
+// Lower rank = more important
+export const todoPriorityRank: Record<TodoPriority, number> = {
+  high: 0,
+  medium: 1,
+  low: 2,
+};
+
+// PATTERN: Configurable sort comparers
+// PURPOSE:
+// - Store keeps only the serializable key (state.sort), never a function
+// - Selectors look up the comparer, so changing order never touches entities
+// - Ids grow monotonically, so sorting by id equals creation order
+export const todoSortComparers: Record<TodoSort, Comparer<Todo>> = {
+  created: (a, b) => a.id - b.id,
+  text: (a, b) => a.text.localeCompare(b.text) || a.id - b.id,
+  status: (a, b) => Number(a.completed) - Number(b.completed) || a.id - b.id,
+  priority: (a, b) => todoPriorityRank[a.priority] - todoPriorityRank[b.priority] || a.id - b.id,
+  // Todos without a due date go last
+  dueDate: (a, b) =>
+    (a.dueDate ?? '\uffff').localeCompare(b.dueDate ?? '\uffff') || a.id - b.id,
+  manual: (a, b) => a.order - b.order || a.id - b.id,
 };
+
+export const todoAdapter: EntityAdapter<Todo> = createEntityAdapter<Todo>({
+  // false = keep insertion order: O(1) adds instead of re-sorting on every write
+  sortComparer: false,
+});
+
+export const todoListAdapter: EntityAdapter<TodoList> = createEntityAdapter<TodoList>({
+  sortComparer: false,
+});
+
+export interface TodoListsState extends EntityState<TodoList> {
+  activeId: number; // List shown by the demo, every list-aware selector reads it
+  nextId: number; // Monotonic id sequence (lists are created client side)
+}
+
+// Key of the lazily registered feature slice (provideState in ngrx-demo.providers.ts)
+export const TODO_FEATURE_KEY = 'todo';
+
+export interface TodoState extends EntityState<Todo> {
+  lists: TodoListsState;
+  tagFilter: string | null; // Only todos with this tag are shown, null = any tag
+  sort: TodoSort; // Key into todoSortComparers
+  loading: boolean; // True while a request to the todo API is pending
+  error: string | null; // Last API error message, cleared on the next request
+}
+
+export const initialTodoListsState: TodoListsState = todoListAdapter.setOne(
+  { id: DEFAULT_TODO_LIST_ID, name: 'La mia lista', filter: 'all' },
+  todoListAdapter.getInitialState({ activeId: DEFAULT_TODO_LIST_ID, nextId: 2 })
+);
+
+export const initialTodoState: TodoState = todoAdapter.getInitialState({
+  lists: initialTodoListsState,
+  tagFilter: null,
+  sort: 'created',
+  loading: false,
+  error: null,
+});
+
+// Tags are case-insensitive and never contain surrounding spaces or a leading '#'
+export function normalizeTag(tag: string): string {
+  return tag.trim().replace(/^#+/, '').toLowerCase();
+}
+
+// Local calendar date as 'YYYY-MM-DD' (toISOString() would use UTC)
+export function toIsoDate(date: Date): string {
+  const month = String(date.getMonth() + 1).padStart(2, '0');
+  const day = String(date.getDate()).padStart(2, '0');
+  return `${date.getFullYear()}-${month}-${day}`;
+}
+
+// A todo is overdue when it is still open and its due date is before today
+export function isTodoOverdue(todo: Todo, today: string): boolean {
+  return !todo.completed && todo.dueDate !== null && todo.dueDate < today;
+}
@@ -0,0 +1,20 @@
+// COMPONENT TYPE: Store - Actions
+// SECTION: State Management - Undo/Redo
+//
+// ROLE:
+// - Define history navigation actions (undo, redo)
+// - Define action to drop the recorded history
+//
+// PATTERNS USED:
+// - Simple actions without payload
+// - Actions handled by a meta-reducer instead of a feature reducer
+//
+// NOTES FOR CONTRIBUTORS:
+// - These actions are interpreted by undoRedoMetaReducer before any feature reducer runs
+// - Feature reducers may still listen to them (e.g. for logging)
+
+import { createAction } from '@ngrx/store';
+
+export const undo = createAction('[Undo Redo] Undo');
+export const redo = createAction('[Undo Redo] Redo');
+export const clearHistory = createAction('[Undo Redo] Clear History');
@@ -0,0 +1,109 @@
+import { Action, ActionReducer, combineReducers } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { appReducers } from '../app.reducers';
+import * as CounterActions from '../counter/counter.actions';
+import { counterReducer } from '../counter/counter.reducer';
+import * as TodoActions from '../todo/todo.actions';
+import { todoReducer } from '../todo/todo.reducer';
+import * as UndoRedoActions from './undo-redo.actions';
+import { createUndoRedoMetaReducer } from './undo-redo.meta-reducer';
+
+// Root slices plus the counter and todo features, as after visiting the NgRx route
+const rootSlices = combineReducers(appReducers);
+const rootReducer: ActionReducer<AppState> = (state, action) => ({
+  ...rootSlices(state, action),
+  counter: counterReducer(state?.counter, action),
+  todo: todoReducer(state?.todo, action),
+});
+
+const init: Action = { type: '@ngrx/store/init' };
+
+describe('createUndoRedoMetaReducer', () => {
+  let reducer: ActionReducer<AppState>;
+
+  // Apply actions in order, starting from the initial state
+  const run = (...actions: Action[]) => actions.reduce(reducer, reducer(undefined, init));
+
+  beforeEach(() => {
+    reducer = createUndoRedoMetaReducer({
+      exclude: ['todo'],
+      ignoredActions: [CounterActions.setStep.type],
+      limit: 3,
+    })(rootReducer);
+  });
+
+  it('should record only the slices changed by a tracked action', () => {
+    const state = run(CounterActions.increment());
+    expect(state.counter?.count).toBe(1);
+    expect(state.undoRedo.past).toEqual([{ counter: expect.objectContaining({ count: 0 }) }]);
+    expect(state.undoRedo.future).toEqual([]);
+  });
+
+  it('should undo and redo a change', () => {
+    const once = run(CounterActions.increment());
+    const changed = reducer(once, CounterActions.incrementBy({ amount: 5 }));
+    const undone = reducer(changed, UndoRedoActions.undo());
+    expect(undone.counter).toBe(once.counter);
+    expect(undone.undoRedo.past.length).toBe(1);
+    expect(undone.undoRedo.future.length).toBe(1);
+
+    const redone = reducer(undone, UndoRedoActions.redo());
+    expect(redone.counter).toBe(changed.counter);
+    expect(redone.undoRedo.past.length).toBe(2);
+    expect(redone.undoRedo.future).toEqual([]);
+  });
+
+  it('should leave the state as it is with nothing to undo or redo', () => {
+    const state = run();
+    expect(reducer(state, UndoRedoActions.undo())).toEqual(state);
+    expect(reducer(state, UndoRedoActions.redo())).toEqual(state);
+  });
+
+  it('should not create a step when nothing changed', () => {
+    const state = run(CounterActions.setBounds({ min: null, max: 0 }), CounterActions.increment());
+    expect(state.undoRedo.past.length).toBe(1);
+  });
+
+  it('should apply ignored actions without an undo step', () => {
+    const state = run(CounterActions.increment(), CounterActions.setStep({ step: 5 }));
+    expect(state.counter?.step).toBe(5);
+    expect(state.undoRedo.past.length).toBe(1);
+    // The next undo goes back past the ignored change
+    expect(reducer(state, UndoRedoActions.undo()).counter?.count).toBe(0);
+  });
+
+  it('should never snapshot or restore excluded slices', () => {
+    const state = run(CounterActions.increment(), TodoActions.setFilter({ filter: 'completed' }));
+    expect(state.undoRedo.past.length).toBe(1);
+    const undone = reducer(state, UndoRedoActions.undo());
+    expect(undone.counter?.count).toBe(0);
+    expect(undone.todo).toBe(state.todo);
+  });
+
+  it('should drop the redo stack on a new change', () => {
+    const undone = run(
+      CounterActions.increment(),
+      CounterActions.increment(),
+      UndoRedoActions.undo()
+    );
+    expect(undone.undoRedo.future.length).toBe(1);
+    expect(reducer(undone, CounterActions.decrement()).undoRedo.future).toEqual([]);
+  });
+
+  it('should keep at most limit steps, dropping the oldest', () => {
+    const increments = Array.from({ length: 5 }, () => CounterActions.increment());
+    const state = run(...increments);
+    expect(state.undoRedo.past.map((snapshot) => snapshot.counter?.count)).toEqual([2, 3, 4]);
+  });
+
+  it('should clear both stacks', () => {
+    const state = run(
+      CounterActions.increment(),
+      CounterActions.increment(),
+      UndoRedoActions.undo()
+    );
+    const cleared = reducer(state, UndoRedoActions.clearHistory());
+    expect(cleared.undoRedo).toEqual({ past: [], future: [] });
+    expect(cleared.counter).toBe(state.counter);
+  });
+});
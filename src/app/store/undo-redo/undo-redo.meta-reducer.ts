@@ -0,0 +1,118 @@
+// COMPONENT TYPE: Store - Meta-Reducer
+// SECTION: State Management - Undo/Redo
+//
+// ROLE:
+// - Record a snapshot of the changed feature slices before every tracked action
+// - Handle undo/redo/clearHistory by swapping snapshots in and out of the state
+// - Let features opt out of tracking (e.g. actionsLog)
+//
+// PATTERNS USED:
+// - MetaReducer (higher-order reducer wrapping the root reducer)
+// - Factory function returning a configured meta-reducer
+// - Reference equality to detect which slices changed (reducers are immutable)
+//
+// NOTES FOR CONTRIBUTORS:
+// - Registered in app.meta-reducers.ts, passed to provideStore(appReducers, { metaReducers })
+// - Excluded keys are never snapshotted, so undo leaves them untouched
+// - Ignored actions still update the state, they just do not create an undo step
+// - Snapshots are not sent to any backend: exclude slices mirrored on a server (e.g. todo)
+
+import { ActionReducer, MetaReducer } from '@ngrx/store';
+import { AppState } from '../app.state';
+import { AppStateKey, pickSlices, sliceKeys } from '../app.slices';
+import { initialUndoRedoState } from './undo-redo.state';
+import * as UndoRedoActions from './undo-redo.actions';
+
+// PATTERN: Meta-reducer configuration
+// PURPOSE:
+// - Keep tracking rules in one place (app.meta-reducers.ts)
+// - Allow new features to opt out without touching this file
+export interface UndoRedoConfig {
+  // Feature keys never tracked (the 'undoRedo' key itself is always excluded)
+  exclude: AppStateKey[];
+  // Action types, or type prefixes like '[Todo API]', that do not create an undo step
+  ignoredActions: string[];
+  // Maximum number of undo steps kept in memory
+  limit: number;
+}
+
+/**
+ * Create an undo/redo meta-reducer for the whole AppState
+ *
+ * @param config - Tracking rules (excluded keys, ignored actions, history limit)
+ * @returns MetaReducer<AppState> - Meta-reducer to register with provideStore
+ */
+export function createUndoRedoMetaReducer(config: UndoRedoConfig): MetaReducer<AppState> {
+  const excluded = new Set<AppStateKey>([...config.exclude, 'undoRedo']);
+  const isIgnored = (type: string) =>
+    type.startsWith('@ngrx/') || config.ignoredActions.some((ignored) => type.startsWith(ignored));
+
+  return (reducer: ActionReducer<AppState>): ActionReducer<AppState> =>
+    (state, action) => {
+      // Store initialization: nothing to record yet
+      if (!state) {
+        return reducer(state, action);
+      }
+
+      const history = state.undoRedo;
+
+      switch (action.type) {
+        case UndoRedoActions.undo.type: {
+          const snapshot = history.past[history.past.length - 1];
+          if (!snapshot) {
+            return reducer(state, action);
+          }
+          // Save the current slices so redo can bring them back
+          const redoSnapshot = pickSlices(state, sliceKeys(snapshot));
+          const next = reducer({ ...state, ...snapshot }, action);
+          return {
+            ...next,
+            undoRedo: {
+              past: history.past.slice(0, -1),
+              future: [...history.future, redoSnapshot],
+            },
+          };
+        }
+
+        case UndoRedoActions.redo.type: {
+          const snapshot = history.future[history.future.length - 1];
+          if (!snapshot) {
+            return reducer(state, action);
+          }
+          const undoSnapshot = pickSlices(state, sliceKeys(snapshot));
+          const next = reducer({ ...state, ...snapshot }, action);
+          return {
+            ...next,
+            undoRedo: {
+              past: [...history.past, undoSnapshot],
+              future: history.future.slice(0, -1),
+            },
+          };
+        }
+
+        case UndoRedoActions.clearHistory.type:
+          return { ...reducer(state, action), undoRedo: initialUndoRedoState };
+      }
+
+      const next = reducer(state, action);
+      if (isIgnored(action.type)) {
+        return next;
+      }
+
+      // Reducers are immutable: a new reference means the slice changed
+      const changedKeys = sliceKeys(next).filter(
+        (key) => !excluded.has(key) && next[key] !== state[key]
+      );
+      if (changedKeys.length === 0) {
+        return next;
+      }
+
+      return {
+        ...next,
+        undoRedo: {
+          past: [...history.past, pickSlices(state, changedKeys)].slice(-config.limit),
+          future: [],
+        },
+      };
+    };
+}
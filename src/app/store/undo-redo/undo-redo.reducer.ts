@@ -0,0 +1,18 @@
+// COMPONENT TYPE: Store - Reducer
+// SECTION: State Management - Undo/Redo
+//
+// ROLE:
+// - Register the 'undoRedo' key in the root reducer map
+// - Provide the initial history state
+//
+// PATTERNS USED:
+// - Placeholder reducer for a meta-reducer owned slice
+//
+// NOTES FOR CONTRIBUTORS:
+// - Do NOT add on() handlers here: undoRedoMetaReducer replaces this slice after every action
+// - The reducer exists only so ActionReducerMap<AppState> stays complete and typed
+
+import { createReducer } from '@ngrx/store';
+import { initialUndoRedoState } from './undo-redo.state';
+
+export const undoRedoReducer = createReducer(initialUndoRedoState);
@@ -0,0 +1,39 @@
+// COMPONENT TYPE: Store - Selectors
+// SECTION: State Management - Undo/Redo
+//
+// ROLE:
+// - Expose whether undo/redo is currently possible
+// - Expose history sizes for UI badges
+//
+// PATTERNS USED:
+// - Feature selector for root access
+// - Derived boolean selectors for button states
+//
+// NOTES FOR CONTRIBUTORS:
+// - Components should bind [disabled] to selectCanUndo / selectCanRedo
+// - Snapshots are internal, avoid exposing them directly to the UI
+
+import { createFeatureSelector, createSelector } from '@ngrx/store';
+import { UndoRedoState } from './undo-redo.state';
+
+export const selectUndoRedoState = createFeatureSelector<UndoRedoState>('undoRedo');
+
+export const selectCanUndo = createSelector(
+  selectUndoRedoState,
+  (state) => state.past.length > 0
+);
+
+export const selectCanRedo = createSelector(
+  selectUndoRedoState,
+  (state) => state.future.length > 0
+);
+
+export const selectUndoCount = createSelector(
+  selectUndoRedoState,
+  (state) => state.past.length
+);
+
+export const selectRedoCount = createSelector(
+  selectUndoRedoState,
+  (state) => state.future.length
+);
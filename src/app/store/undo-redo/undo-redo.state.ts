@@ -0,0 +1,31 @@
+// COMPONENT TYPE: Store - State
+// SECTION: State Management - Undo/Redo
+//
+// ROLE:
+// - Define the undo/redo history kept alongside the feature slices
+// - Store past and future snapshots of the tracked feature keys
+// - Provide initial (empty) history
+//
+// PATTERNS USED:
+// - Snapshot stacks (past = undo stack, future = redo stack)
+// - Per-feature-key snapshots: each entry holds only the slices that changed
+//
+// NOTES FOR CONTRIBUTORS:
+// - This state is written by undoRedoMetaReducer only, never by a regular reducer
+// - Snapshots reuse the previous slice references (structural sharing, no deep copies)
+// - Newest entries are at the END of both arrays
+
+import { AppState } from '../app.state';
+
+// Previous value of every feature slice changed by a single action, keyed by feature key
+export type UndoRedoSnapshot = Partial<AppState>;
+
+export interface UndoRedoState {
+  past: UndoRedoSnapshot[]; // Undo stack
+  future: UndoRedoSnapshot[]; // Redo stack, emptied by any new tracked change
+}
+
+export const initialUndoRedoState: UndoRedoState = {
+  past: [],
+  future: [],
+};
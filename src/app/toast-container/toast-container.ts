@@ -0,0 +1,29 @@
+// COMPONENT TYPE: Container
+// SECTION: UI Components - Toast
+//
+// ROLE:
+// - Render the toasts of ToastService at the bottom of every page
+// - Run action buttons (e.g. "Annulla") and the close button
+// - Pause the countdown while the pointer or the keyboard focus is on a toast
+//
+// PATTERNS USED:
+// - Reactive state read from a root service (Signals)
+// - Live region so screen readers announce new toasts
+//
+// NOTES FOR CONTRIBUTORS:
+// - Rendered once in app.html: features show toasts through ToastService, never directly
+// - Keep it free of feature logic, actions are plain callbacks
+
+import { Component, inject } from '@angular/core';
+import { ToastService } from '../services/toast.service';
+import { Icon } from '../components/icon/icon';
+
+@Component({
+  selector: 'app-toast-container',
+  imports: [Icon],
+  templateUrl: './toast-container.html',
+  styleUrl: './toast-container.scss',
+})
+export class ToastContainer {
+  toastService = inject(ToastService);
+}
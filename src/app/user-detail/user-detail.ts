@@ -0,0 +1,79 @@
+// COMPONENT TYPE: Container
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Show one user at /examples/users/:id, with tabs for profile, location and posts
+// - Render the not-found and error states of the resolved lookup
+//
+// PATTERNS USED:
+// - Route resolver: the user is ready before the page renders (no loading flicker)
+// - Nested child routes as tabs (routerLink + routerLinkActive + <router-outlet>)
+// - toSignal() over the route data
+//
+// NOTES FOR CONTRIBUTORS:
+// - Tabs are real URLs: deep links, reloads and the browser back button just work
+// - Tab components read the user with injectResolvedUser(), do not pass it through a service
+// - The links back to the list restore its search, filters and page from UsersService.query
+// - Add a tab by adding a child route in user-page.routes.ts and an entry in tabs
+
+import { Component, computed, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import {
+  ActivatedRoute,
+  Router,
+  RouterLink,
+  RouterLinkActive,
+  RouterOutlet,
+} from '@angular/router';
+import { map } from 'rxjs';
+import { Icon } from '../components/icon/icon';
+import { UsersService } from '../../services/users.service';
+import { toUsersQueryParams } from '../user-list/users-query';
+import { USER_ROUTE_DATA, UserLookup } from './user.resolver';
+
+interface UserTab {
+  path: string;
+  label: string;
+}
+
+@Component({
+  selector: 'app-user-detail',
+  imports: [RouterLink, RouterLinkActive, RouterOutlet, Icon],
+  templateUrl: './user-detail.html',
+  styleUrl: './user-detail.scss',
+})
+export class UserDetail {
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private usersService = inject(UsersService);
+
+  // Lookup produced by userResolver, updated on every navigation to another id
+  lookup = toSignal(
+    this.route.data.pipe(map((data) => data[USER_ROUTE_DATA] as UserLookup)),
+    { requireSync: true }
+  );
+
+  user = computed(() => {
+    const lookup = this.lookup();
+    return lookup.status === 'found' ? lookup.user : null;
+  });
+
+  errorMessage = computed(() => {
+    const lookup = this.lookup();
+    return lookup.status === 'error' ? lookup.message : null;
+  });
+
+  // State of the list this page was opened from (defaults after a deep link)
+  listQueryParams = computed(() => toUsersQueryParams(this.usersService.query()));
+
+  readonly tabs: UserTab[] = [
+    { path: 'profile', label: 'Profilo' },
+    { path: 'location', label: 'Indirizzo e azienda' },
+    { path: 'posts', label: 'Post' },
+  ];
+
+  // Navigate to the same URL again: the :id route re-runs its resolver after a failure
+  retry() {
+    this.router.navigateByUrl(this.router.url, { onSameUrlNavigation: 'reload' });
+  }
+}
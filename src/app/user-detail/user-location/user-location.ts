@@ -0,0 +1,32 @@
+// COMPONENT TYPE: Presentational
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Address and company tab of the user detail page
+// - Link the coordinates to OpenStreetMap
+//
+// PATTERNS USED:
+// - Child route component reading the resolved user (injectResolvedUser)
+// - computed() for the derived map URL
+//
+// NOTES FOR CONTRIBUTORS:
+// - No HTTP here: the user was resolved before the page rendered
+
+import { Component, computed } from '@angular/core';
+import { injectResolvedUser } from '../user.resolver';
+
+@Component({
+  selector: 'app-user-location',
+  templateUrl: './user-location.html',
+  styleUrl: '../user-detail-tab.scss',
+})
+export class UserLocation {
+  user = injectResolvedUser();
+
+  mapUrl = computed(() => {
+    const geo = this.user()?.address.geo;
+    return geo
+      ? `https://www.openstreetmap.org/?mlat=${geo.lat}&mlon=${geo.lng}#map=6/${geo.lat}/${geo.lng}`
+      : null;
+  });
+}
@@ -0,0 +1,77 @@
+// COMPONENT TYPE: Container
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Posts tab of the user detail page: posts written by the user
+// - Handle loading, error (with retry) and empty states
+//
+// PATTERNS USED:
+// - Service Facade pattern (PostsService.getPostsByUser)
+// - effect() reloading the posts whenever the resolved user changes
+// - Signals for loading / error / data
+//
+// NOTES FOR CONTRIBUTORS:
+// - The route component is reused when only :id changes, hence the effect instead of ngOnInit
+// - A newer request (or leaving the tab) cancels the previous one
+
+import { Component, OnDestroy, effect, inject, signal, untracked } from '@angular/core';
+import { HttpErrorResponse } from '@angular/common/http';
+import { Subscription } from 'rxjs';
+import { Post, PostsService } from '../../../services/posts.service';
+import { injectResolvedUser } from '../user.resolver';
+
+@Component({
+  selector: 'app-user-posts',
+  templateUrl: './user-posts.html',
+  styleUrls: ['../user-detail-tab.scss', './user-posts.scss'],
+})
+export class UserPosts implements OnDestroy {
+  private postsService = inject(PostsService);
+
+  user = injectResolvedUser();
+
+  posts = signal<Post[]>([]);
+  loading = signal(false);
+  error = signal<string | null>(null);
+
+  private request?: Subscription;
+
+  constructor() {
+    effect(() => {
+      const user = this.user();
+      if (user) {
+        untracked(() => this.loadPosts(user.id));
+      }
+    });
+  }
+
+  ngOnDestroy() {
+    this.request?.unsubscribe();
+  }
+
+  // Load (or reload) the posts of the current user
+  retry() {
+    const user = this.user();
+    if (user) {
+      this.loadPosts(user.id);
+    }
+  }
+
+  private loadPosts(userId: number) {
+    this.request?.unsubscribe();
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.request = this.postsService.getPostsByUser(userId).subscribe({
+      next: (posts) => {
+        this.posts.set(posts);
+        this.loading.set(false);
+      },
+      error: (err: HttpErrorResponse) => {
+        this.posts.set([]);
+        this.error.set(`Errore nel caricamento dei post: ${err.status} ${err.statusText}`);
+        this.loading.set(false);
+      },
+    });
+  }
+}
@@ -0,0 +1,23 @@
+// COMPONENT TYPE: Presentational
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Profile tab of the user detail page: contacts and username
+//
+// PATTERNS USED:
+// - Child route component reading the resolved user (injectResolvedUser)
+//
+// NOTES FOR CONTRIBUTORS:
+// - No HTTP here: the user was resolved before the page rendered
+
+import { Component } from '@angular/core';
+import { injectResolvedUser } from '../user.resolver';
+
+@Component({
+  selector: 'app-user-profile',
+  templateUrl: './user-profile.html',
+  styleUrl: '../user-detail-tab.scss',
+})
+export class UserProfile {
+  user = injectResolvedUser();
+}
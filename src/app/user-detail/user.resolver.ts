@@ -0,0 +1,74 @@
+// COMPONENT TYPE: Resolver
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Load the User of /examples/users/:id before the detail page renders
+// - Turn unknown ids and HTTP failures into a value the page can display
+// - Give the tab components access to the resolved user
+//
+// PATTERNS USED:
+// - Functional resolver (ResolveFn) with inject()
+// - Result object instead of a thrown error: a failing resolver would cancel the navigation
+//   and leave a deep link on a blank page
+//
+// NOTES FOR CONTRIBUTORS:
+// - The lookup reuses the users already loaded by UsersService when possible
+// - Tabs are child routes: they read the lookup from the parent route data
+
+import { Signal, inject } from '@angular/core';
+import { toSignal } from '@angular/core/rxjs-interop';
+import { HttpErrorResponse } from '@angular/common/http';
+import { ActivatedRoute, ResolveFn } from '@angular/router';
+import { catchError, map, of } from 'rxjs';
+import { UsersService } from '../../services/users.service';
+import { User } from '../../types/users';
+
+// Route data key holding the UserLookup
+export const USER_ROUTE_DATA = 'user';
+
+export type UserLookup =
+  | { status: 'found'; user: User }
+  | { status: 'not-found'; id: string }
+  | { status: 'error'; message: string };
+
+export const userResolver: ResolveFn<UserLookup> = (route) => {
+  const id = route.paramMap.get('id') ?? '';
+  // Only positive integers can be user ids, anything else is not found without a request
+  if (!/^[1-9]\d*$/.test(id)) {
+    return of({ status: 'not-found', id });
+  }
+
+  return inject(UsersService)
+    .getUser(Number(id))
+    .pipe(
+      map((user): UserLookup => (user ? { status: 'found', user } : { status: 'not-found', id })),
+      catchError((err: HttpErrorResponse) =>
+        of<UserLookup>({
+          status: 'error',
+          message:
+            err.status === 0
+              ? 'Impossibile contattare il server, controlla la connessione'
+              : `Errore nel caricamento dell'utente: ${err.status} ${err.statusText}`,
+        })
+      )
+    );
+};
+
+/**
+ * Resolved user for the tab components (child routes of the detail page)
+ *
+ * @returns Signal<User | null> - The user, null when the lookup failed
+ */
+export function injectResolvedUser(): Signal<User | null> {
+  const route = inject(ActivatedRoute);
+  const data = route.parent?.data ?? route.data;
+  return toSignal(
+    data.pipe(
+      map((routeData) => {
+        const lookup = routeData[USER_ROUTE_DATA] as UserLookup;
+        return lookup.status === 'found' ? lookup.user : null;
+      })
+    ),
+    { requireSync: true }
+  );
+}
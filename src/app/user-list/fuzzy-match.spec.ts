@@ -0,0 +1,83 @@
+import { fuzzyMatch, highlightSegments } from './fuzzy-match';
+
+describe('fuzzyMatch', () => {
+  it('should not match an empty query or an empty text', () => {
+    expect(fuzzyMatch('', 'Leanne Graham')).toBeNull();
+    expect(fuzzyMatch('   ', 'Leanne Graham')).toBeNull();
+    expect(fuzzyMatch('leo', '')).toBeNull();
+  });
+
+  it('should score a substring by length and by where it starts', () => {
+    expect(fuzzyMatch('Lea', 'Leanne Graham')).toEqual({
+      score: 36,
+      ranges: [{ start: 0, end: 3 }],
+    });
+    expect(fuzzyMatch('gra', 'Leanne Graham')?.score).toBe(33);
+    expect(fuzzyMatch('ham', 'Leanne Graham')?.score).toBe(30);
+  });
+
+  it('should ignore case, accents and surrounding spaces', () => {
+    expect(fuzzyMatch('  CITTA ', 'Città del Capo')).toEqual({
+      score: 56,
+      ranges: [{ start: 0, end: 5 }],
+    });
+    expect(fuzzyMatch('citta', 'Città')).toEqual(fuzzyMatch('città', 'Citta'));
+  });
+
+  it('should match a subsequence made of word starts and runs', () => {
+    expect(fuzzyMatch('lg', 'Leanne Graham')).toEqual({
+      score: 8,
+      ranges: [
+        { start: 0, end: 1 },
+        { start: 7, end: 8 },
+      ],
+    });
+    // Spaces in the query are optional
+    expect(fuzzyMatch('le gr', 'Leanne Graham')).toEqual({
+      score: 16,
+      ranges: [
+        { start: 0, end: 2 },
+        { start: 7, end: 9 },
+      ],
+    });
+  });
+
+  it('should reject scattered characters and characters out of order', () => {
+    expect(fuzzyMatch('lnh', 'Leanne Graham')).toBeNull();
+    expect(fuzzyMatch('gl', 'Leanne Graham')).toBeNull();
+    expect(fuzzyMatch('lgx', 'Leanne Graham')).toBeNull();
+  });
+
+  it('should rank a substring above a subsequence of the same length', () => {
+    const substring = fuzzyMatch('ab', 'ab')!;
+    const subsequence = fuzzyMatch('ab', 'a b')!;
+    expect(substring.score).toBeGreaterThan(subsequence.score);
+  });
+});
+
+describe('highlightSegments', () => {
+  it('should return the whole text without ranges', () => {
+    expect(highlightSegments('Leanne')).toEqual([{ text: 'Leanne', match: false }]);
+    expect(highlightSegments('')).toEqual([]);
+  });
+
+  it('should alternate plain and matched segments', () => {
+    const ranges = [
+      { start: 0, end: 1 },
+      { start: 7, end: 8 },
+    ];
+    expect(highlightSegments('Leanne Graham', ranges)).toEqual([
+      { text: 'L', match: true },
+      { text: 'eanne ', match: false },
+      { text: 'G', match: true },
+      { text: 'raham', match: false },
+    ]);
+  });
+
+  it('should end with a match that reaches the end of the text', () => {
+    expect(highlightSegments('Graham', [{ start: 3, end: 6 }])).toEqual([
+      { text: 'Gra', match: false },
+      { text: 'ham', match: true },
+    ]);
+  });
+});
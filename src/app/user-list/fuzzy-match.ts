@@ -0,0 +1,138 @@
+// COMPONENT TYPE: Utility
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Fuzzy-match a search text against a field (substring first, then subsequence)
+// - Score matches so results can be ranked
+// - Split a text into plain / matched segments for highlighting
+//
+// PATTERNS USED:
+// - Pure functions, no Angular dependencies
+//
+// NOTES FOR CONTRIBUTORS:
+// - Matching ignores case and accents ("citta" finds "Città"), ranges refer to the original text
+// - A substring always outscores a subsequence of the same length
+// - Subsequences made of scattered characters are rejected (see MIN_SCORE_PER_CHAR)
+
+// Matched characters of a text, end excluded
+export interface MatchRange {
+  start: number;
+  end: number;
+}
+
+export interface FuzzyMatch {
+  score: number;
+  ranges: MatchRange[];
+}
+
+export interface TextSegment {
+  text: string;
+  match: boolean;
+}
+
+// Scores per matched character
+const SUBSTRING_CHAR = 10;
+const SUBSEQUENCE_CHAR = 1;
+const CONSECUTIVE_BONUS = 3;
+const WORD_START_BONUS = 3;
+
+// A subsequence must average this much per character (consecutive runs or word starts)
+const MIN_SCORE_PER_CHAR = 3;
+
+// Lowercase without accents, one character per original character so indexes still match
+function normalize(text: string): string {
+  return text
+    .split('')
+    .map((char) => char.normalize('NFD')[0].toLowerCase())
+    .join('');
+}
+
+// Start of the text or first letter/digit after a separator (space, '.', '@', '-', ...)
+function isWordStart(text: string, index: number): boolean {
+  return index === 0 || !/[\p{L}\p{N}]/u.test(text[index - 1]);
+}
+
+// Merge adjacent matched indexes into ranges
+function toRanges(indexes: number[]): MatchRange[] {
+  const ranges: MatchRange[] = [];
+  for (const index of indexes) {
+    const last = ranges[ranges.length - 1];
+    if (last && last.end === index) {
+      last.end++;
+    } else {
+      ranges.push({ start: index, end: index + 1 });
+    }
+  }
+  return ranges;
+}
+
+/**
+ * Match a search text against a field value
+ *
+ * @param query - Search text (surrounding spaces ignored)
+ * @param text - Field value
+ * @returns FuzzyMatch | null - Score and matched ranges, null when it does not match
+ */
+export function fuzzyMatch(query: string, text: string): FuzzyMatch | null {
+  const needle = normalize(query.trim());
+  const haystack = normalize(text);
+  if (!needle || !haystack) {
+    return null;
+  }
+
+  const index = haystack.indexOf(needle);
+  if (index !== -1) {
+    return {
+      score:
+        needle.length * SUBSTRING_CHAR +
+        (index === 0 ? 2 : isWordStart(haystack, index) ? 1 : 0) * WORD_START_BONUS,
+      ranges: [{ start: index, end: index + needle.length }],
+    };
+  }
+
+  // Subsequence: every character of the query, in order (spaces in the query are optional)
+  const chars = needle.replace(/\s+/g, '');
+  const matched: number[] = [];
+  let score = 0;
+  let from = 0;
+  for (const char of chars) {
+    const found = haystack.indexOf(char, from);
+    if (found === -1) {
+      return null;
+    }
+    score += SUBSEQUENCE_CHAR;
+    if (matched.length && found === matched[matched.length - 1] + 1) {
+      score += CONSECUTIVE_BONUS;
+    }
+    if (isWordStart(haystack, found)) {
+      score += WORD_START_BONUS;
+    }
+    matched.push(found);
+    from = found + 1;
+  }
+
+  return score >= chars.length * MIN_SCORE_PER_CHAR ? { score, ranges: toRanges(matched) } : null;
+}
+
+/**
+ * Split a text into plain and matched segments
+ *
+ * @param text - Text to display
+ * @param ranges - Matched ranges (sorted, not overlapping), none for plain text
+ * @returns TextSegment[] - Segments to render in order, matched ones inside <mark>
+ */
+export function highlightSegments(text: string, ranges: MatchRange[] = []): TextSegment[] {
+  const segments: TextSegment[] = [];
+  let position = 0;
+  for (const { start, end } of ranges) {
+    if (start > position) {
+      segments.push({ text: text.slice(position, start), match: false });
+    }
+    segments.push({ text: text.slice(start, end), match: true });
+    position = end;
+  }
+  if (position < text.length) {
+    segments.push({ text: text.slice(position), match: false });
+  }
+  return segments;
+}
@@ -2,28 +2,55 @@
 // SECTION: HTTP and Async Operations
 //
 // ROLE:
-// - Display individual user data in card format
-// - Emit delete event to parent component
+// - Display individual user data in card format, or as a compact row for the list layout
+// - Emit edit and delete events to parent component
+// - Show a selection checkbox (Shift+click asks for a range) and the user tags
+// - Link to the user detail page (/examples/users/:id)
+// - Highlight the parts of the fields that match the search
 // - Demonstrate component lifecycle hooks (ngOnInit, ngOnDestroy)
 //
 // PATTERNS USED:
 // - Pure presentational component (@Input/@Output pattern)
 // - Event-based communication with parent
 // - Lifecycle hooks for educational demonstration
+// - ng-template + ngTemplateOutlet to render highlighted text in several places
 //
 // NOTES FOR CONTRIBUTORS:
 // - Keep this component stateless
 // - All data comes from @Input, all actions via @Output
-// - Console logs demonstrate lifecycle for learning purposes
+// - Console logs demonstrate lifecycle for learning purposes, behind LOG_LIFECYCLE (off by
+//   default): with virtual scrolling they show cards being created and destroyed while scrolling
 // - Do not add HTTP logic here (parent handles data)
 
 import { Component, EventEmitter, Input, OnDestroy, OnInit, Output } from '@angular/core';
 import { User } from '../../../types/users';
+import { NgTemplateOutlet } from '@angular/common';
+import { RouterLink } from '@angular/router';
 import { Icon } from '../../components/icon/icon';
+import { TextSegment, highlightSegments } from '../fuzzy-match';
+import { UserHighlights, UserSearchField } from '../users-query';
+
+// Checkbox click: range is true with Shift, the parent selects from the last clicked card
+export interface UserSelectEvent {
+  userId: number;
+  selected: boolean;
+  range: boolean;
+}
+
+// 'card' for the grid, 'row' for one line per user
+export type UserCardLayout = 'card' | 'row';
+
+export interface UserTagEvent {
+  userId: number;
+  tag: string;
+}
+
+// Debug flag: log every card created and destroyed (thousands of lines with 10k users)
+const LOG_LIFECYCLE = false;
 
 @Component({
   selector: 'app-user-card',
-  imports: [Icon],
+  imports: [Icon, RouterLink, NgTemplateOutlet],
   templateUrl: './user-card.html',
   styleUrl: './user-card.scss',
 })
@@ -31,21 +58,72 @@ export class UserCard implements OnInit, OnDestroy {
   // Receives user data from parent component
   @Input() user?: User;
 
+  // Matched ranges of the current search, per field (undefined when not searching)
+  @Input() highlights?: UserHighlights;
+
+  // True while the user is being created on the server: actions are disabled
+  @Input() pending = false;
+
+  // True when the user is part of the list selection
+  @Input() selected = false;
+
+  @Input() layout: UserCardLayout = 'card';
+
   // Emits user ID to parent component for deletion
   @Output() delete = new EventEmitter<number>();
 
+  // Emits the user to edit to parent component
+  @Output() edit = new EventEmitter<User>();
+
+  // Emits checkbox clicks to parent component, which owns the selection
+  @Output() select = new EventEmitter<UserSelectEvent>();
+
+  // Emits the tag to remove from the user
+  @Output() untag = new EventEmitter<UserTagEvent>();
+
   // Executed when the component is created
   ngOnInit() {
-    console.log(`UserCard for ${this.user?.name} created`);
+    if (LOG_LIFECYCLE) {
+      console.log(`UserCard for ${this.user?.name} created`);
+    }
   }
 
   // Executed when the component is destroyed
   ngOnDestroy() {
-    console.log(`UserCard for ${this.user?.name} destroyed`);
+    if (LOG_LIFECYCLE) {
+      console.log(`UserCard for ${this.user?.name} destroyed`);
+    }
+  }
+
+  // Split a field into plain and matched segments
+  segments(field: UserSearchField, text: string): TextSegment[] {
+    return highlightSegments(text, this.highlights?.[field]);
   }
 
   // Emits delete event with user ID
   handleDelete() {
     this.delete.emit(this.user?.id);
   }
+
+  // Emits the new checkbox state, Shift+click turns it into a range selection
+  handleSelect(event: MouseEvent) {
+    if (this.user) {
+      const checkbox = event.target as HTMLInputElement;
+      this.select.emit({ userId: this.user.id, selected: checkbox.checked, range: event.shiftKey });
+    }
+  }
+
+  // Emits untag event with user ID and tag
+  handleUntag(tag: string) {
+    if (this.user) {
+      this.untag.emit({ userId: this.user.id, tag });
+    }
+  }
+
+  // Emits edit event with the whole user
+  handleEdit() {
+    if (this.user) {
+      this.edit.emit(this.user);
+    }
+  }
 }
@@ -0,0 +1,199 @@
+// COMPONENT TYPE: Presentational
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Create / edit dialog for a User, covering the nested Address, Geo and Company
+// - Validate every field and show the first problem under it
+// - Emit the validated draft, the parent decides how to save it
+//
+// PATTERNS USED:
+// - Typed Reactive Forms (NonNullableFormBuilder) with nested FormGroups
+// - Built-in and custom validators (numeric coordinates in range)
+// - @Input/@Output: no service calls here
+//
+// NOTES FOR CONTRIBUTORS:
+// - user = null opens the dialog in create mode, a User opens it in edit mode
+// - Keep the form in sync with the User interface (types/users.ts)
+// - Patterns and limits come from user-validation.ts, shared with the file import
+// - Add the message of every new validator key to errorMessages
+
+import { Component, EventEmitter, HostListener, Input, OnInit, Output, inject } from '@angular/core';
+import {
+  AbstractControl,
+  NonNullableFormBuilder,
+  ReactiveFormsModule,
+  ValidationErrors,
+  ValidatorFn,
+  Validators,
+} from '@angular/forms';
+import { User } from '../../../types/users';
+import { UserDraft } from '../../../services/users.service';
+import { Icon } from '../../components/icon/icon';
+import {
+  AGE_RANGE,
+  DEFAULT_USER_AGE,
+  LAT_LIMIT,
+  LNG_LIMIT,
+  NAME_LENGTH,
+  PHONE_PATTERN,
+  USERNAME_MIN_LENGTH,
+  USERNAME_PATTERN,
+  WEBSITE_PATTERN,
+  ZIPCODE_PATTERN,
+  isValidCoordinate,
+  isValidEmail,
+} from '../user-validation';
+
+// Same rule as the file import, instead of Validators.email
+function email(control: AbstractControl): ValidationErrors | null {
+  return isValidEmail(String(control.value ?? '')) ? null : { email: true };
+}
+
+// Coordinates are strings in the API, but must parse to a number within [-limit, limit]
+function coordinate(limit: number): ValidatorFn {
+  return (control: AbstractControl): ValidationErrors | null =>
+    isValidCoordinate(String(control.value ?? ''), limit) ? null : { coordinate: limit };
+}
+
+// Error payload of each validator, as set by Angular's Validators and by coordinate()
+interface ValidatorErrors {
+  required: true;
+  email: true;
+  minlength: { requiredLength: number; actualLength: number };
+  maxlength: { requiredLength: number; actualLength: number };
+  min: { min: number; actual: number };
+  max: { max: number; actual: number };
+  pattern: { requiredPattern: string; actualValue: string };
+  coordinate: number;
+}
+
+// First message shown for each validator key
+const errorMessages: { [K in keyof ValidatorErrors]: (error: ValidatorErrors[K]) => string } = {
+  required: () => 'Campo obbligatorio',
+  email: () => 'Formato email non valido',
+  minlength: (error) => `Minimo ${error.requiredLength} caratteri`,
+  maxlength: (error) => `Massimo ${error.requiredLength} caratteri`,
+  min: (error) => `Il valore minimo è ${error.min}`,
+  max: (error) => `Il valore massimo è ${error.max}`,
+  pattern: () => 'Formato non valido',
+  coordinate: (limit) => `Inserisci un numero tra -${limit} e ${limit}`,
+};
+
+function isKnownError(key: string): key is keyof ValidatorErrors {
+  return key in errorMessages;
+}
+
+function errorMessage<K extends keyof ValidatorErrors>(key: K, error: ValidatorErrors[K]): string {
+  return errorMessages[key](error);
+}
+
+@Component({
+  selector: 'app-user-form-dialog',
+  imports: [ReactiveFormsModule, Icon],
+  templateUrl: './user-form-dialog.html',
+  styleUrl: './user-form-dialog.scss',
+})
+export class UserFormDialog implements OnInit {
+  private fb = inject(NonNullableFormBuilder);
+
+  // User to edit, null to create a new one
+  @Input() user: User | null = null;
+
+  // Validated form value
+  @Output() save = new EventEmitter<UserDraft>();
+
+  @Output() cancel = new EventEmitter<void>();
+
+  form = this.fb.group({
+    name: [
+      '',
+      [
+        Validators.required,
+        Validators.minLength(NAME_LENGTH.min),
+        Validators.maxLength(NAME_LENGTH.max),
+      ],
+    ],
+    surname: ['', Validators.maxLength(NAME_LENGTH.max)],
+    username: [
+      '',
+      [
+        Validators.required,
+        Validators.minLength(USERNAME_MIN_LENGTH),
+        Validators.pattern(USERNAME_PATTERN),
+      ],
+    ],
+    email: ['', [Validators.required, email]],
+    age: [
+      DEFAULT_USER_AGE,
+      [Validators.required, Validators.min(AGE_RANGE.min), Validators.max(AGE_RANGE.max)],
+    ],
+    phone: ['', Validators.pattern(PHONE_PATTERN)],
+    website: ['', Validators.pattern(WEBSITE_PATTERN)],
+    address: this.fb.group({
+      street: ['', Validators.required],
+      suite: [''],
+      city: ['', Validators.required],
+      zipcode: ['', [Validators.required, Validators.pattern(ZIPCODE_PATTERN)]],
+      geo: this.fb.group({
+        lat: ['', coordinate(LAT_LIMIT)],
+        lng: ['', coordinate(LNG_LIMIT)],
+      }),
+    }),
+    company: this.fb.group({
+      name: ['', Validators.required],
+      catchPhrase: [''],
+      bs: [''],
+    }),
+  });
+
+  get isEdit(): boolean {
+    return this.user !== null;
+  }
+
+  ngOnInit() {
+    if (this.user) {
+      // JSONPlaceholder users have no surname/age: keep the form defaults for them
+      const { id, ...draft } = this.user;
+      this.form.patchValue({
+        ...draft,
+        surname: draft.surname ?? '',
+        age: draft.age ?? DEFAULT_USER_AGE,
+      });
+    }
+  }
+
+  /**
+   * First validation message of a control, once the user touched it
+   *
+   * @param path - Control path, e.g. 'address.geo.lat'
+   * @returns string | null - Message to show under the field
+   */
+  errorFor(path: string): string | null {
+    const control = this.form.get(path);
+    if (!control?.errors || !control.touched) {
+      return null;
+    }
+    const [key, error] = Object.entries(control.errors)[0];
+    return isKnownError(key) ? errorMessage(key, error) : 'Valore non valido';
+  }
+
+  submit() {
+    if (this.form.invalid) {
+      // Show the messages of the fields the user skipped
+      this.form.markAllAsTouched();
+      return;
+    }
+    this.save.emit(this.form.getRawValue());
+  }
+
+  @HostListener('document:keydown.escape')
+  close() {
+    this.cancel.emit();
+  }
+
+  onBackdropClick(event: MouseEvent) {
+    if (event.target === event.currentTarget) {
+      this.close();
+    }
+  }
+}
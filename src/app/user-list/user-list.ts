@@ -3,63 +3,508 @@
 //
 // ROLE:
 // - Demonstrate HTTP requests with real user data
-// - Provide search/filter functionality
-// - Handle CRUD operations (fetch and delete)
+// - Provide debounced fuzzy search, structured filters, sorting and pagination
+// - Handle CRUD operations (fetch, create, edit and delete)
+// - Offer undo for deletions through a toast
+// - Select cards (Shift+click ranges, select all results) and run bulk actions on them
+// - Export results or selection to CSV / JSON and import users from a file
+// - Switch between cards, list rows and a world map of the results (UsersMap)
+// - Render every result at once with virtual scrolling, and load 10k synthetic users to
+//   measure the difference (performance panel)
+// - Render loading (skeleton), empty and error states, with cancel and retry
 // - Coordinate between UsersService and presentational UserCard components
 //
 // PATTERNS USED:
 // - Service Facade pattern (UsersService handles HTTP)
-// - Signal-based search state
-// - Effect for automatic filtering when search changes
-// - Composition with UserCard for display
+// - URL query params as the source of truth for the list state (shareable links)
+// - Effect pushing the parsed query to the service, which filters, sorts and paginates
+// - Debounced search box (toObservable + debounceTime) writing to the URL
+// - Loading / error / lastUpdated signals read from the service
+// - Composition with UserCard for display, UserFormDialog for create / edit and
+//   UsersTransferDialog for export / import, UsersMap for the map view and
+//   VirtualScroll for long lists
+// - Undo toast (ToastService): the deletion reaches the server when the toast closes
+// - HostListener for the selection keyboard shortcuts
 //
 // NOTES FOR CONTRIBUTORS:
 // - Keep HTTP logic in UsersService, not here
-// - Search filtering is reactive via effect()
+// - Never keep list state in component signals: change it with updateQuery(), which
+//   navigates, and read it back from query()
+// - Changing search, filters, sorting or page size goes back to page 1
+// - searchText is the only local copy of list state: it runs ahead of the URL while typing
+// - Skeleton cards only show on the first load, a reload keeps the current cards visible
+// - Saving is optimistic: the dialog closes at once, failures show the mutation error banner
+// - Deletions are confirmed even if the page is left: the toast outlives this component
+// - The selection lives in UsersService, only the Shift+click anchor is kept here
+// - Shortcuts are skipped inside text fields and while a dialog is open
+// - The map shows every matching user, not one page: pagination is hidden in that view
+// - Virtual scrolling applies only with "Tutti" per page; virtual=off in the URL renders
+//   every card, to compare the two
+// - The download happens here, the transfer dialog only emits the chosen format and columns
 // - UserCard is presentational and receives data via @Input
 // - Follow this pattern when adding more user features
 
 import { CommonModule } from '@angular/common';
-import { Component, inject, signal, effect } from '@angular/core';
+import {
+  Component,
+  ElementRef,
+  HostListener,
+  Injector,
+  OnInit,
+  afterNextRender,
+  computed,
+  effect,
+  inject,
+  signal,
+  viewChild,
+} from '@angular/core';
+import { takeUntilDestroyed, toObservable, toSignal } from '@angular/core/rxjs-interop';
+import { ActivatedRoute, Router } from '@angular/router';
+import { debounceTime, filter, map } from 'rxjs';
 import { User } from '../../types/users';
-import { UserCard } from './user-card/user-card';
+import { UserCard, UserSelectEvent, UserTagEvent } from './user-card/user-card';
 import { FormsModule } from '@angular/forms';
-import { UsersService } from '../../services/users.service';
+import { UserDraft, UsersService } from '../../services/users.service';
 import { PageHeader } from '../page-header/page-header';
 import { Icon } from '../components/icon/icon';
+import { UserFormDialog } from './user-form-dialog/user-form-dialog';
+import { ToastService } from '../services/toast.service';
+import { downloadFile } from '../services/file-download';
+import { USERS_FILE_TYPES, exportFilename, serializeUsers } from './users-export';
+import {
+  ExportScope,
+  TransferMode,
+  UsersExportRequest,
+  UsersTransferDialog,
+} from './users-transfer-dialog/users-transfer-dialog';
+import { ImportedUser } from './users-import';
+import { UsersMap } from './users-map/users-map';
+import { VirtualScroll } from '../components/virtual-scroll/virtual-scroll';
+import { GENERATED_USERS_COUNT } from './users-generator';
+import {
+  ALL_USERS_PAGE_SIZE,
+  DEFAULT_USERS_QUERY,
+  USER_PAGE_SIZES,
+  USER_SORT_FIELDS,
+  USER_VIEWS,
+  UserSortField,
+  UsersQuery,
+  UsersView,
+  pageWindow,
+  parseUsersQuery,
+  toUsersQueryParams,
+} from './users-query';
+
+// Pause in typing before the search reaches the URL
+const SEARCH_DEBOUNCE_MS = 300;
+
+// How long a deletion can be undone
+const UNDO_DELETE_MS = 5000;
+
+// Item sizes in the virtual scroller, in pixels (cards taller than this are cut)
+const VIRTUAL_CARD = { height: 280, minWidth: 320, gap: 24 };
+const VIRTUAL_ROW = { height: 72, minWidth: 0, gap: 8 };
 
 @Component({
   selector: 'app-user-list',
-  imports: [CommonModule, UserCard, FormsModule, PageHeader, Icon],
+  imports: [
+    CommonModule,
+    UserCard,
+    FormsModule,
+    PageHeader,
+    Icon,
+    UserFormDialog,
+    UsersTransferDialog,
+    UsersMap,
+    VirtualScroll,
+  ],
   templateUrl: './user-list.html',
   styleUrl: './user-list.scss',
 })
-export class UserList {
+export class UserList implements OnInit {
   // Inject the users service via Dependency Injection
   usersService = inject<UsersService>(UsersService);
 
-  // Signal containing the search text
-  search = signal<string>('');
+  private route = inject(ActivatedRoute);
+  private router = inject(Router);
+  private toastService = inject(ToastService);
+  private host = inject<ElementRef<HTMLElement>>(ElementRef);
+  private injector = inject(Injector);
+
+  // List state decoded from the URL query params
+  query = toSignal(this.route.queryParams.pipe(map(parseUsersQuery)), { requireSync: true });
+
+  // Text in the search box, pushed to the URL once the user stops typing
+  searchText = signal(this.query().search);
+
+  // Search last written to the URL, to tell our own navigations from external ones
+  private pushedSearch = this.query().search;
+
+  // True when search or filters hide some users
+  hasFilters = computed(() => {
+    const { search, company, city, hasWebsite } = this.query();
+    return !!search.trim() || company !== null || city !== null || hasWebsite !== null;
+  });
+
+  // Page numbers for the paginator, a window around the current page
+  pages = computed(() => {
+    const { page, pageCount } = this.usersService.page();
+    return pageWindow(page, pageCount);
+  });
+
+  readonly sortFields = Object.entries(USER_SORT_FIELDS) as [UserSortField, string][];
+  readonly pageSizes = USER_PAGE_SIZES;
+  readonly views = Object.entries(USER_VIEWS) as [UsersView, string][];
+  readonly allPageSize = ALL_USERS_PAGE_SIZE;
+  readonly generatedCount = GENERATED_USERS_COUNT;
+
+  // Every result on one page, only the visible cards in the DOM
+  virtualized = computed(() => {
+    const { pageSize, virtual, view } = this.query();
+    return pageSize === ALL_USERS_PAGE_SIZE && virtual && view !== 'map';
+  });
+
+  virtualLayout = computed(() => (this.query().view === 'list' ? VIRTUAL_ROW : VIRTUAL_CARD));
+
+  // Cards in the DOM and time spent updating the list, for the performance panel
+  renderStats = signal<{ cards: number; ms: number } | null>(null);
+
+  // Open dialog: 'new' to create, a User to edit, null when closed
+  dialog = signal<User | 'new' | null>(null);
+
+  // Open export / import dialog, null when closed
+  transfer = signal<{ mode: TransferMode; scope: ExportScope } | null>(null);
+
+  // Every matching user is selected / only some are (select-all checkbox)
+  allSelected = computed(
+    () =>
+      this.usersService.users().length > 0 &&
+      this.usersService.selectedUsers().length === this.usersService.users().length
+  );
+  someSelected = computed(() => !!this.usersService.selectedUsers().length && !this.allSelected());
+
+  // Text of the bulk tag field
+  tagText = signal('');
+  private tagInput = viewChild<ElementRef<HTMLInputElement>>('tagInput');
+
+  // Last clicked card, start of a Shift+click range
+  private selectionAnchor: number | null = null;
+
+  // Placeholder cards shown while the first page of users loads
+  readonly skeletons = Array.from({ length: 6 }, (_, index) => index);
 
   constructor() {
-    // Effect that triggers when search changes, automatically filters users
+    // Effect that triggers when the URL changes, automatically filters users
+    effect(() => {
+      this.usersService.setQuery(this.query());
+    });
+
+    // Time from a change of the results or of the layout to the end of the next render
+    effect(() => {
+      const start = performance.now();
+      this.query();
+      this.usersService.page();
+      afterNextRender(
+        () =>
+          this.renderStats.set({
+            cards: this.host.nativeElement.querySelectorAll('app-user-card').length,
+            ms: performance.now() - start,
+          }),
+        { injector: this.injector }
+      );
+    });
+
+    // URL → search box, only for external changes (back button, clear filters, shared link)
     effect(() => {
-      this.usersService.filterUsers(this.search());
+      const search = this.query().search;
+      if (search !== this.pushedSearch.trim()) {
+        this.pushedSearch = search;
+        this.searchText.set(search);
+      }
     });
+
+    // Search box → URL, after a pause in typing
+    toObservable(this.searchText)
+      .pipe(
+        debounceTime(SEARCH_DEBOUNCE_MS),
+        filter((search) => search.trim() !== this.pushedSearch.trim()),
+        takeUntilDestroyed()
+      )
+      .subscribe((search) => {
+        this.pushedSearch = search;
+        // Replace the history entry: back should not step through every typed prefix
+        this.updateQuery({ search }, true);
+      });
+  }
+
+  // Load users unless the service already holds fresh data
+  ngOnInit() {
+    this.usersService.fetchUsers();
   }
 
-  // Getter to access users from the service
+  // Getter to access the users of the current page from the service
   get users(): User[] {
-    return this.usersService.users();
+    return this.usersService.page().items;
+  }
+
+  /**
+   * Change the list state by navigating to the matching query params
+   *
+   * @param changes - Fields to change, the page goes back to 1 unless given
+   * @param replaceUrl - Replace the history entry (typing in the search box)
+   */
+  updateQuery(changes: Partial<UsersQuery>, replaceUrl = false) {
+    const next: UsersQuery = { ...this.query(), page: 1, ...changes };
+    this.router.navigate([], {
+      relativeTo: this.route,
+      queryParams: toUsersQueryParams(next),
+      queryParamsHandling: 'merge',
+      replaceUrl,
+    });
+  }
+
+  toggleDirection() {
+    this.updateQuery({ direction: this.query().direction === 'asc' ? 'desc' : 'asc' });
+  }
+
+  goToPage(page: number) {
+    this.updateQuery({ page });
+  }
+
+  // Cards, list or map, keeping the page for when the cards come back
+  setView(view: UsersView) {
+    this.updateQuery({ view, page: this.query().page });
+  }
+
+  setVirtual(virtual: boolean) {
+    this.updateQuery({ virtual });
+  }
+
+  // Identity of a user in the virtual scroller
+  trackUser = (user: User) => user.id;
+
+  // Replace the users with a large synthetic dataset, all of them on one page
+  generateUsers() {
+    const start = performance.now();
+    this.usersService.loadGeneratedUsers(GENERATED_USERS_COUNT);
+    const ms = Math.round(performance.now() - start);
+    // Company and city filters name API values, they would hide every generated user
+    const { search, company, city, hasWebsite } = DEFAULT_USERS_QUERY;
+    this.updateQuery({ search, company, city, hasWebsite, pageSize: ALL_USERS_PAGE_SIZE });
+    this.toastService.success(
+      `Generati ${GENERATED_USERS_COUNT.toLocaleString('it-IT')} utenti in ${ms} ms`
+    );
+  }
+
+  clearFilters() {
+    const { search, company, city, hasWebsite } = DEFAULT_USERS_QUERY;
+    this.updateQuery({ search, company, city, hasWebsite });
   }
 
-  // Reload the users list
+  // Reload the users list, even if it is still fresh
   fetchUsers() {
-    this.usersService.fetchUsers();
+    this.usersService.fetchUsers({ force: true });
+  }
+
+  // Abort the request in flight
+  cancelFetch() {
+    this.usersService.cancel();
+  }
+
+  // Repeat the failed request
+  retry() {
+    this.usersService.retry();
+  }
+
+  openCreate() {
+    this.dialog.set('new');
+  }
+
+  // Receives the user from child UserCard component
+  openEdit(user: User) {
+    this.dialog.set(user);
+  }
+
+  closeDialog() {
+    this.dialog.set(null);
+  }
+
+  // Create or update, depending on how the dialog was opened
+  saveUser(draft: UserDraft) {
+    const dialog = this.dialog();
+    if (dialog === 'new') {
+      this.usersService.createUser(draft);
+    } else if (dialog) {
+      // Keep the fields the form does not edit (id, local tags)
+      this.usersService.updateUser({ ...dialog, ...draft });
+    }
+    this.closeDialog();
   }
 
   // Delete a user, receives ID from child UserCard component
   deleteUser(userId: number) {
-    this.usersService.deleteUser(userId);
+    this.removeUsers([userId]);
+  }
+
+  /**
+   * Select or deselect a card, receives the click from child UserCard component
+   *
+   * @param event - New state of the card; with range, every user between the last clicked
+   *   card and this one (in list order, across pages) gets the same state
+   */
+  onSelect({ userId, selected, range }: UserSelectEvent) {
+    const ids = this.usersService.users().map((user) => user.id);
+    const from = this.selectionAnchor === null ? -1 : ids.indexOf(this.selectionAnchor);
+    const to = ids.indexOf(userId);
+    if (range && from !== -1 && to !== -1) {
+      const [start, end] = from < to ? [from, to] : [to, from];
+      this.usersService.setSelected(ids.slice(start, end + 1), selected);
+    } else {
+      this.usersService.setSelected([userId], selected);
+    }
+    this.selectionAnchor = userId;
+  }
+
+  // Select-all checkbox: every result of the current search and filters, or none
+  toggleSelectAll() {
+    if (this.allSelected()) {
+      this.clearSelection();
+    } else {
+      this.usersService.selectAll();
+    }
+  }
+
+  clearSelection() {
+    this.usersService.clearSelection();
+    this.selectionAnchor = null;
+  }
+
+  deleteSelected() {
+    this.removeUsers(this.usersService.selectedUsers().map((user) => user.id));
+  }
+
+  // Export dialog for the current results (every page) or for the selection
+  openExport(scope: ExportScope = 'filtered') {
+    this.transfer.set({ mode: 'export', scope });
+  }
+
+  openImport() {
+    this.transfer.set({ mode: 'import', scope: 'filtered' });
+  }
+
+  closeTransfer() {
+    this.transfer.set(null);
+  }
+
+  // Users the open export dialog writes
+  exportedUsers(scope: ExportScope): User[] {
+    return scope === 'selected' ? this.usersService.selectedUsers() : this.usersService.users();
+  }
+
+  // Download the file chosen in the export dialog
+  exportUsers({ format, columns }: UsersExportRequest) {
+    const scope = this.transfer()?.scope ?? 'filtered';
+    const users = this.exportedUsers(scope);
+    downloadFile(
+      serializeUsers(users, format, columns),
+      exportFilename(scope === 'selected' ? 'utenti-selezionati' : 'utenti', format),
+      USERS_FILE_TYPES[format]
+    );
+    this.closeTransfer();
+    this.toastService.success(
+      users.length === 1 ? '1 utente esportato' : `${users.length} utenti esportati`
+    );
+  }
+
+  // Merge the valid rows of the imported file
+  importUsers(rows: ImportedUser[]) {
+    const { added, updated } = this.usersService.importUsers(rows);
+    this.closeTransfer();
+    this.toastService.success(`Importazione completata: ${added} nuovi, ${updated} aggiornati`);
+  }
+
+  // Add the tag typed in the bulk bar to every selected user
+  tagSelected() {
+    const tag = this.tagText().trim();
+    const users = this.usersService.selectedUsers();
+    if (!tag || !users.length) {
+      return;
+    }
+    this.usersService.tagUsers(users.map((user) => user.id), tag);
+    this.tagText.set('');
+    this.toastService.success(
+      `Tag "${tag}" aggiunto a ${users.length === 1 ? '1 utente' : `${users.length} utenti`}`
+    );
+  }
+
+  // Remove a tag, receives it from child UserCard component
+  untag({ userId, tag }: UserTagEvent) {
+    this.usersService.untagUser(userId, tag);
+  }
+
+  // Ctrl+A select all, Esc deselect, Canc/Backspace delete, E export, T tag
+  @HostListener('document:keydown', ['$event'])
+  onKeydown(event: KeyboardEvent) {
+    const target = event.target as HTMLElement;
+    const isTextField = target.closest(
+      'input:not([type="checkbox"]), textarea, select, [contenteditable]'
+    );
+    if (isTextField || this.dialog() || this.transfer() || event.altKey) {
+      return;
+    }
+
+    const key = event.key.toLowerCase();
+    if (event.ctrlKey || event.metaKey) {
+      if (key === 'a' && this.usersService.users().length) {
+        event.preventDefault();
+        this.usersService.selectAll();
+      }
+      return;
+    }
+    if (!this.usersService.selectedUsers().length) {
+      return;
+    }
+
+    switch (key) {
+      case 'escape':
+        this.clearSelection();
+        break;
+      case 'delete':
+      case 'backspace':
+        event.preventDefault();
+        this.deleteSelected();
+        break;
+      case 'e':
+        this.openExport('selected');
+        break;
+      case 't':
+        // Do not type the "t" into the field that gets the focus
+        event.preventDefault();
+        this.tagInput()?.nativeElement.focus();
+        break;
+    }
+  }
+
+  // Remove users at once and offer undo; the deletion reaches the server when the toast closes
+  private removeUsers(userIds: number[]) {
+    const removed = this.usersService.deleteUsers(userIds);
+    if (!removed.length) {
+      return;
+    }
+    const ids = removed.map((user) => user.id);
+    const message =
+      removed.length === 1
+        ? `Utente ${removed[0].name} eliminato`
+        : `${removed.length} utenti eliminati`;
+    this.toastService.show(message, {
+      actions: [{ label: 'Annulla', run: () => this.usersService.undoDelete(ids) }],
+      durationMs: UNDO_DELETE_MS,
+      // Closed without undo (timeout or close button): delete them on the server
+      onClose: (reason) => {
+        if (reason !== 'action') {
+          this.usersService.confirmDelete(ids);
+        }
+      },
+    });
   }
 }
@@ -0,0 +1,54 @@
+// COMPONENT TYPE: Utility
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Hold the rules a User must satisfy, shared by the form dialog and the file import
+//
+// PATTERNS USED:
+// - Plain constants, no Angular dependencies
+//
+// NOTES FOR CONTRIBUTORS:
+// - Changing a rule here changes both UserFormDialog and users-import.ts
+// - Keep the limits in sync with the messages shown to the user
+
+export const USERNAME_PATTERN = /^[A-Za-z0-9._-]+$/;
+export const PHONE_PATTERN = /^[0-9+().\sx-]*$/;
+export const WEBSITE_PATTERN = /^[A-Za-z0-9.-]+\.[A-Za-z]{2,}(\/\S*)?$/;
+export const ZIPCODE_PATTERN = /^[A-Za-z0-9 -]{3,10}$/;
+// Same rule as Angular's Validators.email: a dotted local part, @, a hostname
+const EMAIL_PATTERN =
+  /^(?=.{1,254}$)(?=.{1,64}@)[a-zA-Z0-9!#$%&'*+/=?^_`{|}~-]+(?:\.[a-zA-Z0-9!#$%&'*+/=?^_`{|}~-]+)*@[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?(?:\.[a-zA-Z0-9](?:[a-zA-Z0-9-]{0,61}[a-zA-Z0-9])?)*$/;
+
+export const NAME_LENGTH = { min: 2, max: 50 };
+export const USERNAME_MIN_LENGTH = 3;
+export const AGE_RANGE = { min: 0, max: 130 };
+
+// Age of a new user until one is given (create form, imported rows without age)
+export const DEFAULT_USER_AGE = 18;
+
+// Latitude and longitude bounds, in degrees
+export const LAT_LIMIT = 90;
+export const LNG_LIMIT = 180;
+
+/**
+ * Check a coordinate: the API keeps them as strings that must parse to a number
+ *
+ * @param value - Coordinate text, empty is allowed
+ * @param limit - LAT_LIMIT or LNG_LIMIT
+ * @returns boolean - True when empty or a number within [-limit, limit]
+ */
+export function isValidCoordinate(value: string, limit: number): boolean {
+  const text = value.trim();
+  const number = Number(text);
+  return !text || (Number.isFinite(number) && Math.abs(number) <= limit);
+}
+
+/**
+ * Check an email address
+ *
+ * @param value - Email text, empty is allowed (required is checked separately)
+ * @returns boolean - True when empty or matching EMAIL_PATTERN
+ */
+export function isValidEmail(value: string): boolean {
+  return !value || EMAIL_PATTERN.test(value);
+}
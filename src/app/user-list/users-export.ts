@@ -0,0 +1,184 @@
+// COMPONENT TYPE: Utility
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Describe the exportable columns of a User, nested fields flattened (address.city, ...)
+// - Serialize users to CSV or JSON with a chosen set of columns
+//
+// PATTERNS USED:
+// - Pure functions, no DOM access (the download is services/file-download.ts)
+// - Column table keyed by dotted path, shared with the import (users-import.ts)
+//
+// NOTES FOR CONTRIBUTORS:
+// - Adding a User field: add its column to USER_COLUMNS, export and import follow
+// - CSV follows RFC 4180 (comma separated, quotes doubled), tags are joined with "; "
+
+import { User } from '../../types/users';
+
+export type UsersFileFormat = 'csv' | 'json';
+
+export type UserColumnKey =
+  | 'id'
+  | 'name'
+  | 'surname'
+  | 'username'
+  | 'email'
+  | 'age'
+  | 'phone'
+  | 'website'
+  | 'address.street'
+  | 'address.suite'
+  | 'address.city'
+  | 'address.zipcode'
+  | 'address.geo.lat'
+  | 'address.geo.lng'
+  | 'company.name'
+  | 'company.catchPhrase'
+  | 'company.bs'
+  | 'tags';
+
+export type UserColumnGroup = 'Utente' | 'Indirizzo' | 'Azienda';
+
+export interface UserColumn {
+  key: UserColumnKey; // Dotted path in the User, also the CSV header
+  label: string;
+  group: UserColumnGroup;
+}
+
+export const USER_COLUMNS: UserColumn[] = [
+  { key: 'id', label: 'ID', group: 'Utente' },
+  { key: 'name', label: 'Nome', group: 'Utente' },
+  { key: 'surname', label: 'Cognome', group: 'Utente' },
+  { key: 'username', label: 'Username', group: 'Utente' },
+  { key: 'email', label: 'Email', group: 'Utente' },
+  { key: 'age', label: 'Età', group: 'Utente' },
+  { key: 'phone', label: 'Telefono', group: 'Utente' },
+  { key: 'website', label: 'Sito web', group: 'Utente' },
+  { key: 'tags', label: 'Tag', group: 'Utente' },
+  { key: 'address.street', label: 'Via', group: 'Indirizzo' },
+  { key: 'address.suite', label: 'Interno', group: 'Indirizzo' },
+  { key: 'address.city', label: 'Città', group: 'Indirizzo' },
+  { key: 'address.zipcode', label: 'CAP', group: 'Indirizzo' },
+  { key: 'address.geo.lat', label: 'Latitudine', group: 'Indirizzo' },
+  { key: 'address.geo.lng', label: 'Longitudine', group: 'Indirizzo' },
+  { key: 'company.name', label: 'Azienda', group: 'Azienda' },
+  { key: 'company.catchPhrase', label: 'Slogan', group: 'Azienda' },
+  { key: 'company.bs', label: 'Settore', group: 'Azienda' },
+];
+
+export const USER_COLUMN_KEYS = USER_COLUMNS.map((column) => column.key);
+
+// Separator of the tags inside one CSV cell
+export const CSV_TAG_SEPARATOR = '; ';
+
+/**
+ * Read a nested value by dotted path
+ *
+ * @param source - Object to read
+ * @param path - e.g. 'address.geo.lat'
+ * @returns unknown - The value, undefined when a step is missing
+ */
+export function getPath(source: unknown, path: string): unknown {
+  let value = source;
+  for (const key of path.split('.')) {
+    if (value === null || typeof value !== 'object') {
+      return undefined;
+    }
+    value = (value as Record<string, unknown>)[key];
+  }
+  return value;
+}
+
+/**
+ * Write a nested value by dotted path, creating the intermediate objects
+ *
+ * @param target - Object to change
+ * @param path - e.g. 'address.geo.lat'
+ * @param value - Value to write
+ */
+export function setPath(target: Record<string, unknown>, path: string, value: unknown) {
+  const keys = path.split('.');
+  const last = keys.pop()!;
+  let node = target;
+  for (const key of keys) {
+    if (node[key] === null || typeof node[key] !== 'object') {
+      node[key] = {};
+    }
+    node = node[key] as Record<string, unknown>;
+  }
+  node[last] = value;
+}
+
+// Text of a column for CSV: empty for missing values, tags joined
+function cellText(user: User, key: UserColumnKey): string {
+  const value = getPath(user, key);
+  if (Array.isArray(value)) {
+    return value.join(CSV_TAG_SEPARATOR);
+  }
+  return value === undefined || value === null ? '' : String(value);
+}
+
+// Quote a CSV cell when it contains a separator, a quote or a line break
+function csvCell(text: string): string {
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * Users as CSV, one row per user after a header with the column keys
+ *
+ * @param users - Users to export
+ * @param columns - Columns to include, in order
+ * @returns string - CSV text (CRLF line endings)
+ */
+export function usersToCsv(users: User[], columns: UserColumnKey[] = USER_COLUMN_KEYS): string {
+  const rows = [columns, ...users.map((user) => columns.map((key) => cellText(user, key)))];
+  return rows.map((row) => row.map(csvCell).join(',')).join('\r\n');
+}
+
+/**
+ * Users as pretty-printed JSON
+ *
+ * @param users - Users to export
+ * @param columns - Fields to keep, nested objects are rebuilt around them
+ * @returns string - JSON array, same shape as the API
+ */
+export function usersToJson(users: User[], columns: UserColumnKey[] = USER_COLUMN_KEYS): string {
+  const picked = users.map((user) => {
+    const item: Record<string, unknown> = {};
+    for (const key of columns) {
+      const value = getPath(user, key);
+      if (value !== undefined) {
+        setPath(item, key, value);
+      }
+    }
+    return item;
+  });
+  return JSON.stringify(picked, null, 2);
+}
+
+/**
+ * Users in the chosen format
+ *
+ * @param users - Users to export
+ * @param format - 'csv' or 'json'
+ * @param columns - Columns to include
+ * @returns string - File content
+ */
+export function serializeUsers(
+  users: User[],
+  format: UsersFileFormat,
+  columns: UserColumnKey[] = USER_COLUMN_KEYS
+): string {
+  return format === 'csv' ? usersToCsv(users, columns) : usersToJson(users, columns);
+}
+
+// MIME type of each format, for downloadFile()
+export const USERS_FILE_TYPES: Record<UsersFileFormat, string> = {
+  csv: 'text/csv;charset=utf-8',
+  json: 'application/json',
+};
+
+// Name for an export file, e.g. utenti-2024-05-31.json
+export function exportFilename(prefix: string, extension: string, date = new Date()): string {
+  return `${prefix}-${date.toISOString().slice(0, 10)}.${extension}`;
+}
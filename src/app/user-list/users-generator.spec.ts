@@ -0,0 +1,28 @@
+import { usersToJson } from './users-export';
+import { generateUsers } from './users-generator';
+import { parseUsersFile } from './users-import';
+
+describe('generateUsers', () => {
+  it('should create the requested number of users with consecutive ids', () => {
+    expect(generateUsers(0)).toEqual([]);
+    const users = generateUsers(5, { firstId: 100 });
+    expect(users.map((user) => user.id)).toEqual([100, 101, 102, 103, 104]);
+  });
+
+  it('should give the same users for the same seed', () => {
+    expect(generateUsers(20, { seed: 7 })).toEqual(generateUsers(20, { seed: 7 }));
+    expect(generateUsers(20, { seed: 7 })).not.toEqual(generateUsers(20, { seed: 8 }));
+  });
+
+  it('should make usernames and emails unique', () => {
+    const users = generateUsers(500);
+    expect(new Set(users.map((user) => user.username)).size).toBe(500);
+    expect(new Set(users.map((user) => user.email)).size).toBe(500);
+  });
+
+  it('should create users that import back without errors', () => {
+    const result = parseUsersFile(usersToJson(generateUsers(200)), 'json', []);
+    expect(result).toEqual(expect.objectContaining({ status: 'parsed', errors: [] }));
+    expect(result.status === 'parsed' && result.rows.length).toBe(200);
+  });
+});
@@ -0,0 +1,130 @@
+// COMPONENT TYPE: Utility
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Create any number of synthetic users, to try the list with a large dataset
+//
+// PATTERNS USED:
+// - Pure function, no Angular dependencies
+// - Seeded pseudo-random generator: the same seed gives the same users
+//
+// NOTES FOR CONTRIBUTORS:
+// - Generated users satisfy the rules in user-validation.ts, so an export imports back
+// - Cities come with real coordinates plus some jitter, the map view spreads them around
+// - Generated users exist only in the browser: UsersService edits them without requests
+
+import { User } from '../../types/users';
+
+// Size of the generated dataset offered by the users list
+export const GENERATED_USERS_COUNT = 10_000;
+
+export interface GenerateUsersOptions {
+  seed?: number;
+  firstId?: number; // Ids are consecutive from here
+}
+
+// prettier-ignore
+const FIRST_NAMES = [
+  'Alessandro', 'Alessia', 'Andrea', 'Anna', 'Chiara', 'Davide', 'Elena', 'Federica',
+  'Francesco', 'Gabriele', 'Giulia', 'Giorgia', 'Leonardo', 'Lorenzo', 'Luca', 'Marco',
+  'Martina', 'Matteo', 'Paolo', 'Riccardo', 'Sara', 'Simone', 'Sofia', 'Valentina',
+];
+
+// prettier-ignore
+const SURNAMES = [
+  'Bianchi', 'Bruno', 'Colombo', 'Conti', 'Costa', 'De Luca', 'Esposito', 'Ferrari',
+  'Fontana', 'Galli', 'Gallo', 'Greco', 'Lombardi', 'Mancini', 'Marino', 'Moretti',
+  'Ricci', 'Rinaldi', 'Romano', 'Rossi', 'Russo', 'Santoro', 'Testa', 'Villa',
+];
+
+// prettier-ignore
+const STREETS = [
+  'Via Roma', 'Via Garibaldi', 'Via Mazzini', 'Corso Italia', 'Via Verdi', 'Piazza Dante',
+  'Via Cavour', 'Viale Europa', 'Via dei Mille', 'Via Manzoni',
+];
+
+// [city, latitude, longitude]
+// prettier-ignore
+const CITIES: [string, number, number][] = [
+  ['Roma', 41.9, 12.5], ['Milano', 45.46, 9.19], ['Napoli', 40.85, 14.27],
+  ['Torino', 45.07, 7.69], ['Bologna', 44.49, 11.34], ['Firenze', 43.77, 11.25],
+  ['Palermo', 38.12, 13.36], ['Londra', 51.51, -0.13], ['Parigi', 48.86, 2.35],
+  ['Berlino', 52.52, 13.4], ['Madrid', 40.42, -3.7], ['New York', 40.71, -74.01],
+  ['San Paolo', -23.55, -46.63], ['Città del Capo', -33.92, 18.42], ['Tokyo', 35.68, 139.69],
+  ['Sydney', -33.87, 151.21], ['Mumbai', 19.08, 72.88], ['Toronto', 43.65, -79.38],
+];
+
+const COMPANY_NAMES = ['Tech', 'Logistica', 'Consulting', 'Design', 'Energia', 'Software'];
+const CATCH_PHRASES = [
+  'Soluzioni su misura',
+  'Innovazione ogni giorno',
+  'Qualità prima di tutto',
+  'Il futuro è adesso',
+];
+const SECTORS = ['e-commerce', 'servizi cloud', 'analisi dati', 'formazione', 'marketing'];
+
+// Mulberry32: small and fast, good enough for demo data
+function seededRandom(seed: number): () => number {
+  let state = seed >>> 0;
+  return () => {
+    state = (state + 0x6d2b79f5) >>> 0;
+    let t = state;
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+// Lowercase ASCII without spaces, for usernames, emails and websites
+function slug(text: string): string {
+  return text.toLowerCase().replace(/[^a-z0-9]/g, '');
+}
+
+/**
+ * Create synthetic users
+ *
+ * @param count - How many users
+ * @param options - Seed of the random values and id of the first user
+ * @returns User[] - Users shaped like the API ones, in id order
+ */
+export function generateUsers(count: number, options: GenerateUsersOptions = {}): User[] {
+  const random = seededRandom(options.seed ?? 1);
+  const firstId = options.firstId ?? 1;
+  const pick = <T>(items: T[]): T => items[Math.floor(random() * items.length)];
+  const digits = (length: number) =>
+    Array.from({ length }, () => Math.floor(random() * 10)).join('');
+
+  return Array.from({ length: count }, (_, index) => {
+    const id = firstId + index;
+    const name = pick(FIRST_NAMES);
+    const surname = pick(SURNAMES);
+    const username = `${slug(name)}.${slug(surname)}${id}`;
+    const [city, lat, lng] = pick(CITIES);
+    const company = `${surname} ${pick(COMPANY_NAMES)}`;
+    return {
+      id,
+      name,
+      surname,
+      username,
+      email: `${username}@example.com`,
+      age: 18 + Math.floor(random() * 63),
+      address: {
+        street: `${pick(STREETS)} ${1 + Math.floor(random() * 200)}`,
+        suite: `Interno ${1 + Math.floor(random() * 30)}`,
+        city,
+        zipcode: digits(5),
+        geo: {
+          lat: (lat + (random() - 0.5) * 0.6).toFixed(4),
+          lng: (lng + (random() - 0.5) * 0.6).toFixed(4),
+        },
+      },
+      phone: `3${digits(2)} ${digits(3)} ${digits(4)}`,
+      website: random() < 0.6 ? `${slug(surname)}${id}.it` : '',
+      company: {
+        name: company,
+        catchPhrase: pick(CATCH_PHRASES),
+        bs: pick(SECTORS),
+      },
+    };
+  });
+}
@@ -0,0 +1,289 @@
+import { User } from '../../types/users';
+import {
+  ImportedUser,
+  UsersImport,
+  parseCsv,
+  parseUsersFile,
+  usersFileFormat,
+} from './users-import';
+import { usersToCsv, usersToJson } from './users-export';
+
+const HEADER = 'id,name,username,email,address.street,address.city,address.zipcode,company.name';
+
+// Valid cells for the columns of HEADER, id first
+const valid = (id = '') => `${id},Mario,mario.rossi,mario@example.com,Via Roma 1,Roma,00100,Acme`;
+
+const csv = (...lines: string[]) => lines.join('\n');
+
+const existing: User = {
+  id: 3,
+  name: 'Clementine',
+  surname: 'Bauch',
+  username: 'Samantha',
+  email: 'nathan@yesenia.net',
+  age: 40,
+  address: {
+    street: 'Douglas Extension',
+    suite: 'Suite 847',
+    city: 'McKenziehaven',
+    zipcode: '59590-4157',
+    geo: { lat: '-68.6102', lng: '-47.0653' },
+  },
+  phone: '1-463-123-4447',
+  website: 'ramiro.info',
+  company: { name: 'Romaguera-Jacobson', catchPhrase: 'Face to face', bs: 'e-commerce' },
+  tags: ['vip'],
+};
+
+// Parse a file that must be readable
+function parsed(text: string, format: 'csv' | 'json' = 'csv', users: User[] = [existing]) {
+  const result: UsersImport = parseUsersFile(text, format, users);
+  if (result.status !== 'parsed') {
+    throw new Error(`Unexpected invalid file: ${result.message}`);
+  }
+  return result;
+}
+
+const rowNumbers = (items: { row: number }[]) => items.map((item) => item.row);
+
+describe('usersFileFormat', () => {
+  it('should recognize the supported extensions', () => {
+    expect(usersFileFormat('utenti.CSV')).toBe('csv');
+    expect(usersFileFormat('export.2024.json')).toBe('json');
+    expect(usersFileFormat('utenti.xlsx')).toBeNull();
+    expect(usersFileFormat('utenti')).toBeNull();
+  });
+});
+
+describe('parseCsv', () => {
+  it('should split cells and unquote them', () => {
+    const records = parseCsv('a,"b, c","say ""hi""",\r\n1,2,3,4');
+    expect(records.map((record) => record.cells)).toEqual([
+      ['a', 'b, c', 'say "hi"', ''],
+      ['1', '2', '3', '4'],
+    ]);
+  });
+
+  it('should keep line breaks inside quotes and skip blank lines', () => {
+    expect(parseCsv('\uFEFFname,note\n\n"Anna","riga 1\nriga 2"\r\n\r\nLuca,x\n')).toEqual([
+      { line: 1, cells: ['name', 'note'] },
+      { line: 3, cells: ['Anna', 'riga 1\nriga 2'] },
+      { line: 6, cells: ['Luca', 'x'] },
+    ]);
+  });
+
+  it('should count a lone carriage return as a line break', () => {
+    expect(parseCsv('a\rb\r\rc').map((record) => record.line)).toEqual([1, 2, 4]);
+  });
+
+  it('should return no records for an empty text', () => {
+    expect(parseCsv('')).toEqual([]);
+    expect(parseCsv('\n\r\n')).toEqual([]);
+  });
+});
+
+describe('parseUsersFile (CSV)', () => {
+  it('should reject a file without users or known columns', () => {
+    expect(parseUsersFile('', 'csv', [])).toEqual({
+      status: 'invalid',
+      message: expect.stringContaining('Nessuna colonna riconosciuta'),
+    });
+    expect(parseUsersFile('nome,cognome\nMario,Rossi', 'csv', []).status).toBe('invalid');
+    expect(parseUsersFile(HEADER, 'csv', [])).toEqual({
+      status: 'invalid',
+      message: 'Il file non contiene utenti',
+    });
+  });
+
+  it('should add a new user with defaults for the missing columns', () => {
+    const { rows, errors } = parsed(csv(HEADER, valid()));
+    expect(errors).toEqual([]);
+    expect(rows).toEqual<ImportedUser[]>([
+      {
+        row: 2,
+        kind: 'add',
+        id: null,
+        draft: {
+          name: 'Mario',
+          surname: '',
+          username: 'mario.rossi',
+          email: 'mario@example.com',
+          age: 18,
+          phone: '',
+          website: '',
+          address: {
+            street: 'Via Roma 1',
+            suite: '',
+            city: 'Roma',
+            zipcode: '00100',
+            geo: { lat: '', lng: '' },
+          },
+          company: { name: 'Acme', catchPhrase: '', bs: '' },
+        },
+      },
+    ]);
+  });
+
+  it('should keep a free id and read age and tags', () => {
+    const { rows } = parsed(csv(`${HEADER},age,tags,colonna`, `${valid('12')},35,a; b ;,ignorata`));
+    expect(rows[0]).toEqual(
+      expect.objectContaining({
+        kind: 'add',
+        id: 12,
+        draft: expect.objectContaining({ age: 35, tags: ['a', 'b'] }),
+      })
+    );
+  });
+
+  it('should update a known id, changing only the columns in the file', () => {
+    const { rows } = parsed(csv('id,email,address.city,tags', '3,clem@example.com,Roma,'));
+    expect(rows).toEqual([
+      {
+        row: 2,
+        kind: 'update',
+        user: {
+          ...existing,
+          email: 'clem@example.com',
+          address: { ...existing.address, city: 'Roma' },
+          tags: [],
+        },
+      },
+    ]);
+    // The existing user is not changed until the rows are merged
+    expect(existing.email).toBe('nathan@yesenia.net');
+  });
+
+  it('should report the line where each record starts', () => {
+    const { rows, errors } = parsed(
+      csv(
+        `${HEADER},company.catchPhrase`,
+        '',
+        `${valid()},"Su due`,
+        'righe"',
+        '',
+        `${valid()},x`,
+        `,M,mario.rossi,mario@example.com,Via Roma 1,Roma,00100,Acme,"a`,
+        '',
+        'b"',
+        '1,2,3'
+      )
+    );
+    expect(rowNumbers(rows)).toEqual([3, 6]);
+    expect(errors).toEqual([
+      { row: 7, messages: ['Nome: minimo 2 caratteri'] },
+      { row: 10, messages: ['3 colonne invece di 9'] },
+    ]);
+  });
+
+  it('should report every invalid field of a row', () => {
+    const { rows, errors } = parsed(
+      csv(
+        `${HEADER},age,website,address.geo.lat`,
+        'x1,,ma,mario,,Roma,0,Acme,200,sito,91',
+        ',Mario,mario rossi,mario@example.com,Via Roma 1,Roma,00100,,1.5,a.it,"45,5"'
+      )
+    );
+    expect(rows).toEqual([]);
+    expect(errors).toEqual([
+      {
+        row: 2,
+        messages: [
+          'ID: deve essere un intero positivo',
+          'Nome: campo obbligatorio',
+          'Username: minimo 3 caratteri',
+          'Email: formato email non valido',
+          'Età: deve essere un intero tra 0 e 130',
+          'Sito web: formato non valido',
+          'Via: campo obbligatorio',
+          'CAP: formato non valido',
+          'Latitudine: deve essere un numero tra -90 e 90',
+        ],
+      },
+      {
+        row: 3,
+        messages: [
+          'Username: formato non valido',
+          'Età: deve essere un intero tra 0 e 130',
+          'Latitudine: deve essere un numero tra -90 e 90',
+          'Azienda: campo obbligatorio',
+        ],
+      },
+    ]);
+  });
+
+  it('should check emails with the same rule as the form dialog', () => {
+    const errors = (email: string) => parsed(csv('id,email', `3,${email}`)).errors;
+    expect(errors('mario..rossi@example.com')).toEqual([
+      { row: 2, messages: ['Email: formato email non valido'] },
+    ]);
+    expect(errors('mario@-example.com').length).toBe(1);
+    expect(errors('mario@example')).toEqual([]);
+  });
+
+  it('should reject a required column emptied by an update', () => {
+    const { errors } = parsed(csv('id,name', '3,'));
+    expect(errors).toEqual([{ row: 2, messages: ['Nome: campo obbligatorio'] }]);
+  });
+
+  it('should reject an id used twice in the file', () => {
+    const { rows, errors } = parsed(csv(HEADER, valid('20'), valid('20')));
+    expect(rowNumbers(rows)).toEqual([2]);
+    expect(errors).toEqual([{ row: 3, messages: ['ID: 20 è già usato alla riga 2'] }]);
+  });
+
+  it('should read back an export', () => {
+    const { rows, errors } = parsed(usersToCsv([existing]));
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([{ row: 2, kind: 'update', user: existing }]);
+  });
+});
+
+describe('parseUsersFile (JSON)', () => {
+  it('should reject files that are not an array', () => {
+    expect(parseUsersFile('{', 'json', [])).toEqual({
+      status: 'invalid',
+      message: 'Il file non contiene JSON valido',
+    });
+    expect(parseUsersFile('{"id": 1}', 'json', [])).toEqual({
+      status: 'invalid',
+      message: 'Il file JSON deve contenere un array di utenti',
+    });
+    expect(parseUsersFile('[]', 'json', []).status).toBe('invalid');
+  });
+
+  it('should number the elements of the array', () => {
+    const user = {
+      name: 'Mario',
+      username: 'mario.rossi',
+      email: 'mario@example.com',
+      age: 30,
+      address: { street: 'Via Roma 1', city: 'Roma', zipcode: '00100' },
+      company: { name: 'Acme' },
+    };
+    const { rows, errors } = parsed(
+      JSON.stringify([user, 'Mario', { ...user, tags: ['a', 1] }, { ...user, address: 'Roma' }]),
+      'json'
+    );
+    expect(rows).toEqual([
+      expect.objectContaining({ row: 1, kind: 'add', draft: expect.objectContaining({ age: 30 }) }),
+    ]);
+    expect(errors).toEqual([
+      { row: 2, messages: ["L'elemento non è un oggetto utente"] },
+      { row: 3, messages: ['Tag: deve essere un elenco di testi'] },
+      {
+        row: 4,
+        messages: [
+          'Via: campo obbligatorio',
+          'Città: campo obbligatorio',
+          'CAP: campo obbligatorio',
+        ],
+      },
+    ]);
+  });
+
+  it('should read back an export', () => {
+    const { rows, errors } = parsed(usersToJson([existing]), 'json');
+    expect(errors).toEqual([]);
+    expect(rows).toEqual([{ row: 1, kind: 'update', user: existing }]);
+  });
+});
@@ -0,0 +1,468 @@
+// COMPONENT TYPE: Utility
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Parse a CSV or JSON file of users (the formats written by users-export.ts)
+// - Validate every row against the User interface, collecting row-level errors
+// - Tell new users from updates of users already in the list
+//
+// PATTERNS USED:
+// - Pure functions, no Angular dependencies
+// - Result object instead of thrown errors: the dialog shows the problems before merging
+// - Same rules as the form dialog (user-validation.ts)
+//
+// NOTES FOR CONTRIBUTORS:
+// - Columns are the dotted keys of USER_COLUMNS; unknown CSV headers and JSON fields are ignored
+// - A row whose id is already in the list updates it: only the columns in the file change,
+//   so required fields are only required when present
+// - A row without id (or with an unknown one) is a new user, every required field must be there
+//   (a missing age gets DEFAULT_USER_AGE, like in the create form)
+// - Row numbers match what the user sees: line of the file where the CSV record starts
+//   (header = 1, quoted line breaks count), position in the array for JSON
+
+import { User } from '../../types/users';
+import { UserDraft } from '../../services/users.service';
+import {
+  CSV_TAG_SEPARATOR,
+  USER_COLUMNS,
+  USER_COLUMN_KEYS,
+  UserColumnKey,
+  UsersFileFormat,
+  getPath,
+} from './users-export';
+import {
+  AGE_RANGE,
+  DEFAULT_USER_AGE,
+  LAT_LIMIT,
+  LNG_LIMIT,
+  NAME_LENGTH,
+  PHONE_PATTERN,
+  USERNAME_MIN_LENGTH,
+  USERNAME_PATTERN,
+  WEBSITE_PATTERN,
+  ZIPCODE_PATTERN,
+  isValidCoordinate,
+  isValidEmail,
+} from './user-validation';
+
+export interface ImportRowError {
+  row: number;
+  messages: string[];
+}
+
+// A valid row, ready to be merged by UsersService.importUsers()
+export type ImportedUser =
+  | { row: number; kind: 'add'; id: number | null; draft: UserDraft }
+  | { row: number; kind: 'update'; user: User };
+
+export type UsersImport =
+  | { status: 'invalid'; message: string } // The file itself cannot be read
+  | { status: 'parsed'; rows: ImportedUser[]; errors: ImportRowError[] };
+
+// Values found in one row of the file, by column
+type RawRecord = Partial<Record<UserColumnKey, unknown>>;
+
+// Validated values of a row, only for the columns it has
+interface RecordValues {
+  texts: Partial<Record<UserColumnKey, string>>;
+  age?: number;
+  tags?: string[];
+}
+
+// One CSV record and the line of the file where it starts (1-based)
+export interface CsvRecord {
+  line: number;
+  cells: string[];
+}
+
+interface FieldRule {
+  required?: boolean;
+  check?: (text: string) => string | null; // Message for a non-empty invalid value
+}
+
+const pattern =
+  (regex: RegExp, message = 'formato non valido') =>
+  (text: string) =>
+    regex.test(text) ? null : message;
+
+const maxLength = (max: number) => (text: string) =>
+  text.length > max ? `massimo ${max} caratteri` : null;
+
+const coordinate = (limit: number) => (text: string) =>
+  isValidCoordinate(text, limit) ? null : `deve essere un numero tra -${limit} e ${limit}`;
+
+// Text columns with rules, the others are optional free text
+const fieldRules: Partial<Record<UserColumnKey, FieldRule>> = {
+  name: {
+    required: true,
+    check: (text) =>
+      text.length < NAME_LENGTH.min
+        ? `minimo ${NAME_LENGTH.min} caratteri`
+        : maxLength(NAME_LENGTH.max)(text),
+  },
+  surname: { check: maxLength(NAME_LENGTH.max) },
+  username: {
+    required: true,
+    check: (text) =>
+      text.length < USERNAME_MIN_LENGTH
+        ? `minimo ${USERNAME_MIN_LENGTH} caratteri`
+        : pattern(USERNAME_PATTERN)(text),
+  },
+  email: {
+    required: true,
+    check: (text) => (isValidEmail(text) ? null : 'formato email non valido'),
+  },
+  phone: { check: pattern(PHONE_PATTERN) },
+  website: { check: pattern(WEBSITE_PATTERN) },
+  'address.street': { required: true },
+  'address.city': { required: true },
+  'address.zipcode': { required: true, check: pattern(ZIPCODE_PATTERN) },
+  'address.geo.lat': { check: coordinate(LAT_LIMIT) },
+  'address.geo.lng': { check: coordinate(LNG_LIMIT) },
+  'company.name': { required: true },
+};
+
+const columnLabels = new Map(USER_COLUMNS.map((column) => [column.key, column.label]));
+
+const isColumnKey = (value: string): value is UserColumnKey =>
+  (USER_COLUMN_KEYS as string[]).includes(value);
+
+/**
+ * Format of a users file from its name
+ *
+ * @param filename - Name of the chosen file
+ * @returns UsersFileFormat | null - null for unsupported extensions
+ */
+export function usersFileFormat(filename: string): UsersFileFormat | null {
+  const extension = filename.split('.').pop()?.toLowerCase();
+  return extension === 'csv' || extension === 'json' ? extension : null;
+}
+
+/**
+ * Split CSV text into records of cells (RFC 4180: quoted cells may hold commas, quotes and
+ * line breaks)
+ *
+ * @param text - CSV content
+ * @returns CsvRecord[] - Records with their first line, blank lines skipped
+ */
+export function parseCsv(text: string): CsvRecord[] {
+  const records: CsvRecord[] = [];
+  let cells: string[] = [];
+  let cell = '';
+  let quoted = false;
+  let line = 1; // Line of the character being read
+  let start = 1; // Line where the current record started
+
+  // Spreadsheets often save UTF-8 with a byte order mark
+  const source = text.replace(/^\uFEFF/, '');
+  const endRecord = () => {
+    cells.push(cell);
+    if (cells.length > 1 || cells[0] !== '') {
+      records.push({ line: start, cells });
+    }
+    cells = [];
+    cell = '';
+  };
+
+  for (let i = 0; i < source.length; i++) {
+    const char = source[i];
+    // CRLF, LF and a lone CR all end one line, outside quotes they also end the record
+    const lineBreak = char === '\n' || (char === '\r' && source[i + 1] !== '\n');
+    if (quoted) {
+      if (char === '"' && source[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        quoted = false;
+      } else {
+        cell += char;
+      }
+    } else if (char === '"') {
+      quoted = true;
+    } else if (char === ',') {
+      cells.push(cell);
+      cell = '';
+    } else if (char !== '\r' && char !== '\n') {
+      cell += char;
+    }
+    if (lineBreak) {
+      line++;
+      if (!quoted) {
+        endRecord();
+        start = line;
+      }
+    }
+  }
+  endRecord();
+  return records;
+}
+
+// Text of a cell / JSON value, null when it cannot be text (objects, arrays)
+function toText(value: unknown): string | null {
+  if (value === undefined || value === null) {
+    return '';
+  }
+  return typeof value === 'object' ? null : String(value).trim();
+}
+
+// Tags from a CSV cell ("a; b") or a JSON array of strings
+function toTags(value: unknown): string[] | null {
+  if (Array.isArray(value)) {
+    return value.every((tag) => typeof tag === 'string')
+      ? value.map((tag) => tag.trim()).filter(Boolean)
+      : null;
+  }
+  const text = toText(value);
+  return text === null
+    ? null
+    : text
+        .split(CSV_TAG_SEPARATOR.trim())
+        .map((tag) => tag.trim())
+        .filter(Boolean);
+}
+
+// Starting point of new users: the columns missing from the file keep these values
+function emptyDraft(): UserDraft {
+  return {
+    name: '',
+    surname: '',
+    username: '',
+    email: '',
+    age: DEFAULT_USER_AGE,
+    phone: '',
+    website: '',
+    address: { street: '', suite: '', city: '', zipcode: '', geo: { lat: '', lng: '' } },
+    company: { name: '', catchPhrase: '', bs: '' },
+  };
+}
+
+/**
+ * Copy the values of a row over a user or a new draft
+ *
+ * @param base - Existing user (update) or emptyDraft() (new user)
+ * @param values - Validated values of the row
+ * @returns T - A new object, base is not changed
+ */
+function applyValues<T extends UserDraft>(base: T, { texts, age, tags }: RecordValues): T {
+  const text = (key: UserColumnKey, current: string) => texts[key] ?? current;
+  const { address, company } = base;
+  return {
+    ...base,
+    name: text('name', base.name),
+    surname: text('surname', base.surname),
+    username: text('username', base.username),
+    email: text('email', base.email),
+    age: age ?? base.age,
+    phone: text('phone', base.phone),
+    website: text('website', base.website),
+    tags: tags ?? base.tags,
+    address: {
+      street: text('address.street', address.street),
+      suite: text('address.suite', address.suite),
+      city: text('address.city', address.city),
+      zipcode: text('address.zipcode', address.zipcode),
+      geo: {
+        lat: text('address.geo.lat', address.geo.lat),
+        lng: text('address.geo.lng', address.geo.lng),
+      },
+    },
+    company: {
+      name: text('company.name', company.name),
+      catchPhrase: text('company.catchPhrase', company.catchPhrase),
+      bs: text('company.bs', company.bs),
+    },
+  };
+}
+
+/**
+ * Validate one row
+ *
+ * @param record - Values of the row, by column
+ * @param existing - User with the same id already in the list, if any
+ * @returns { messages, values } - Problems found (empty when valid) and the values read
+ */
+function readRecord(
+  record: RawRecord,
+  existing: User | undefined
+): { messages: string[]; values: RecordValues } {
+  const messages: string[] = [];
+  const values: RecordValues = { texts: {} };
+  const fail = (key: UserColumnKey, message: string) =>
+    messages.push(`${columnLabels.get(key)}: ${message}`);
+
+  for (const key of USER_COLUMN_KEYS) {
+    if (key === 'id') {
+      continue;
+    }
+    const present = key in record;
+    const value = record[key];
+
+    if (key === 'tags') {
+      const tags = present ? toTags(value) : null;
+      if (present && tags === null) {
+        fail(key, 'deve essere un elenco di testi');
+      } else if (tags) {
+        values.tags = tags;
+      }
+      continue;
+    }
+
+    const text = present ? toText(value) : '';
+    if (text === null) {
+      fail(key, 'valore non valido');
+      continue;
+    }
+
+    if (key === 'age') {
+      const age = Number(text);
+      if (text && (!Number.isInteger(age) || age < AGE_RANGE.min || age > AGE_RANGE.max)) {
+        fail(key, `deve essere un intero tra ${AGE_RANGE.min} e ${AGE_RANGE.max}`);
+      } else if (text) {
+        values.age = age;
+      }
+      continue;
+    }
+
+    const rule = fieldRules[key];
+    // Updates keep the current value of the columns missing from the file
+    if (rule?.required && !text && (present || !existing)) {
+      fail(key, 'campo obbligatorio');
+    } else if (text && rule?.check) {
+      const message = rule.check(text);
+      if (message) {
+        fail(key, message);
+      }
+    }
+    if (present) {
+      values.texts[key] = text;
+    }
+  }
+  return { messages, values };
+}
+
+/**
+ * Parse and validate a users file
+ *
+ * @param text - File content
+ * @param format - 'csv' or 'json'
+ * @param existing - Users already in the list, rows with their ids become updates
+ * @returns UsersImport - Valid rows and row-level errors, or why the file cannot be read
+ */
+export function parseUsersFile(
+  text: string,
+  format: UsersFileFormat,
+  existing: User[]
+): UsersImport {
+  const read = format === 'csv' ? readCsvRecords(text) : readJsonRecords(text);
+  if ('message' in read) {
+    return { status: 'invalid', message: read.message };
+  }
+  if (!read.records.length && !read.errors.length) {
+    return { status: 'invalid', message: 'Il file non contiene utenti' };
+  }
+
+  const byId = new Map(existing.map((user) => [user.id, user]));
+  const seenIds = new Map<number, number>(); // id → first row using it
+  const rows: ImportedUser[] = [];
+  const errors = [...read.errors];
+
+  for (const { row, record } of read.records) {
+    const messages: string[] = [];
+    const idText = toText(record.id) ?? '';
+    let id: number | null = null;
+    if (idText && !/^[1-9]\d*$/.test(idText)) {
+      messages.push('ID: deve essere un intero positivo');
+    } else if (idText) {
+      id = Number(idText);
+      const firstRow = seenIds.get(id);
+      if (firstRow !== undefined) {
+        messages.push(`ID: ${id} è già usato alla riga ${firstRow}`);
+      }
+      seenIds.set(id, firstRow ?? row);
+    }
+
+    const current = id === null ? undefined : byId.get(id);
+    const { messages: fieldMessages, values } = readRecord(record, current);
+    messages.push(...fieldMessages);
+
+    if (messages.length) {
+      errors.push({ row, messages });
+    } else if (current) {
+      rows.push({ row, kind: 'update', user: applyValues(current, values) });
+    } else {
+      rows.push({ row, kind: 'add', id, draft: applyValues(emptyDraft(), values) });
+    }
+  }
+
+  errors.sort((a, b) => a.row - b.row);
+  return { status: 'parsed', rows, errors };
+}
+
+type ReadRecords =
+  | { message: string }
+  | { records: { row: number; record: RawRecord }[]; errors: ImportRowError[] };
+
+// CSV: header with column keys, then one user per row
+function readCsvRecords(text: string): ReadRecords {
+  const [header, ...lines] = parseCsv(text);
+  const columns = (header?.cells ?? []).map((name) => name.trim());
+  if (!columns.some(isColumnKey)) {
+    return {
+      message:
+        "Nessuna colonna riconosciuta: usa le intestazioni dell'esportazione " +
+        '(es. name, email, address.city)',
+    };
+  }
+
+  const records: { row: number; record: RawRecord }[] = [];
+  const errors: ImportRowError[] = [];
+  lines.forEach(({ line: row, cells }) => {
+    if (cells.length !== columns.length) {
+      errors.push({
+        row,
+        messages: [`${cells.length} colonne invece di ${columns.length}`],
+      });
+      return;
+    }
+    const record: RawRecord = {};
+    columns.forEach((column, cell) => {
+      if (isColumnKey(column)) {
+        record[column] = cells[cell];
+      }
+    });
+    records.push({ row, record });
+  });
+  return { records, errors };
+}
+
+// JSON: array of users, nested like the API
+function readJsonRecords(text: string): ReadRecords {
+  let data: unknown;
+  try {
+    data = JSON.parse(text);
+  } catch {
+    return { message: 'Il file non contiene JSON valido' };
+  }
+  if (!Array.isArray(data)) {
+    return { message: 'Il file JSON deve contenere un array di utenti' };
+  }
+
+  const records: { row: number; record: RawRecord }[] = [];
+  const errors: ImportRowError[] = [];
+  data.forEach((item: unknown, index) => {
+    const row = index + 1;
+    if (item === null || typeof item !== 'object' || Array.isArray(item)) {
+      errors.push({ row, messages: ["L'elemento non è un oggetto utente"] });
+      return;
+    }
+    const record: RawRecord = {};
+    for (const key of USER_COLUMN_KEYS) {
+      const value = getPath(item, key);
+      if (value !== undefined) {
+        record[key] = value;
+      }
+    }
+    records.push({ row, record });
+  });
+  return { records, errors };
+}
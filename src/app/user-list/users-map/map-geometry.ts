@@ -0,0 +1,135 @@
+// COMPONENT TYPE: Utility
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Project geo coordinates on the users map (equirectangular: x = longitude, y = latitude)
+// - Group nearby points into clusters
+// - Build the SVG paths of the world outlines and of the graticule
+//
+// PATTERNS USED:
+// - Pure functions, no Angular dependencies
+//
+// NOTES FOR CONTRIBUTORS:
+// - Map units: the world is MAP_WIDTH × MAP_HEIGHT, one unit per degree, y grows southwards
+// - Clustering uses a grid of cells as large as the radius: linear in the number of points
+
+import { Geo } from '../../../types/users';
+import { LAT_LIMIT, LNG_LIMIT, isValidCoordinate } from '../user-validation';
+import { WORLD_OUTLINES } from './world-outline';
+
+export const MAP_WIDTH = 360;
+export const MAP_HEIGHT = 180;
+
+export interface MapPoint {
+  x: number;
+  y: number;
+}
+
+export interface MapCluster<T> extends MapPoint {
+  key: string; // Stable while the cluster keeps its first item
+  items: T[];
+}
+
+/**
+ * Position of a coordinate on the map
+ *
+ * @param geo - Latitude and longitude, as strings like in the API
+ * @returns MapPoint | null - null when the coordinates are missing or out of range
+ */
+export function toMapPoint(geo: Geo | undefined): MapPoint | null {
+  const lat = String(geo?.lat ?? '').trim();
+  const lng = String(geo?.lng ?? '').trim();
+  if (!lat || !lng || !isValidCoordinate(lat, LAT_LIMIT) || !isValidCoordinate(lng, LNG_LIMIT)) {
+    return null;
+  }
+  return { x: Number(lng) + 180, y: 90 - Number(lat) };
+}
+
+/**
+ * Group points closer than a radius
+ *
+ * @param points - Points with the item they stand for
+ * @param radius - Map units; points in the same or in a neighbouring cell of this size merge
+ * @param key - Identifier of an item, used for the cluster key
+ * @returns MapCluster<T>[] - Clusters at the centroid of their points
+ */
+export function clusterPoints<T>(
+  points: (MapPoint & { item: T })[],
+  radius: number,
+  key: (item: T) => string | number
+): MapCluster<T>[] {
+  const clusters: (MapCluster<T> & { sumX: number; sumY: number })[] = [];
+  const cells = new Map<string, number>(); // Cell → index in clusters
+
+  for (const point of points) {
+    const cellX = Math.floor(point.x / radius);
+    const cellY = Math.floor(point.y / radius);
+
+    // Join the nearest cluster started in this cell or in one around it
+    let target = -1;
+    let best = radius * radius;
+    for (let dx = -1; dx <= 1; dx++) {
+      for (let dy = -1; dy <= 1; dy++) {
+        const index = cells.get(`${cellX + dx}:${cellY + dy}`);
+        if (index === undefined) {
+          continue;
+        }
+        const distance = (clusters[index].x - point.x) ** 2 + (clusters[index].y - point.y) ** 2;
+        if (distance <= best) {
+          best = distance;
+          target = index;
+        }
+      }
+    }
+
+    if (target === -1) {
+      cells.set(`${cellX}:${cellY}`, clusters.length);
+      clusters.push({
+        key: String(key(point.item)),
+        x: point.x,
+        y: point.y,
+        sumX: point.x,
+        sumY: point.y,
+        items: [point.item],
+      });
+    } else {
+      const cluster = clusters[target];
+      cluster.items.push(point.item);
+      cluster.sumX += point.x;
+      cluster.sumY += point.y;
+      cluster.x = cluster.sumX / cluster.items.length;
+      cluster.y = cluster.sumY / cluster.items.length;
+    }
+  }
+
+  return clusters.map(({ key, x, y, items }) => ({ key, x, y, items }));
+}
+
+// SVG path of a polygon given as [longitude, latitude] pairs
+function polygonPath(points: [number, number][]): string {
+  return (
+    points
+      .map(([lng, lat], index) => `${index ? 'L' : 'M'}${lng + 180},${90 - lat}`)
+      .join('') + 'Z'
+  );
+}
+
+// Continents, one path per outline
+export const WORLD_PATHS = WORLD_OUTLINES.map(polygonPath);
+
+/**
+ * Meridians and parallels every step degrees, as one SVG path
+ *
+ * @param step - Degrees between lines
+ * @returns string - Path data
+ */
+export function graticulePath(step = 30): string {
+  const lines: string[] = [];
+  for (let x = step; x < MAP_WIDTH; x += step) {
+    lines.push(`M${x},0V${MAP_HEIGHT}`);
+  }
+  for (let y = step; y < MAP_HEIGHT; y += step) {
+    lines.push(`M0,${y}H${MAP_WIDTH}`);
+  }
+  return lines.join('');
+}
@@ -0,0 +1,242 @@
+// COMPONENT TYPE: Presentational
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Plot users on a world map from address.geo, without external tiles
+// - Cluster nearby markers, zoom into clusters and pan by dragging
+// - Show a summary card (like UserCard) when hovering or focusing a marker
+// - Select users from the map: the selection is the same as in the cards view
+//
+// PATTERNS USED:
+// - Inline SVG with a viewBox for zoom and pan
+// - @Input setters feeding signals, computed clusters
+// - @Input/@Output: the parent owns the selection (UsersService)
+//
+// NOTES FOR CONTRIBUTORS:
+// - Geometry and clustering live in map-geometry.ts, outlines in world-outline.ts
+// - Sizes are divided by the zoom so markers and labels keep their size on screen
+// - Users without valid coordinates are counted, not plotted
+
+import { Component, EventEmitter, Input, Output, computed, signal } from '@angular/core';
+import { User } from '../../../types/users';
+import { Icon } from '../../components/icon/icon';
+import {
+  MAP_HEIGHT,
+  MAP_WIDTH,
+  MapCluster,
+  WORLD_PATHS,
+  clusterPoints,
+  graticulePath,
+  toMapPoint,
+} from './map-geometry';
+
+// Selection change from the map: one marker, or a whole cluster with Shift
+export interface UsersMapSelectEvent {
+  userIds: number[];
+  selected: boolean;
+}
+
+interface MapView {
+  x: number; // Top left corner, map units
+  y: number;
+  zoom: number;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 32;
+
+// Marker radius and cluster distance at zoom 1, map units
+const MARKER_RADIUS = 2.2;
+const CLUSTER_RADIUS = 8;
+
+// Names listed in the hover card of a cluster
+const MAX_CLUSTER_NAMES = 5;
+
+@Component({
+  selector: 'app-users-map',
+  imports: [Icon],
+  templateUrl: './users-map.html',
+  styleUrl: './users-map.scss',
+})
+export class UsersMap {
+  // Users to plot (search and filters already applied)
+  @Input() set users(users: User[]) {
+    this.usersSignal.set(users);
+  }
+
+  @Input() set selectedIds(ids: ReadonlySet<number>) {
+    this.selectedSignal.set(ids);
+  }
+
+  @Output() select = new EventEmitter<UsersMapSelectEvent>();
+
+  private usersSignal = signal<User[]>([]);
+  private selectedSignal = signal<ReadonlySet<number>>(new Set());
+
+  view = signal<MapView>({ x: 0, y: 0, zoom: MIN_ZOOM });
+
+  // Cluster under the pointer or with the keyboard focus
+  hovered = signal<MapCluster<User> | null>(null);
+
+  readonly worldPaths = WORLD_PATHS;
+  readonly graticule = graticulePath();
+  readonly mapWidth = MAP_WIDTH;
+  readonly mapHeight = MAP_HEIGHT;
+  readonly maxZoom = MAX_ZOOM;
+  readonly maxClusterNames = MAX_CLUSTER_NAMES;
+
+  // Users with valid coordinates, as map points
+  private points = computed(() =>
+    this.usersSignal().flatMap((user) => {
+      const point = toMapPoint(user.address?.geo);
+      return point ? [{ ...point, item: user }] : [];
+    })
+  );
+
+  unlocated = computed(() => this.usersSignal().length - this.points().length);
+
+  located = computed(() => this.points().length);
+
+  clusters = computed(() =>
+    clusterPoints(this.points(), CLUSTER_RADIUS / this.view().zoom, (user) => user.id)
+  );
+
+  viewBox = computed(() => {
+    const { x, y, zoom } = this.view();
+    return `${x} ${y} ${MAP_WIDTH / zoom} ${MAP_HEIGHT / zoom}`;
+  });
+
+  // Sizes in map units that look the same at every zoom
+  markerRadius = computed(() => MARKER_RADIUS / this.view().zoom);
+  labelSize = computed(() => 3 / this.view().zoom);
+
+  // Drag in progress: start position in pixels and view at that moment
+  private drag: { x: number; y: number; view: MapView; scale: number } | null = null;
+
+  // A drag ends with a click on whatever is under the pointer: ignore that one
+  private dragged = false;
+
+  clusterRadius(cluster: MapCluster<User>): number {
+    return this.markerRadius() * (1.4 + Math.log2(cluster.items.length) * 0.5);
+  }
+
+  isSelected(user: User): boolean {
+    return this.selectedSignal().has(user.id);
+  }
+
+  // 'all', 'some' or 'none' of the users of a cluster are selected
+  selectionOf(cluster: MapCluster<User>): 'all' | 'some' | 'none' {
+    const selected = cluster.items.filter((user) => this.isSelected(user)).length;
+    return selected === cluster.items.length ? 'all' : selected ? 'some' : 'none';
+  }
+
+  // Position of the hover card, percent of the visible area
+  cardPosition(cluster: MapCluster<User>): { left: number; top: number } {
+    const { x, y, zoom } = this.view();
+    return {
+      left: ((cluster.x - x) / (MAP_WIDTH / zoom)) * 100,
+      top: ((cluster.y - y) / (MAP_HEIGHT / zoom)) * 100,
+    };
+  }
+
+  /**
+   * Click on a marker or cluster
+   *
+   * @param cluster - Clicked cluster (a single user is a cluster of one)
+   * @param event - Shift selects the whole cluster instead of zooming into it
+   */
+  activate(cluster: MapCluster<User>, event: Event) {
+    if (this.dragged) {
+      return;
+    }
+    const single = cluster.items.length === 1;
+    const { shiftKey } = event as MouseEvent | KeyboardEvent;
+    // Users at the same spot stay clustered at any zoom: select them together
+    if (single || shiftKey || this.view().zoom >= MAX_ZOOM) {
+      this.select.emit({
+        userIds: cluster.items.map((user) => user.id),
+        selected: this.selectionOf(cluster) !== 'all',
+      });
+    } else {
+      this.zoomTo(cluster.x, cluster.y, this.view().zoom * 2);
+    }
+  }
+
+  zoomIn() {
+    this.zoomAround(this.view().zoom * 2);
+  }
+
+  zoomOut() {
+    this.zoomAround(this.view().zoom / 2);
+  }
+
+  resetView() {
+    this.view.set({ x: 0, y: 0, zoom: MIN_ZOOM });
+  }
+
+  /**
+   * Center the view on a point
+   *
+   * @param x - Map units
+   * @param y - Map units
+   * @param zoom - New zoom, clamped to MIN_ZOOM..MAX_ZOOM
+   */
+  zoomTo(x: number, y: number, zoom: number) {
+    const next = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, zoom));
+    this.setView(x - MAP_WIDTH / next / 2, y - MAP_HEIGHT / next / 2, next);
+  }
+
+  onPointerDown(event: PointerEvent) {
+    if (event.button !== 0) {
+      return;
+    }
+    const svg = event.currentTarget as SVGSVGElement;
+    this.dragged = false;
+    this.drag = {
+      x: event.clientX,
+      y: event.clientY,
+      view: this.view(),
+      // Map units per pixel (the SVG keeps the map aspect ratio)
+      scale: MAP_WIDTH / this.view().zoom / (svg.getBoundingClientRect().width || MAP_WIDTH),
+    };
+  }
+
+  onPointerMove(event: PointerEvent) {
+    if (!this.drag) {
+      return;
+    }
+    const dx = event.clientX - this.drag.x;
+    const dy = event.clientY - this.drag.y;
+    // A few pixels of jitter are still a click
+    if (!this.dragged && Math.hypot(dx, dy) < 4) {
+      return;
+    }
+    this.dragged = true;
+    this.hovered.set(null);
+    const { view, scale } = this.drag;
+    this.setView(view.x - dx * scale, view.y - dy * scale, view.zoom);
+  }
+
+  onPointerUp() {
+    this.drag = null;
+    // Clear after the click that follows pointerup
+    setTimeout(() => (this.dragged = false));
+  }
+
+  // Zoom keeping the center of the visible area
+  private zoomAround(zoom: number) {
+    const { x, y, zoom: current } = this.view();
+    this.zoomTo(x + MAP_WIDTH / current / 2, y + MAP_HEIGHT / current / 2, zoom);
+  }
+
+  // Move the view, never past the edges of the world
+  private setView(x: number, y: number, zoom: number) {
+    const maxX = MAP_WIDTH - MAP_WIDTH / zoom;
+    const maxY = MAP_HEIGHT - MAP_HEIGHT / zoom;
+    this.view.set({
+      x: Math.min(maxX, Math.max(0, x)),
+      y: Math.min(maxY, Math.max(0, y)),
+      zoom,
+    });
+  }
+}
@@ -0,0 +1,88 @@
+// COMPONENT TYPE: Data
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Coarse outlines of the continents and largest islands, drawn under the users map
+//
+// PATTERNS USED:
+// - Static data bundled with the app: the map works offline, no tile service
+//
+// NOTES FOR CONTRIBUTORS:
+// - Points are [longitude, latitude] in degrees, hand-simplified for orientation only
+// - Keep the outlines coarse: they are part of the bundle
+
+// prettier-ignore
+export const WORLD_OUTLINES: [number, number][][] = [
+  // North America
+  [
+    [-168, 66], [-162, 70], [-156, 71], [-140, 70], [-128, 70], [-115, 68], [-95, 72],
+    [-82, 73], [-80, 63], [-94, 59], [-92, 57], [-82, 55], [-79, 51], [-66, 59], [-61, 56],
+    [-55, 52], [-60, 47], [-66, 44], [-70, 41], [-76, 35], [-81, 31], [-80, 25], [-83, 29],
+    [-90, 30], [-97, 27], [-97, 22], [-92, 18], [-87, 21], [-88, 16], [-83, 15], [-83, 10],
+    [-78, 8], [-81, 8], [-86, 12], [-92, 14], [-98, 16], [-105, 20], [-106, 23], [-112, 29],
+    [-115, 30], [-110, 23], [-114, 28], [-117, 32], [-121, 35], [-124, 40], [-124, 47],
+    [-127, 51], [-133, 57], [-140, 60], [-147, 61], [-152, 59], [-158, 57], [-165, 55],
+    [-158, 59], [-162, 60], [-165, 63],
+  ],
+  // Greenland
+  [
+    [-73, 78], [-60, 82], [-30, 83], [-20, 80], [-20, 72], [-25, 68], [-40, 65], [-44, 60],
+    [-50, 64], [-54, 68], [-58, 75],
+  ],
+  // South America
+  [
+    [-80, 9], [-76, 9], [-72, 12], [-62, 11], [-52, 5], [-50, 0], [-44, -2], [-35, -5],
+    [-35, -9], [-39, -14], [-41, -22], [-48, -26], [-53, -34], [-58, -38], [-62, -39],
+    [-65, -45], [-68, -50], [-70, -55], [-74, -52], [-75, -46], [-73, -38], [-71, -30],
+    [-70, -18], [-76, -14], [-81, -6], [-80, -2], [-78, 2], [-77, 7],
+  ],
+  // Europe and Asia
+  [
+    [-9, 37], [-9, 43], [-2, 44], [-4, 48], [2, 51], [8, 54], [10, 57], [5, 58], [5, 62],
+    [14, 67], [20, 70], [28, 71], [40, 67], [44, 68], [55, 69], [68, 70], [73, 72], [80, 73],
+    [90, 75], [100, 78], [112, 76], [130, 72], [140, 72], [160, 70], [170, 70], [180, 68],
+    [180, 65], [172, 62], [163, 60], [156, 57], [156, 51], [155, 59], [143, 59], [137, 54],
+    [141, 49], [135, 43], [129, 41], [129, 35], [126, 37], [126, 40], [121, 39], [122, 31],
+    [119, 25], [111, 21], [108, 16], [109, 12], [105, 9], [103, 10], [100, 13], [100, 8],
+    [104, 1], [101, 3], [98, 8], [98, 16], [94, 17], [92, 22], [87, 21], [80, 15], [78, 8],
+    [73, 16], [72, 21], [67, 25], [62, 25], [57, 26], [56, 24], [60, 22], [55, 17], [52, 16],
+    [45, 13], [43, 13], [39, 21], [35, 28], [34, 31], [36, 36], [30, 36], [27, 37], [26, 40],
+    [29, 41], [36, 41], [41, 41], [36, 45], [30, 46], [28, 44], [24, 38], [22, 37], [20, 40],
+    [19, 42], [14, 45], [12, 44], [18, 40], [16, 38], [12, 42], [9, 44], [3, 43], [0, 39],
+    [-1, 37], [-5, 36],
+  ],
+  // Africa
+  [
+    [-17, 21], [-13, 28], [-9, 33], [-5, 36], [10, 37], [11, 33], [20, 31], [30, 31], [32, 30],
+    [35, 28], [39, 20], [43, 12], [51, 12], [51, 10], [44, 1], [40, -3], [40, -11], [35, -20],
+    [35, -24], [32, -29], [27, -34], [20, -35], [18, -32], [15, -27], [12, -17], [13, -12],
+    [9, -1], [9, 4], [4, 6], [-2, 5], [-8, 4], [-13, 8], [-17, 14],
+  ],
+  // Australia
+  [
+    [114, -22], [114, -26], [115, -34], [118, -35], [124, -33], [129, -32], [135, -35],
+    [138, -35], [140, -38], [145, -38], [150, -37], [153, -32], [153, -25], [146, -19],
+    [142, -11], [140, -17], [136, -12], [132, -11], [127, -14], [122, -18],
+  ],
+  // Antarctica
+  [
+    [-180, -78], [-150, -76], [-120, -73], [-90, -72], [-60, -64], [-58, -70], [-40, -78],
+    [-10, -71], [20, -70], [50, -67], [80, -67], [110, -66], [140, -67], [165, -72],
+    [180, -78], [180, -90], [-180, -90],
+  ],
+  // Great Britain
+  [[-5, 50], [1, 51], [2, 53], [-2, 56], [-2, 58], [-5, 58], [-6, 55], [-3, 54], [-5, 52]],
+  // Japan
+  [
+    [130, 31], [132, 34], [136, 34], [140, 35], [142, 40], [141, 45], [145, 44], [140, 41],
+    [139, 38], [136, 36], [133, 36], [130, 34],
+  ],
+  // Borneo
+  [[109, 2], [114, 4], [117, 7], [119, 5], [117, 1], [116, -4], [110, -3]],
+  // Sumatra
+  [[95, 5], [98, 4], [104, -2], [106, -6], [102, -4], [96, 2]],
+  // Madagascar
+  [[44, -25], [47, -25], [50, -15], [49, -12], [44, -17]],
+  // New Zealand
+  [[172, -34], [178, -38], [175, -41], [171, -44], [167, -46], [172, -41], [174, -37]],
+];
@@ -0,0 +1,227 @@
+import { User } from '../../types/users';
+import {
+  ALL_USERS_PAGE_SIZE,
+  DEFAULT_USERS_QUERY,
+  UsersQuery,
+  filterAndSortUsers,
+  pageWindow,
+  paginateUsers,
+  parseUsersQuery,
+  searchUsers,
+  toUsersQueryParams,
+} from './users-query';
+
+// Only the fields under test differ, the others never match a search
+function user(id: number, changes: Partial<User> = {}): User {
+  return {
+    id,
+    name: `Utente ${id}`,
+    surname: '',
+    username: `u${id}`,
+    email: `u${id}@x.it`,
+    age: 30,
+    address: {
+      street: '',
+      suite: '',
+      city: 'Roma',
+      zipcode: '00100',
+      geo: { lat: '0', lng: '0' },
+    },
+    phone: '000',
+    website: '',
+    company: { name: 'Zeta', catchPhrase: '', bs: '' },
+    ...changes,
+  };
+}
+
+const query = (changes: Partial<UsersQuery> = {}): UsersQuery => ({
+  ...DEFAULT_USERS_QUERY,
+  ...changes,
+});
+
+const ids = (users: User[]) => users.map((item) => item.id);
+
+describe('searchUsers', () => {
+  it('should return no matches for an empty search', () => {
+    expect(searchUsers([user(1)], '  ').size).toBe(0);
+  });
+
+  it('should keep the best weighted field score and every highlighted field', () => {
+    const matches = searchUsers([user(1, { name: 'Marco', username: 'marco.rossi' })], 'marco');
+    expect(matches.get(1)).toEqual({
+      score: 56,
+      highlights: {
+        name: [{ start: 0, end: 5 }],
+        username: [{ start: 0, end: 5 }],
+      },
+    });
+  });
+
+  it('should weigh the same match less in less relevant fields', () => {
+    const users = [
+      user(1, { name: 'Marco' }),
+      user(2, { username: 'marco' }),
+      user(3, { email: 'marco@x.it' }),
+      user(4, { company: { name: 'Marco', catchPhrase: '', bs: '' } }),
+      user(5, { phone: 'marco' }),
+      user(6),
+    ];
+    const scores = [...searchUsers(users, 'marco')].map(([id, match]) => [id, match.score]);
+    expect(scores).toEqual([
+      [1, 56],
+      [2, 56 * 0.9],
+      [3, 56 * 0.8],
+      [4, 56 * 0.7],
+      [5, 56 * 0.6],
+    ]);
+  });
+});
+
+describe('filterAndSortUsers', () => {
+  const users = [
+    user(1, { name: 'Bruno', company: { name: 'Acme', catchPhrase: '', bs: '' } }),
+    user(2, { name: 'anna', website: 'anna.it' }),
+    user(3, { name: 'Carla', website: ' ' }),
+    user(4, {
+      name: 'Anna',
+      address: { ...user(4).address, city: 'Milano' },
+      company: { name: 'Acme', catchPhrase: '', bs: '' },
+    }),
+  ];
+
+  it('should sort by the chosen field, ignoring case, then by id', () => {
+    expect(ids(filterAndSortUsers(users, query()))).toEqual([2, 4, 1, 3]);
+    expect(ids(filterAndSortUsers(users, query({ direction: 'desc' })))).toEqual([3, 1, 2, 4]);
+    expect(ids(filterAndSortUsers(users, query({ sort: 'city' })))).toEqual([4, 1, 2, 3]);
+  });
+
+  it('should apply the structured filters together', () => {
+    expect(ids(filterAndSortUsers(users, query({ company: 'Acme' })))).toEqual([4, 1]);
+    expect(ids(filterAndSortUsers(users, query({ city: 'Milano' })))).toEqual([4]);
+    expect(ids(filterAndSortUsers(users, query({ hasWebsite: true })))).toEqual([2]);
+    const both = query({ hasWebsite: false, company: 'Acme' });
+    expect(ids(filterAndSortUsers(users, both))).toEqual([4, 1]);
+  });
+
+  it('should rank by relevance before the chosen sort', () => {
+    const ranked = [
+      user(1, { name: 'Anna', email: 'marco@x.it' }),
+      user(2, { name: 'Bea', username: 'marco' }),
+      user(3, { name: 'Marco' }),
+      user(4, { name: 'Carla' }),
+    ];
+    expect(ids(filterAndSortUsers(ranked, query({ search: 'marco' })))).toEqual([3, 2, 1]);
+  });
+
+  it('should break relevance ties with the chosen sort, then by id', () => {
+    const tied = [
+      user(1, { name: 'Carla', username: 'rossi' }),
+      user(2, { name: 'Anna', username: 'rossi' }),
+      user(3, { name: 'Carla', username: 'rossi' }),
+    ];
+    const search = query({ search: 'rossi' });
+    expect(ids(filterAndSortUsers(tied, search))).toEqual([2, 1, 3]);
+    expect(ids(filterAndSortUsers(tied, { ...search, direction: 'desc' }))).toEqual([1, 3, 2]);
+  });
+});
+
+describe('paginateUsers', () => {
+  const users = Array.from({ length: 14 }, (_, index) => user(index + 1));
+
+  it('should cut the requested page', () => {
+    const page = paginateUsers(users, query({ page: 2 }));
+    expect(ids(page.items)).toEqual([7, 8, 9, 10, 11, 12]);
+    expect(page).toEqual(expect.objectContaining({ page: 2, start: 6, pageCount: 3, total: 14 }));
+  });
+
+  it('should clamp a page past the end to the last one', () => {
+    const page = paginateUsers(users, query({ page: 9 }));
+    expect(ids(page.items)).toEqual([13, 14]);
+    expect(page.page).toBe(3);
+  });
+
+  it('should put every user on one page', () => {
+    const page = paginateUsers(users, query({ pageSize: ALL_USERS_PAGE_SIZE, page: 2 }));
+    expect(page.items.length).toBe(14);
+    expect(page).toEqual(expect.objectContaining({ page: 1, pageCount: 1 }));
+  });
+
+  it('should have one empty page without users', () => {
+    expect(paginateUsers([], query())).toEqual({
+      items: [],
+      page: 1,
+      start: 0,
+      pageCount: 1,
+      total: 0,
+    });
+  });
+});
+
+describe('pageWindow', () => {
+  it('should show every page when there are few', () => {
+    expect(pageWindow(1, 1)).toEqual([1]);
+    expect(pageWindow(2, 3)).toEqual([1, 2, 3]);
+  });
+
+  it('should center the current page', () => {
+    expect(pageWindow(50, 1667)).toEqual([48, 49, 50, 51, 52]);
+  });
+
+  it('should stay full at both ends', () => {
+    expect(pageWindow(2, 1667)).toEqual([1, 2, 3, 4, 5]);
+    expect(pageWindow(1666, 1667)).toEqual([1663, 1664, 1665, 1666, 1667]);
+    expect(pageWindow(4, 10, 4)).toEqual([2, 3, 4, 5]);
+  });
+});
+
+describe('parseUsersQuery / toUsersQueryParams', () => {
+  it('should fall back to the defaults for missing or invalid params', () => {
+    expect(parseUsersQuery({})).toEqual(DEFAULT_USERS_QUERY);
+    expect(
+      parseUsersQuery({ sort: 'age', dir: 'up', page: '-2', size: '7', view: 'table', q: ['a'] })
+    ).toEqual(DEFAULT_USERS_QUERY);
+    expect(parseUsersQuery({ page: '1.5', website: 'maybe' })).toEqual(DEFAULT_USERS_QUERY);
+  });
+
+  it('should leave the defaults out of the URL', () => {
+    const params = toUsersQueryParams(DEFAULT_USERS_QUERY);
+    expect(Object.values(params).every((value) => value === null)).toBe(true);
+    expect(toUsersQueryParams(query({ search: '   ' }))['q']).toBeNull();
+  });
+
+  it('should round-trip every field', () => {
+    const full: UsersQuery = {
+      search: 'marco',
+      sort: 'city',
+      direction: 'desc',
+      page: 3,
+      pageSize: ALL_USERS_PAGE_SIZE,
+      company: 'Acme',
+      city: 'Milano',
+      hasWebsite: false,
+      view: 'list',
+      virtual: false,
+    };
+    const params = toUsersQueryParams(full);
+    expect(params).toEqual({
+      q: 'marco',
+      sort: 'city',
+      dir: 'desc',
+      page: 3,
+      size: 'all',
+      company: 'Acme',
+      city: 'Milano',
+      website: 'no',
+      view: 'list',
+      virtual: 'off',
+    });
+    // The router hands every param back as a string
+    const fromUrl = Object.fromEntries(
+      Object.entries(params).map(([key, value]) => [key, String(value)])
+    );
+    expect(parseUsersQuery(fromUrl)).toEqual(full);
+    expect(parseUsersQuery({ size: '24', website: 'yes' })).toEqual(
+      query({ pageSize: 24, hasWebsite: true })
+    );
+  });
+});
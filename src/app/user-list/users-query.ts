@@ -0,0 +1,277 @@
+// COMPONENT TYPE: Utility
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Describe the view state of the users list: search, filters, sorting, pagination and
+//   how results are shown (cards, list rows or map, virtual scrolling)
+// - Convert it from / to URL query params, so a filtered page can be shared
+// - Apply it to the loaded users (search → filter → rank / sort → paginate)
+//
+// PATTERNS USED:
+// - Pure functions, no Angular dependencies besides the Params type
+// - Defaults are omitted from the URL, unknown or invalid params fall back to them
+//
+// NOTES FOR CONTRIBUTORS:
+// - Adding a field: extend UsersQuery, DEFAULT_USERS_QUERY, parseUsersQuery and
+//   toUsersQueryParams together
+// - Pagination is client-side: JSONPlaceholder returns every user in one response
+// - pageSize ALL_USERS_PAGE_SIZE puts every match on one page (size=all in the URL)
+// - With a search, results are ranked by relevance first; the chosen sort breaks ties
+
+import { Params } from '@angular/router';
+import { User } from '../../types/users';
+import { MatchRange, fuzzyMatch } from './fuzzy-match';
+
+export type UserSortField = 'name' | 'username' | 'company' | 'city';
+
+export type SortDirection = 'asc' | 'desc';
+
+// How the results are shown
+export type UsersView = 'grid' | 'list' | 'map';
+
+export interface UsersQuery {
+  search: string;
+  sort: UserSortField;
+  direction: SortDirection;
+  page: number; // 1-based
+  pageSize: number;
+  company: string | null; // Exact company name
+  city: string | null; // Exact city
+  hasWebsite: boolean | null; // null = any
+  view: UsersView; // Not a filter: the map shows every page at once
+  virtual: boolean; // Render only the visible users when every user is on one page
+}
+
+export interface UsersPage {
+  items: User[];
+  page: number; // Requested page, clamped to the available ones
+  start: number; // Index of the first item among the matching users
+  pageCount: number;
+  total: number; // Users matching search and filters
+}
+
+// Fields the search looks at
+export type UserSearchField = 'name' | 'username' | 'email' | 'phone' | 'company';
+
+// Matched ranges per field, for highlighting
+export type UserHighlights = Partial<Record<UserSearchField, MatchRange[]>>;
+
+export interface UserSearchMatch {
+  score: number; // Best weighted field score
+  highlights: UserHighlights;
+}
+
+export const USER_SORT_FIELDS: Record<UserSortField, string> = {
+  name: 'Nome',
+  username: 'Username',
+  company: 'Azienda',
+  city: 'Città',
+};
+
+// Page size meaning "every matching user"
+export const ALL_USERS_PAGE_SIZE = 0;
+
+export const USER_PAGE_SIZES = [6, 12, 24, ALL_USERS_PAGE_SIZE];
+
+// Page numbers shown by the paginator around the current page
+export const PAGE_WINDOW_SIZE = 5;
+
+export const USER_VIEWS: Record<UsersView, string> = {
+  grid: 'Griglia',
+  list: 'Elenco',
+  map: 'Mappa',
+};
+
+export const DEFAULT_USERS_QUERY: UsersQuery = {
+  search: '',
+  sort: 'name',
+  direction: 'asc',
+  page: 1,
+  pageSize: USER_PAGE_SIZES[0],
+  company: null,
+  city: null,
+  hasWebsite: null,
+  view: 'grid',
+  virtual: true,
+};
+
+// Value each sort field compares
+const sortKeys: Record<UserSortField, (user: User) => string> = {
+  name: (user) => `${user.name} ${user.surname ?? ''}`,
+  username: (user) => user.username,
+  company: (user) => user.company.name,
+  city: (user) => user.address.city,
+};
+
+// Value of each searchable field, and how much a match there counts
+const searchFields: Record<UserSearchField, { value: (user: User) => string; weight: number }> = {
+  name: { value: (user) => user.name, weight: 1 },
+  username: { value: (user) => user.username, weight: 0.9 },
+  email: { value: (user) => user.email, weight: 0.8 },
+  company: { value: (user) => user.company.name, weight: 0.7 },
+  phone: { value: (user) => user.phone, weight: 0.6 },
+};
+
+const isSortField = (value: unknown): value is UserSortField =>
+  typeof value === 'string' && value in sortKeys;
+
+const isView = (value: unknown): value is UsersView =>
+  typeof value === 'string' && value in USER_VIEWS;
+
+// Positive integer param, or the fallback
+function positiveInt(value: unknown, fallback: number): number {
+  const number = Number(value);
+  return Number.isInteger(number) && number > 0 ? number : fallback;
+}
+
+/**
+ * Read the list state from the URL query params
+ *
+ * @param params - Query params of the current route
+ * @returns UsersQuery - Complete state, defaults for missing or invalid params
+ */
+export function parseUsersQuery(params: Params): UsersQuery {
+  const pageSize =
+    params['size'] === 'all'
+      ? ALL_USERS_PAGE_SIZE
+      : positiveInt(params['size'], DEFAULT_USERS_QUERY.pageSize);
+  return {
+    search: typeof params['q'] === 'string' ? params['q'] : '',
+    sort: isSortField(params['sort']) ? params['sort'] : DEFAULT_USERS_QUERY.sort,
+    direction: params['dir'] === 'desc' ? 'desc' : 'asc',
+    page: positiveInt(params['page'], 1),
+    pageSize: USER_PAGE_SIZES.includes(pageSize) ? pageSize : DEFAULT_USERS_QUERY.pageSize,
+    company: params['company'] || null,
+    city: params['city'] || null,
+    hasWebsite: params['website'] === 'yes' ? true : params['website'] === 'no' ? false : null,
+    view: isView(params['view']) ? params['view'] : DEFAULT_USERS_QUERY.view,
+    virtual: params['virtual'] !== 'off',
+  };
+}
+
+/**
+ * Write the list state as query params (null removes a param from the URL)
+ *
+ * @param query - List state
+ * @returns Params - For router.navigate([], { queryParams })
+ */
+export function toUsersQueryParams(query: UsersQuery): Params {
+  const byDefault = <K extends keyof UsersQuery>(key: K) =>
+    query[key] === DEFAULT_USERS_QUERY[key];
+  return {
+    q: query.search.trim() || null,
+    sort: byDefault('sort') ? null : query.sort,
+    dir: byDefault('direction') ? null : query.direction,
+    page: query.page > 1 ? query.page : null,
+    size: byDefault('pageSize')
+      ? null
+      : query.pageSize === ALL_USERS_PAGE_SIZE
+        ? 'all'
+        : query.pageSize,
+    company: query.company,
+    city: query.city,
+    website: query.hasWebsite === null ? null : query.hasWebsite ? 'yes' : 'no',
+    view: byDefault('view') ? null : query.view,
+    virtual: query.virtual ? null : 'off',
+  };
+}
+
+/**
+ * Fuzzy-search the users across name, username, email, company and phone
+ *
+ * @param users - Loaded users
+ * @param search - Search text
+ * @returns Map<number, UserSearchMatch> - Matching users by id (empty for an empty search)
+ */
+export function searchUsers(users: User[], search: string): Map<number, UserSearchMatch> {
+  const matches = new Map<number, UserSearchMatch>();
+  if (!search.trim()) {
+    return matches;
+  }
+  const fields = Object.entries(searchFields) as [UserSearchField, typeof searchFields.name][];
+  for (const user of users) {
+    let score = 0;
+    const highlights: UserHighlights = {};
+    for (const [field, { value, weight }] of fields) {
+      const match = fuzzyMatch(search, value(user) ?? '');
+      if (match) {
+        score = Math.max(score, match.score * weight);
+        highlights[field] = match.ranges;
+      }
+    }
+    if (score > 0) {
+      matches.set(user.id, { score, highlights });
+    }
+  }
+  return matches;
+}
+
+/**
+ * Users matching the search and the structured filters, ranked and sorted
+ *
+ * @param users - Loaded users
+ * @param query - List state
+ * @param matches - Result of searchUsers() for query.search (computed when omitted)
+ * @returns User[] - Every match, not paginated
+ */
+export function filterAndSortUsers(
+  users: User[],
+  query: UsersQuery,
+  matches = searchUsers(users, query.search)
+): User[] {
+  const searching = !!query.search.trim();
+  const key = sortKeys[query.sort];
+  const direction = query.direction === 'asc' ? 1 : -1;
+  const relevance = (user: User) => matches.get(user.id)?.score ?? 0;
+
+  return users
+    .filter(
+      (user) =>
+        (!searching || matches.has(user.id)) &&
+        (query.company === null || user.company.name === query.company) &&
+        (query.city === null || user.address.city === query.city) &&
+        (query.hasWebsite === null || !!user.website.trim() === query.hasWebsite)
+    )
+    .sort(
+      (a, b) =>
+        relevance(b) - relevance(a) ||
+        direction * key(a).localeCompare(key(b), 'it', { sensitivity: 'base' }) ||
+        a.id - b.id
+    );
+}
+
+/**
+ * Cut one page out of the matching users
+ *
+ * @param users - Filtered and sorted users
+ * @param query - List state (page and pageSize are used)
+ * @returns UsersPage - Items of the page plus the numbers the paginator needs
+ */
+export function paginateUsers(users: User[], query: UsersQuery): UsersPage {
+  const pageSize =
+    query.pageSize === ALL_USERS_PAGE_SIZE ? Math.max(1, users.length) : query.pageSize;
+  const pageCount = Math.max(1, Math.ceil(users.length / pageSize));
+  const page = Math.min(query.page, pageCount);
+  const start = (page - 1) * pageSize;
+  return {
+    items: users.slice(start, start + pageSize),
+    page,
+    start,
+    pageCount,
+    total: users.length,
+  };
+}
+
+/**
+ * Page numbers to show around the current page, so the paginator stays short with many pages
+ *
+ * @param page - Current page (1-based)
+ * @param pageCount - Number of pages
+ * @param size - How many numbers at most
+ * @returns number[] - Consecutive pages, the current one centered when possible
+ */
+export function pageWindow(page: number, pageCount: number, size = PAGE_WINDOW_SIZE): number[] {
+  const count = Math.min(size, pageCount);
+  const first = Math.min(Math.max(1, page - Math.floor(size / 2)), pageCount - count + 1);
+  return Array.from({ length: count }, (_, index) => first + index);
+}
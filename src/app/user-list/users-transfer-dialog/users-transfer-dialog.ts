@@ -0,0 +1,196 @@
+// COMPONENT TYPE: Presentational
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Export tab: choose CSV or JSON and the columns, nested fields included
+// - Import tab: read a CSV / JSON file and preview it, new users, updates and row errors
+// - Emit the export choices and the valid imported rows, the parent downloads and merges
+//
+// PATTERNS USED:
+// - @Input/@Output: no service calls here (same contract as UserFormDialog)
+// - Signals for the local dialog state
+// - Pure helpers for parsing and validation (users-import.ts)
+//
+// NOTES FOR CONTRIBUTORS:
+// - Nothing is merged before the user confirms: rows with errors are listed and skipped
+// - The file is read in the browser, it is never uploaded
+
+import {
+  Component,
+  EventEmitter,
+  HostListener,
+  Input,
+  OnInit,
+  Output,
+  computed,
+  signal,
+} from '@angular/core';
+import { UpperCasePipe } from '@angular/common';
+import { User } from '../../../types/users';
+import { Icon } from '../../components/icon/icon';
+import {
+  USER_COLUMNS,
+  USER_COLUMN_KEYS,
+  UserColumnGroup,
+  UserColumnKey,
+  UsersFileFormat,
+} from '../users-export';
+import { ImportedUser, UsersImport, parseUsersFile, usersFileFormat } from '../users-import';
+
+export type TransferMode = 'export' | 'import';
+
+// Users to export: the current results, or only the selected ones
+export type ExportScope = 'filtered' | 'selected';
+
+export interface UsersExportRequest {
+  format: UsersFileFormat;
+  columns: UserColumnKey[];
+}
+
+// Row errors listed in the preview, the rest is summarized
+const MAX_LISTED_ERRORS = 20;
+
+const COLUMN_GROUPS: UserColumnGroup[] = ['Utente', 'Indirizzo', 'Azienda'];
+
+@Component({
+  selector: 'app-users-transfer-dialog',
+  imports: [Icon, UpperCasePipe],
+  templateUrl: './users-transfer-dialog.html',
+  styleUrl: './users-transfer-dialog.scss',
+})
+export class UsersTransferDialog implements OnInit {
+  // Tab shown when the dialog opens
+  @Input() mode: TransferMode = 'export';
+
+  // Users the export writes
+  @Input() users: User[] = [];
+
+  @Input() scope: ExportScope = 'filtered';
+
+  // Users already loaded, imported rows with the same id update them
+  @Input() existing: User[] = [];
+
+  @Output() export = new EventEmitter<UsersExportRequest>();
+
+  // Valid rows of the imported file
+  @Output() import = new EventEmitter<ImportedUser[]>();
+
+  @Output() cancel = new EventEmitter<void>();
+
+  tab = signal<TransferMode>('export');
+
+  // Export choices
+  format = signal<UsersFileFormat>('csv');
+  readonly formats: UsersFileFormat[] = ['csv', 'json'];
+  columns = signal<ReadonlySet<UserColumnKey>>(new Set(USER_COLUMN_KEYS));
+
+  readonly groups = COLUMN_GROUPS.map((group) => ({
+    group,
+    columns: USER_COLUMNS.filter((column) => column.group === group),
+  }));
+
+  // Import state: chosen file and its parsed content
+  fileName = signal<string | null>(null);
+  result = signal<UsersImport | null>(null);
+
+  // Valid rows split into new users and updates, for the preview
+  summary = computed(() => {
+    const result = this.result();
+    if (result?.status !== 'parsed') {
+      return null;
+    }
+    return {
+      added: result.rows.filter((row) => row.kind === 'add').length,
+      updated: result.rows.filter((row) => row.kind === 'update').length,
+      valid: result.rows.length,
+      errors: result.errors.slice(0, MAX_LISTED_ERRORS),
+      hiddenErrors: Math.max(0, result.errors.length - MAX_LISTED_ERRORS),
+      errorRows: result.errors.length,
+    };
+  });
+
+  // "Riga" (spreadsheet line) for CSV, "Elemento" (array position) for JSON
+  rowLabel = signal('Riga');
+
+  ngOnInit() {
+    this.tab.set(this.mode);
+  }
+
+  isColumnSelected(key: UserColumnKey): boolean {
+    return this.columns().has(key);
+  }
+
+  toggleColumn(key: UserColumnKey) {
+    const next = new Set(this.columns());
+    if (!next.delete(key)) {
+      next.add(key);
+    }
+    this.columns.set(next);
+  }
+
+  // Select or clear every column of a group
+  setGroup(group: UserColumnGroup, selected: boolean) {
+    const next = new Set(this.columns());
+    for (const column of USER_COLUMNS.filter((item) => item.group === group)) {
+      if (selected) {
+        next.add(column.key);
+      } else {
+        next.delete(column.key);
+      }
+    }
+    this.columns.set(next);
+  }
+
+  // Emits the chosen format and columns, in table order
+  submitExport() {
+    const columns = USER_COLUMN_KEYS.filter((key) => this.columns().has(key));
+    if (columns.length && this.users.length) {
+      this.export.emit({ format: this.format(), columns });
+    }
+  }
+
+  /**
+   * Read and validate the chosen file, nothing is merged yet
+   *
+   * @param event - change event of the file input
+   */
+  async onFileChange(event: Event) {
+    const file = (event.target as HTMLInputElement).files?.[0];
+    this.result.set(null);
+    this.fileName.set(file?.name ?? null);
+    if (!file) {
+      return;
+    }
+
+    const format = usersFileFormat(file.name);
+    if (!format) {
+      this.result.set({ status: 'invalid', message: 'Scegli un file .csv o .json' });
+      return;
+    }
+    const text = await file.text();
+    // Another file may have been chosen while this one was being read
+    if (this.fileName() === file.name) {
+      this.rowLabel.set(format === 'csv' ? 'Riga' : 'Elemento');
+      this.result.set(parseUsersFile(text, format, this.existing));
+    }
+  }
+
+  // Emits the valid rows, rows with errors are left out
+  submitImport() {
+    const result = this.result();
+    if (result?.status === 'parsed' && result.rows.length) {
+      this.import.emit(result.rows);
+    }
+  }
+
+  @HostListener('document:keydown.escape')
+  close() {
+    this.cancel.emit();
+  }
+
+  onBackdropClick(event: MouseEvent) {
+    if (event.target === event.currentTarget) {
+      this.close();
+    }
+  }
+}
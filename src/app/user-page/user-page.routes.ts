@@ -0,0 +1,55 @@
+// COMPONENT TYPE: Routes
+// SECTION: HTTP and Async Operations
+//
+// ROLE:
+// - Define the lazy-loaded routes of the users example: list and user detail
+// - Resolve the user before the detail page renders
+// - Map each detail tab to a child route, so tabs can be deep linked
+//
+// PATTERNS USED:
+// - Lazy child routes (loadChildren in app.routes.ts)
+// - Functional resolver (userResolver) on the :id route
+// - Nested child routes rendered by the detail page's <router-outlet>
+//
+// NOTES FOR CONTRIBUTORS:
+// - A bare /examples/users/:id opens the profile tab
+// - Unknown tabs fall back to the profile tab instead of an empty outlet
+// - The resolver runs again only when the previous lookup failed (see UserDetail.retry())
+
+import { Routes } from '@angular/router';
+import { USER_ROUTE_DATA, UserLookup, userResolver } from '../user-detail/user.resolver';
+
+export const userRoutes: Routes = [
+  {
+    path: '',
+    loadComponent: () => import('./user-page').then((m) => m.UserPage),
+  },
+  {
+    path: ':id',
+    loadComponent: () => import('../user-detail/user-detail').then((m) => m.UserDetail),
+    resolve: { [USER_ROUTE_DATA]: userResolver },
+    // Switching tabs keeps the resolved user: resolve again on another id or after a failure
+    runGuardsAndResolvers: (from, to) =>
+      from.paramMap.get('id') !== to.paramMap.get('id') ||
+      (from.data[USER_ROUTE_DATA] as UserLookup | undefined)?.status === 'error',
+    children: [
+      { path: '', pathMatch: 'full', redirectTo: 'profile' },
+      {
+        path: 'profile',
+        loadComponent: () =>
+          import('../user-detail/user-profile/user-profile').then((m) => m.UserProfile),
+      },
+      {
+        path: 'location',
+        loadComponent: () =>
+          import('../user-detail/user-location/user-location').then((m) => m.UserLocation),
+      },
+      {
+        path: 'posts',
+        loadComponent: () =>
+          import('../user-detail/user-posts/user-posts').then((m) => m.UserPosts),
+      },
+      { path: '**', redirectTo: 'profile' },
+    ],
+  },
+];
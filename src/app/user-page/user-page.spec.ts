@@ -1,4 +1,5 @@
 import { ComponentFixture, TestBed } from '@angular/core/testing';
+import { provideRouter } from '@angular/router';
 
 import { UserPage } from './user-page';
 
@@ -8,7 +9,8 @@ describe('UserPage', () => {
 
   beforeEach(async () => {
     await TestBed.configureTestingModule({
-      imports: [UserPage]
+      imports: [UserPage],
+      providers: [provideRouter([])]
     })
     .compileComponents();
 
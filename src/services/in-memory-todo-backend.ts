@@ -0,0 +1,271 @@
+// COMPONENT TYPE: Utility
+// SECTION: HTTP and Data Access
+//
+// ROLE:
+// - Stand in for a real todo REST API so the NgRx effects demo works offline
+// - Persist todos (and the id sequence) to localStorage between page reloads
+// - Generate todo ids that are never reused, even after deletions (or a full replace)
+// - Fill defaults (priority, due date, tags, order) for new and previously saved todos
+// - Simulate network latency and (optionally) network failures
+//
+// PATTERNS USED:
+// - Functional HttpInterceptor that short-circuits requests to /api/todos
+// - Injectable backend class holding the fake "server" data
+// - Signal-based switch to simulate errors from the UI
+//
+// NOTES FOR CONTRIBUTORS:
+// - Only URLs starting with TODO_API_URL are intercepted, everything else passes through
+// - Keep responses shaped like a real REST API (status codes, JSON bodies)
+// - Replace the interceptor with a real backend URL in production, TodoApiService stays unchanged
+
+import { Injectable, inject, signal } from '@angular/core';
+import {
+  HttpErrorResponse,
+  HttpEvent,
+  HttpInterceptorFn,
+  HttpRequest,
+  HttpResponse,
+} from '@angular/common/http';
+import { Observable, delay, dematerialize, materialize, of, throwError } from 'rxjs';
+import { DEFAULT_TODO_LIST_ID, Todo } from '../app/store/todo/todo.state';
+
+export const TODO_API_URL = '/api/todos';
+
+const STORAGE_KEY = 'angular-showcase.todo-backend';
+const LATENCY_MS = 400;
+
+// Shape of the persisted "database"
+interface TodoBackendData {
+  nextId: number; // Monotonic id sequence, never decremented
+  todos: Todo[];
+}
+
+// Seed data used the first time the backend runs (or when storage is unavailable)
+const SEED_DATA: TodoBackendData = {
+  nextId: 4,
+  todos: [
+    {
+      id: 1,
+      text: 'Learn NgRx',
+      completed: false,
+      priority: 'high',
+      dueDate: null,
+      tags: ['ngrx', 'studio'],
+      order: 0,
+      listId: DEFAULT_TODO_LIST_ID,
+    },
+    {
+      id: 2,
+      text: 'Create a store',
+      completed: true,
+      priority: 'medium',
+      dueDate: null,
+      tags: ['ngrx'],
+      order: 1,
+      listId: DEFAULT_TODO_LIST_ID,
+    },
+    {
+      id: 3,
+      text: 'Implement actions',
+      completed: false,
+      priority: 'low',
+      dueDate: null,
+      tags: [],
+      order: 2,
+      listId: DEFAULT_TODO_LIST_ID,
+    },
+  ],
+};
+
+// Todos saved before priorities, due dates, tags, manual order and lists existed
+function withDefaults(todo: Partial<Todo> & Pick<Todo, 'id'>): Todo {
+  return {
+    text: '',
+    completed: false,
+    priority: 'medium',
+    dueDate: null,
+    tags: [],
+    order: todo.id,
+    listId: DEFAULT_TODO_LIST_ID,
+    ...todo,
+  };
+}
+
+// PATTERN: Fake backend service
+// PURPOSE:
+// - Keep the "server side" data out of the NgRx store
+// - Let the store be hydrated exclusively through effects, like with a real API
+// - Expose simulateErrors so the demo can show failure actions on demand
+@Injectable({
+  providedIn: 'root',
+})
+export class InMemoryTodoBackend {
+  // When true every request fails with a 503 (toggled from the todo demo)
+  simulateErrors = signal(false);
+
+  private data: TodoBackendData = this.readStorage();
+
+  private get todos(): Todo[] {
+    return this.data.todos;
+  }
+
+  /**
+   * Handle a request addressed to the todo API
+   *
+   * @param req - Intercepted HTTP request
+   * @returns Observable<HttpEvent<unknown>> - Delayed response or error
+   */
+  handle(req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    if (this.simulateErrors()) {
+      return this.respondWithError(req, 503, 'Service Unavailable');
+    }
+
+    const id = this.parseId(req.url);
+
+    switch (req.method) {
+      case 'GET':
+        return this.respond(req, 200, this.todos);
+
+      case 'POST': {
+        const body = req.body as Partial<Todo> | null;
+        const text = body?.text?.trim();
+        if (!text) {
+          return this.respondWithError(req, 400, 'Todo text is required');
+        }
+        // New todos go to the bottom of the manual order
+        const order = this.todos.reduce((max, todo) => Math.max(max, todo.order + 1), 0);
+        const listId = body?.listId ?? DEFAULT_TODO_LIST_ID;
+        const todo = withDefaults({ id: this.nextId(), text, order, listId });
+        this.save([...this.todos, todo]);
+        return this.respond(req, 201, todo);
+      }
+
+      case 'PUT': {
+        if (!req.url.endsWith('/order')) {
+          return this.replaceAll(req);
+        }
+        // PUT /api/todos/order sets the manual order of every listed todo
+        const ids = (req.body as { ids?: unknown } | null)?.ids;
+        if (!Array.isArray(ids)) {
+          return this.respondWithError(req, 400, 'A list of ids is required');
+        }
+        const todos = this.todos.map((todo) =>
+          ids.includes(todo.id) ? { ...todo, order: ids.indexOf(todo.id) } : todo
+        );
+        this.save(todos);
+        return this.respond(req, 200, todos);
+      }
+
+      case 'PATCH': {
+        const existing = this.todos.find((todo) => todo.id === id);
+        if (!existing) {
+          return this.respondWithError(req, 404, `Todo ${id} not found`);
+        }
+        const changes = req.body as Partial<Todo>;
+        if (changes.text !== undefined && !changes.text.trim()) {
+          return this.respondWithError(req, 400, 'Todo text is required');
+        }
+        const updated: Todo = { ...existing, ...changes, id: existing.id };
+        this.save(this.todos.map((todo) => (todo.id === id ? updated : todo)));
+        return this.respond(req, 200, updated);
+      }
+
+      case 'DELETE': {
+        // Bulk delete by query params, combined with AND:
+        // ?completed=true removes completed todos, ?listId=2 removes the todos of a list
+        const completedOnly = req.params.get('completed') === 'true';
+        const listParam = req.params.get('listId');
+        if (id === null && (completedOnly || listParam !== null)) {
+          const matches = (todo: Todo) =>
+            (!completedOnly || todo.completed) &&
+            (listParam === null || todo.listId === Number(listParam));
+          const removedIds = this.todos.filter(matches).map((todo) => todo.id);
+          this.save(this.todos.filter((todo) => !matches(todo)));
+          return this.respond(req, 200, removedIds);
+        }
+        if (!this.todos.some((todo) => todo.id === id)) {
+          return this.respondWithError(req, 404, `Todo ${id} not found`);
+        }
+        this.save(this.todos.filter((todo) => todo.id !== id));
+        return this.respond(req, 204, null);
+      }
+
+      default:
+        return this.respondWithError(req, 405, `Method ${req.method} not allowed`);
+    }
+  }
+
+  // PUT /api/todos replaces the whole collection (state snapshot import), keeping the ids
+  private replaceAll(req: HttpRequest<unknown>): Observable<HttpEvent<unknown>> {
+    const todos = (req.body as { todos?: unknown } | null)?.todos;
+    if (this.parseId(req.url) !== null || !Array.isArray(todos)) {
+      return this.respondWithError(req, 400, 'A list of todos is required');
+    }
+    const replaced = (todos as Todo[]).map(withDefaults);
+    // Move the sequence past every imported id, so none of them is handed out again
+    const maxId = replaced.reduce((max, todo) => Math.max(max, todo.id), 0);
+    this.data = { ...this.data, nextId: Math.max(this.data.nextId, maxId + 1) };
+    this.save(replaced);
+    return this.respond(req, 200, replaced);
+  }
+
+  // ═══ HELPERS ═══
+
+  private respond(req: HttpRequest<unknown>, status: number, body: unknown) {
+    // structuredClone prevents callers from mutating the backend data by reference
+    return of(
+      new HttpResponse({ url: req.url, status, body: body === null ? null : structuredClone(body) })
+    ).pipe(delay(LATENCY_MS));
+  }
+
+  private respondWithError(req: HttpRequest<unknown>, status: number, statusText: string) {
+    // materialize/dematerialize lets the error go through delay() like a real response
+    return throwError(
+      () => new HttpErrorResponse({ url: req.url, status, statusText, error: statusText })
+    ).pipe(materialize(), delay(LATENCY_MS), dematerialize());
+  }
+
+  private parseId(url: string): number | null {
+    const match = url.match(/\/(\d+)$/);
+    return match ? Number(match[1]) : null;
+  }
+
+  // Sequence-based ids: unlike max(id) + 1, a deleted id is never handed out again
+  private nextId(): number {
+    const id = this.data.nextId;
+    this.data = { ...this.data, nextId: id + 1 };
+    return id;
+  }
+
+  private save(todos: Todo[]) {
+    this.data = { ...this.data, todos };
+    try {
+      localStorage.setItem(STORAGE_KEY, JSON.stringify(this.data));
+    } catch {
+      // Storage may be unavailable (private mode, SSR): keep data in memory only
+    }
+  }
+
+  private readStorage(): TodoBackendData {
+    try {
+      const saved = localStorage.getItem(STORAGE_KEY);
+      const data = saved ? (JSON.parse(saved) as TodoBackendData) : null;
+      return data && Array.isArray(data.todos)
+        ? { ...data, todos: data.todos.map(withDefaults) }
+        : SEED_DATA;
+    } catch {
+      return SEED_DATA;
+    }
+  }
+}
+
+/**
+ * Interceptor that routes todo API requests to the in-memory backend.
+ * Register with provideHttpClient(withInterceptors([inMemoryTodoBackendInterceptor])).
+ */
+export const inMemoryTodoBackendInterceptor: HttpInterceptorFn = (req, next) => {
+  if (!req.url.startsWith(TODO_API_URL)) {
+    return next(req);
+  }
+  return inject(InMemoryTodoBackend).handle(req);
+};
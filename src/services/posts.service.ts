@@ -26,7 +26,7 @@
 // - Keep HTTP logic here, not in components
 
 import { Injectable, inject } from '@angular/core';
-import { HttpClient } from '@angular/common/http';
+import { HttpClient, HttpParams } from '@angular/common/http';
 import { Observable } from 'rxjs';
 
 /**
@@ -67,6 +67,17 @@ export class PostsService {
     return this.http.get<Post>(`${this.API_URL}/${id}`);
   }
 
+  /**
+   * Retrieve the posts written by one user (GET with ?userId=)
+   *
+   * @param userId - ID of the author
+   * @returns Observable<Post[]> - Stream that emits the user's posts
+   */
+  getPostsByUser(userId: number): Observable<Post[]> {
+    const params = new HttpParams().set('userId', userId);
+    return this.http.get<Post[]>(this.API_URL, { params });
+  }
+
   /**
    * Create a new post (POST)
    *
@@ -0,0 +1,113 @@
+// COMPONENT TYPE: Facade Service
+// SECTION: HTTP and Data Access
+//
+// ROLE:
+// - Provide todos data access layer for the NgRx todo effects and the todo signal store
+// - Let SnapshotEffects push imported todos to the server
+// - Handle HTTP CRUD operations for todos
+// - Abstract API communication from effects and components
+//
+// PATTERNS USED:
+// - Service Facade pattern
+// - Observable-based HTTP responses
+// - Typed interfaces for data contracts
+//
+// NOTES FOR CONTRIBUTORS:
+// - Requests are served by InMemoryTodoBackend (see in-memory-todo-backend.ts)
+// - Only effects (and TodoSignalStore's rxMethod) should call this service, components
+//   dispatch actions or call store methods instead
+// - Keep HTTP logic here, not in effects
+
+import { Injectable, inject } from '@angular/core';
+import { HttpClient } from '@angular/common/http';
+import { Observable } from 'rxjs';
+import { Todo } from '../app/store/todo/todo.state';
+import { TODO_API_URL } from './in-memory-todo-backend';
+
+@Injectable({
+  providedIn: 'root',
+})
+export class TodoApiService {
+  private http = inject(HttpClient);
+
+  /**
+   * Retrieve all todos (GET)
+   *
+   * @returns Observable<Todo[]> - Stream that emits the todos array
+   */
+  getTodos(): Observable<Todo[]> {
+    return this.http.get<Todo[]>(TODO_API_URL);
+  }
+
+  /**
+   * Create a new todo (POST)
+   *
+   * @param text - Text of the new todo
+   * @param listId - List the todo belongs to
+   * @returns Observable<Todo> - Stream that emits the created todo with id
+   */
+  addTodo(text: string, listId: number): Observable<Todo> {
+    return this.http.post<Todo>(TODO_API_URL, { text, listId });
+  }
+
+  /**
+   * Partially update a todo (PATCH)
+   *
+   * @param id - ID of the todo to update
+   * @param changes - Fields to change
+   * @returns Observable<Todo> - Stream that emits the updated todo
+   */
+  updateTodo(id: number, changes: Partial<Omit<Todo, 'id'>>): Observable<Todo> {
+    return this.http.patch<Todo>(`${TODO_API_URL}/${id}`, changes);
+  }
+
+  /**
+   * Save the manual order of all todos (PUT)
+   *
+   * @param ids - Ids of all todos in their new order
+   * @returns Observable<Todo[]> - Stream that emits every todo with its new order
+   */
+  reorderTodos(ids: number[]): Observable<Todo[]> {
+    return this.http.put<Todo[]>(`${TODO_API_URL}/order`, { ids });
+  }
+
+  /**
+   * Replace every todo on the server, e.g. after importing a state snapshot (PUT)
+   *
+   * @param todos - Complete collection, ids included
+   * @returns Observable<Todo[]> - Stream that emits the todos saved by the server
+   */
+  replaceTodos(todos: Todo[]): Observable<Todo[]> {
+    return this.http.put<Todo[]>(TODO_API_URL, { todos });
+  }
+
+  /**
+   * Delete a todo (DELETE)
+   *
+   * @param id - ID of the todo to delete
+   * @returns Observable<void> - Stream that completes when deletion succeeds
+   */
+  deleteTodo(id: number): Observable<void> {
+    return this.http.delete<void>(`${TODO_API_URL}/${id}`);
+  }
+
+  /**
+   * Delete every completed todo of a list (DELETE with query params)
+   *
+   * @param listId - List to clean up
+   * @returns Observable<number[]> - Stream that emits the ids of removed todos
+   */
+  deleteCompleted(listId: number): Observable<number[]> {
+    return this.http.delete<number[]>(TODO_API_URL, { params: { completed: 'true', listId } });
+  }
+
+  /**
+   * Delete every todo of a list (DELETE with query param)
+   *
+   * @param listId - List whose todos must be removed
+   * @returns Observable<number[]> - Stream that emits the ids of removed todos
+   */
+  deleteTodosInList(listId: number): Observable<number[]> {
+    return this.http.delete<number[]>(TODO_API_URL, { params: { listId } });
+  }
+}
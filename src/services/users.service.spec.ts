@@ -0,0 +1,264 @@
+import { TestBed } from '@angular/core/testing';
+import { provideHttpClient } from '@angular/common/http';
+import { HttpTestingController, provideHttpClientTesting } from '@angular/common/http/testing';
+import { User } from '../types/users';
+import { USERS_FRESH_FOR_MS, UsersService } from './users.service';
+
+const API_URL = 'https://jsonplaceholder.typicode.com/users';
+
+// User as the API returns it, only id and name matter here
+function user(id: number, name = `Utente ${id}`): User {
+  return {
+    id,
+    name,
+    surname: '',
+    username: `utente${id}`,
+    email: `utente${id}@example.com`,
+    age: 30,
+    address: {
+      street: 'Via Roma 1',
+      suite: '',
+      city: 'Roma',
+      zipcode: '00100',
+      geo: { lat: '0', lng: '0' },
+    },
+    phone: '',
+    website: '',
+    company: { name: 'Acme', catchPhrase: '', bs: '' },
+  };
+}
+
+describe('UsersService', () => {
+  let service: UsersService;
+  let http: HttpTestingController;
+
+  // Answer the pending list request with the given users
+  const answer = (...ids: number[]) => http.expectOne(API_URL).flush(ids.map((id) => user(id)));
+  const names = () => service.allUsers().map((item) => item.name);
+  const ids = () => service.allUsers().map((item) => item.id);
+
+  // Load users from the API, so the server knows them
+  const load = (...userIds: number[]) => {
+    service.fetchUsers();
+    answer(...userIds);
+  };
+
+  beforeEach(() => {
+    TestBed.configureTestingModule({
+      providers: [provideHttpClient(), provideHttpClientTesting()],
+    });
+    service = TestBed.inject(UsersService);
+    http = TestBed.inject(HttpTestingController);
+    vi.spyOn(console, 'error').mockImplementation(() => undefined);
+  });
+
+  afterEach(() => http.verify());
+
+  describe('fetchUsers', () => {
+    it('should not fetch anything on injection', () => {
+      http.expectNone(API_URL);
+      expect(service.loading()).toBe(false);
+    });
+
+    it('should expose loading, then the users and the time of the update', () => {
+      service.fetchUsers();
+      expect(service.loading()).toBe(true);
+      answer(1, 2);
+      expect(service.loading()).toBe(false);
+      expect(names()).toEqual(['Utente 1', 'Utente 2']);
+      expect(service.lastUpdated()).toBeInstanceOf(Date);
+      expect(service.error()).toBeNull();
+    });
+
+    it('should describe a failure and keep the users already loaded', () => {
+      service.fetchUsers();
+      answer(1);
+      service.fetchUsers({ force: true });
+      http
+        .expectOne(API_URL)
+        .flush(null, { status: 500, statusText: 'Internal Server Error' });
+      expect(service.error()).toBe(
+        'Errore nel caricamento degli utenti: 500 Internal Server Error'
+      );
+      expect(service.loading()).toBe(false);
+      expect(names()).toEqual(['Utente 1']);
+    });
+
+    it('should tell a network failure apart', () => {
+      service.fetchUsers();
+      http.expectOne(API_URL).error(new ProgressEvent('error'));
+      expect(service.error()).toBe(
+        'Errore nel caricamento degli utenti: impossibile contattare il server, ' +
+          'controlla la connessione'
+      );
+    });
+
+    it('should skip the request while loading or while data is fresh', () => {
+      service.fetchUsers();
+      service.fetchUsers();
+      answer(1);
+      service.fetchUsers();
+      http.expectNone(API_URL);
+      expect(service.isFresh()).toBe(true);
+      const updated = service.lastUpdated()?.getTime() ?? 0;
+      expect(service.isFresh(updated + USERS_FRESH_FOR_MS)).toBe(false);
+    });
+
+    it('should reload with force, dropping the request in flight', () => {
+      service.fetchUsers();
+      const first = http.expectOne(API_URL);
+      service.fetchUsers({ force: true });
+      expect(first.cancelled).toBe(true);
+      answer(3);
+      expect(names()).toEqual(['Utente 3']);
+    });
+  });
+
+  describe('cancel and retry', () => {
+    it('should abort the request and leave the loaded users visible', () => {
+      service.fetchUsers();
+      answer(1);
+      service.retry();
+      const request = http.expectOne(API_URL);
+      service.cancel();
+      expect(request.cancelled).toBe(true);
+      expect(service.loading()).toBe(false);
+      expect(names()).toEqual(['Utente 1']);
+    });
+
+    it('should retry after an error even if the users are fresh', () => {
+      service.fetchUsers();
+      http.expectOne(API_URL).flush(null, { status: 503, statusText: 'Unavailable' });
+      service.retry();
+      answer(1);
+      expect(service.error()).toBeNull();
+      expect(names()).toEqual(['Utente 1']);
+    });
+  });
+
+  describe('deleteUsers, undoDelete and confirmDelete', () => {
+    it('should hide a user at once and put it back in place on undo', () => {
+      load(1, 2, 3);
+      expect(service.deleteUsers([2]).map((item) => item.id)).toEqual([2]);
+      expect(ids()).toEqual([1, 3]);
+      service.undoDelete([2]);
+      expect(ids()).toEqual([1, 2, 3]);
+      // Nothing is left to confirm after an undo
+      service.confirmDelete([2]);
+      http.expectNone(`${API_URL}/2`);
+    });
+
+    it('should send the DELETE only when the deletion is confirmed', () => {
+      load(1, 2);
+      service.deleteUsers([1]);
+      http.expectNone(`${API_URL}/1`);
+      service.confirmDelete([1]);
+      http.expectOne({ method: 'DELETE', url: `${API_URL}/1` }).flush(null);
+      expect(ids()).toEqual([2]);
+      expect(service.mutationError()).toBeNull();
+    });
+
+    it('should bring the user back and report it when the DELETE fails', () => {
+      load(1, 2);
+      service.deleteUsers([1]);
+      service.confirmDelete([1]);
+      http.expectOne(`${API_URL}/1`).flush(null, { status: 500, statusText: 'Server Error' });
+      expect(ids()).toEqual([1, 2]);
+      expect(service.mutationError()).toBe(
+        "Impossibile eliminare l'utente Utente 1: 500 Server Error"
+      );
+    });
+
+    it('should not bring back a user whose deletion is pending on reload', () => {
+      load(1, 2);
+      service.deleteUsers([2]);
+      service.fetchUsers({ force: true });
+      answer(1, 2);
+      expect(ids()).toEqual([1]);
+      service.undoDelete([2]);
+      expect(ids()).toEqual([1, 2]);
+    });
+  });
+
+  describe('bulk selection and actions', () => {
+    it('should delete several users and restore each one where it was', () => {
+      load(1, 2, 3, 4, 5);
+      const removed = service.deleteUsers([4, 2, 5]);
+      expect(removed.map((item) => item.id)).toEqual([2, 4, 5]);
+      expect(ids()).toEqual([1, 3]);
+      service.undoDelete(removed.map((item) => item.id));
+      expect(ids()).toEqual([1, 2, 3, 4, 5]);
+    });
+
+    it('should confirm every deletion and restore only the failed ones', () => {
+      load(1, 2, 3);
+      service.confirmDelete(service.deleteUsers([1, 2, 3]).map((item) => item.id));
+      http.expectOne(`${API_URL}/1`).flush(null);
+      http.expectOne(`${API_URL}/2`).flush(null, { status: 500, statusText: 'Server Error' });
+      http.expectOne(`${API_URL}/3`).flush(null);
+      expect(ids()).toEqual([2]);
+    });
+
+    it('should drop deleted users from the selection', () => {
+      load(1, 2, 3);
+      service.setSelected([1, 2], true);
+      service.deleteUsers([2]);
+      expect([...service.selectedIds()]).toEqual([1]);
+    });
+
+    it('should select every user matching the search, on every page', () => {
+      load(1, 2, 3);
+      service.setQuery({ ...service.query(), search: 'Utente 2', pageSize: 1 });
+      service.selectAll();
+      expect([...service.selectedIds()]).toEqual([2]);
+      // Users hidden by a new search leave the selection
+      service.setSelected([1, 3], true);
+      service.setQuery({ ...service.query(), search: 'Utente 3' });
+      expect([...service.selectedIds()]).toEqual([3]);
+    });
+
+    it('should tag several users once and untag a single one', () => {
+      load(1, 2);
+      service.tagUsers([1, 2], ' vip ');
+      service.tagUsers([1], 'vip');
+      service.untagUser(2, 'vip');
+      expect(service.allUsers().map((item) => item.tags)).toEqual([['vip'], []]);
+    });
+  });
+
+  describe('generated and other local users', () => {
+    it('should replace the API users and cancel the request in flight', () => {
+      service.fetchUsers();
+      const request = http.expectOne(API_URL);
+      service.loadGeneratedUsers(50);
+      expect(request.cancelled).toBe(true);
+      expect(service.total()).toBe(50);
+      expect(service.generated()).toBe(true);
+      expect(service.loading()).toBe(false);
+      // They stay until a forced reload brings the API users back
+      service.fetchUsers();
+      http.expectNone(API_URL);
+      service.fetchUsers({ force: true });
+      answer(1);
+      expect(service.generated()).toBe(false);
+    });
+
+    it('should edit and delete generated users without requests', () => {
+      service.loadGeneratedUsers(3);
+      const [first] = service.allUsers();
+      service.updateUser({ ...first, name: 'Modificato' });
+      service.confirmDelete(service.deleteUsers([2]).map((item) => item.id));
+      http.expectNone(() => true);
+      expect(names()[0]).toBe('Modificato');
+      expect(ids()).toEqual([1, 3]);
+    });
+
+    it('should still send requests for users the API returned', () => {
+      load(1);
+      service.updateUser(user(1, 'Modificato'));
+      http.expectOne({ method: 'PUT', url: `${API_URL}/1` }).flush(user(1, 'Modificato'));
+      service.confirmDelete(service.deleteUsers([1]).map((item) => item.id));
+      http.expectOne({ method: 'DELETE', url: `${API_URL}/1` }).flush(null);
+    });
+  });
+});
@@ -4,80 +4,504 @@
 // ROLE:
 // - Provide users data access layer
 // - Handle HTTP requests to external API
-// - Manage users state with Signals
-// - Provide filtering and CRUD operations
+// - Expose users, loading, error and lastUpdated as Signals
+// - Support cancelling, retrying and skipping requests while data is fresh
+// - Provide filtering, sorting, pagination and CRUD operations
+// - Create and update users optimistically, rolling back when the request fails
+// - Delete users in two steps so the deletion can be undone
+// - Hold the selection of the list and the local tags used by bulk actions
+// - Merge users imported from a file
+// - Replace the API users with a large synthetic dataset, for performance tests
+// - Look up a single user (detail route resolver)
 //
 // PATTERNS USED:
 // - Service Facade pattern
-// - Signal-based reactive state
-// - Auto-fetch on service initialization
-// - Filtering with local state
+// - Signal-based reactive state (computed filtered / paginated views over the loaded users)
+// - Cancellable request: one Subscription kept for the request in flight
+// - Stale-while-revalidate: loaded users stay visible while a reload is running
+// - Optimistic updates: the list changes first, the previous value comes back on error
+// - Deferred delete: removed from the list at once, DELETE sent only when confirmed
 //
 // NOTES FOR CONTRIBUTORS:
 // - Keep HTTP logic in this service, not in components
-// - baseUsers stores original data, users signal is filtered view
-// - Auto-fetches on initialization (consider lazy loading for production)
-// - Add error handling for HTTP failures in production
+// - Nothing is fetched on injection: pages call fetchUsers() when they need data
+// - The list state (UsersQuery) comes from the URL: UserList passes it with setQuery()
+// - fetchUsers() is a no-op while loading or while data is fresh, { force: true } reloads
+// - The selection is shared by every view of the list, it drops users that get filtered out
+// - error / mutationError hold messages for the user (Italian), the raw errors are logged
+// - A created user keeps a negative temporary id until the server answers (isPendingUser)
+// - deleteUsers() only hides the users: call confirmDelete() or undoDelete() afterwards
+//   (UserList does it from the "Annulla" toast)
+// - Generated users stay until the next fetch: fetchUsers() skips it while they are fresh,
+//   the reload button ({ force: true }) brings the API users back
+// - JSONPlaceholder does not persist writes: it answers every POST with id 11 and fails PUTs
+//   on ids it does not know, so created ids are made unique locally and users that only exist
+//   in the browser (created, imported, generated) are edited without a request (isLocalUser)
 
-import { Injectable, signal } from '@angular/core';
+import { Injectable, computed, inject, signal, untracked } from '@angular/core';
+import { HttpClient, HttpErrorResponse } from '@angular/common/http';
+import { Observable, Subscription, catchError, of, throwError } from 'rxjs';
 import { User } from '../types/users';
-import { HttpClient } from '@angular/common/http';
+import {
+  DEFAULT_USERS_QUERY,
+  UsersQuery,
+  filterAndSortUsers,
+  paginateUsers,
+  searchUsers,
+} from '../app/user-list/users-query';
+import { ImportedUser } from '../app/user-list/users-import';
+import { generateUsers } from '../app/user-list/users-generator';
+
+// Loaded users are considered up to date for this long
+export const USERS_FRESH_FOR_MS = 5 * 60 * 1000;
+
+// User fields sent when creating or editing (the id comes from the server)
+export type UserDraft = Omit<User, 'id'>;
+
+export interface FetchUsersOptions {
+  force?: boolean; // Reload even if data is fresh
+}
+
+// A user hidden by deleteUsers(), with its position among the users that stayed
+interface PendingDelete {
+  user: User;
+  index: number; // How many remaining users came before it
+}
 
 @Injectable({
   providedIn: 'root',
 })
 export class UsersService {
+  private http = inject(HttpClient);
+
+  private readonly API_URL = 'https://jsonplaceholder.typicode.com/users';
+
   // Base users array (unfiltered)
-  baseUsers: User[] = [];
+  private baseUsers = signal<User[]>([]);
+
+  // Search, filters, sorting and page, applied to every new result
+  query = signal<UsersQuery>(DEFAULT_USERS_QUERY);
+
+  // IDs of the selected users, always among the users matching the query
+  selectedIds = signal<ReadonlySet<number>>(new Set());
+
+  // Request in flight, unsubscribed by cancel() or by a newer fetch
+  private request?: Subscription;
+
+  // Fuzzy search results by user id: relevance and highlighted ranges
+  matches = computed(() => searchUsers(this.baseUsers(), this.query().search));
+
+  // Reactive signal for filtered, ranked and sorted users (every page)
+  users = computed(() => filterAndSortUsers(this.baseUsers(), this.query(), this.matches()));
+
+  // Current page of the filtered users
+  page = computed(() => paginateUsers(this.users(), this.query()));
+
+  // Options of the structured filters, from the loaded users
+  companies = computed(() => uniqueSorted(this.baseUsers().map((user) => user.company.name)));
+  cities = computed(() => uniqueSorted(this.baseUsers().map((user) => user.address.city)));
+
+  // Every loaded user, independent of the search (import matches ids against it)
+  allUsers = this.baseUsers.asReadonly();
 
-  // Reactive signal for filtered users
-  users = signal<User[]>([]);
+  // Number of loaded users, independent of the search
+  total = computed(() => this.baseUsers().length);
+
+  // Selected users, in list order
+  selectedUsers = computed(() => this.users().filter((user) => this.selectedIds().has(user.id)));
+
+  loading = signal(false);
+  error = signal<string | null>(null);
+  lastUpdated = signal<Date | null>(null);
+
+  // True while the loaded users come from generateUsers() instead of the API
+  generated = signal(false);
+
+  // Last failed create/update/delete, the change has already been rolled back
+  mutationError = signal<string | null>(null);
+
+  // Temporary ids of users created optimistically: -1, -2, ...
+  private nextTempId = -1;
+
+  // Ids returned by the last fetch: every other user exists only in the browser
+  private remoteIds = new Set<number>();
+
+  // Users removed from the list but not yet deleted on the server, with their position
+  private pendingDeletes = new Map<number, PendingDelete>();
 
   /**
-   * Constructor initializes service with HTTP client and loads users.
-   * Automatically fetches users when service is instantiated.
+   * Fetch users from the external API
    *
-   * @param http - HTTP client for API requests
+   * @param options - { force: true } reloads even if data is still fresh
    */
-  constructor(private http: HttpClient) {
-    // Load users on service initialization
-    this.fetchUsers();
+  fetchUsers(options: FetchUsersOptions = {}) {
+    // Without force, a running request or fresh data is enough
+    if (!options.force && (this.loading() || this.isFresh())) {
+      return;
+    }
+
+    // Only the latest request counts
+    this.request?.unsubscribe();
+    this.loading.set(true);
+    this.error.set(null);
+
+    this.request = this.http.get<User[]>(this.API_URL).subscribe({
+      next: (users) => {
+        // A reload must not bring back users whose deletion can still be undone
+        this.baseUsers.set(users.filter((user) => !this.pendingDeletes.has(user.id)));
+        this.remoteIds = new Set(users.map((user) => user.id));
+        this.generated.set(false);
+        this.lastUpdated.set(new Date());
+        this.loading.set(false);
+      },
+      error: (err: HttpErrorResponse) => {
+        console.error('Users request failed', err);
+        this.error.set(describeHttpError(err, 'Errore nel caricamento degli utenti'));
+        this.loading.set(false);
+      },
+    });
   }
 
-  // Fetch users from external API
-  fetchUsers() {
-    this.http.get<User[]>('https://jsonplaceholder.typicode.com/users').subscribe((users) => {
-      this.baseUsers = users;
-      this.users.set(users);
+  // Repeat the last request, ignoring freshness
+  retry() {
+    this.fetchUsers({ force: true });
+  }
+
+  // Abort the request in flight, already loaded users stay visible
+  cancel() {
+    if (!this.loading()) {
+      return;
+    }
+    this.request?.unsubscribe();
+    this.loading.set(false);
+  }
+
+  // True when users were loaded less than USERS_FRESH_FOR_MS ago and no error followed
+  isFresh(now = Date.now()): boolean {
+    const lastUpdated = this.lastUpdated();
+    return (
+      !this.error() &&
+      lastUpdated !== null &&
+      now - lastUpdated.getTime() < USERS_FRESH_FOR_MS
+    );
+  }
+
+  /**
+   * Create a user: it appears in the list at once, with a temporary id
+   *
+   * @param draft - User fields from the create form
+   */
+  createUser(draft: UserDraft) {
+    const tempId = this.nextTempId--;
+    this.mutationError.set(null);
+    this.baseUsers.update((users) => [...users, { ...draft, id: tempId }]);
+
+    this.http.post<User>(this.API_URL, draft).subscribe({
+      next: (created) =>
+        this.baseUsers.update((users) => {
+          const maxId = Math.max(0, ...users.map((user) => user.id));
+          const id = users.some((user) => user.id === created.id) ? maxId + 1 : created.id;
+          return users.map((user) => (user.id === tempId ? { ...user, id } : user));
+        }),
+      error: (err: HttpErrorResponse) => {
+        console.error('Create user request failed', err);
+        this.baseUsers.update((users) => users.filter((user) => user.id !== tempId));
+        this.mutationError.set(
+          describeHttpError(err, `Impossibile creare l'utente ${draft.name}`)
+        );
+      },
     });
   }
 
-  // Filter users based on search string (name or email)
-  filterUsers(search?: string) {
-    // If search is undefined, reset to all users
-    if (!search) {
-      this.users.set(this.baseUsers);
+  /**
+   * Update a user: the list shows the new values at once, the old ones come back on error
+   * (local users are only changed in the list, the server does not know them)
+   *
+   * @param user - Edited user (same id)
+   */
+  updateUser(user: User) {
+    const previous = this.baseUsers().find((item) => item.id === user.id);
+    if (!previous || this.isPendingUser(user.id)) {
+      return;
+    }
+    this.mutationError.set(null);
+    this.baseUsers.update((users) => users.map((item) => (item.id === user.id ? user : item)));
+    if (this.isLocalUser(user.id)) {
+      return;
     }
 
-    const searchLower = (search || '').toLowerCase().trim();
+    this.http.put<User>(`${this.API_URL}/${user.id}`, user).subscribe({
+      error: (err: HttpErrorResponse) => {
+        console.error('Update user request failed', err);
+        // Roll back only if no newer edit replaced the optimistic value meanwhile
+        this.baseUsers.update((users) =>
+          users.map((item) => (item === user ? previous : item))
+        );
+        this.mutationError.set(
+          describeHttpError(err, `Impossibile salvare le modifiche a ${previous.name}`)
+        );
+      },
+    });
+  }
+
+  // True while a created user waits for the server (it cannot be edited yet)
+  isPendingUser(userId: number): boolean {
+    return userId < 0;
+  }
+
+  // True for users the server does not know: created, imported with a new id or generated
+  isLocalUser(userId: number): boolean {
+    return !this.remoteIds.has(userId);
+  }
+
+  dismissMutationError() {
+    this.mutationError.set(null);
+  }
 
-    this.users.set(
-      this.baseUsers.filter(
-        (user) =>
-          user.name.toLowerCase().includes(searchLower) ||
-          user.email.toLowerCase().includes(searchLower)
+  /**
+   * Look up a single user, from the loaded list when possible
+   *
+   * @param id - ID of the user
+   * @returns Observable<User | null> - The user, or null if the API does not know the id
+   */
+  getUser(id: number): Observable<User | null> {
+    const loaded = this.baseUsers().find((user) => user.id === id);
+    if (loaded) {
+      return of(loaded);
+    }
+    return this.http.get<User>(`${this.API_URL}/${id}`).pipe(
+      // 404 is an answer (unknown id), every other failure is a real error
+      catchError((err: HttpErrorResponse) =>
+        err.status === 404 ? of(null) : throwError(() => err)
       )
     );
   }
 
+  // Search, filter, sort and paginate users (safe to call from an effect)
+  setQuery(query: UsersQuery) {
+    this.query.set(query);
+    // Users hidden by the new search or filters leave the selection. Untracked, so an effect
+    // calling setQuery() does not re-run when the users or the selection change
+    untracked(() => {
+      const visible = new Set(this.users().map((user) => user.id));
+      this.deselect([...this.selectedIds()].filter((userId) => !visible.has(userId)));
+    });
+  }
+
   // Update users list
   setUsers(users: User[]) {
-    this.users.set(users);
+    this.baseUsers.set(users);
   }
 
-  // Delete user by ID
-  deleteUser(userId: number) {
-    this.baseUsers = this.baseUsers.filter((user) => user.id !== userId);
-    this.users.set(this.baseUsers);
+  /**
+   * Replace the loaded users with synthetic ones, to measure the list with a large dataset
+   *
+   * @param count - How many users to generate
+   */
+  loadGeneratedUsers(count: number) {
+    // A request still running would overwrite them
+    this.request?.unsubscribe();
+    this.loading.set(false);
+    this.error.set(null);
+    this.clearSelection();
+    // Their ids overlap the API ones, but the server knows none of them
+    this.remoteIds = new Set();
+    this.baseUsers.set(generateUsers(count));
+    this.generated.set(true);
+    this.lastUpdated.set(new Date());
   }
+
+  /**
+   * Remove users from the list, keeping them until the deletion is confirmed or undone
+   *
+   * @param userIds - IDs of the users
+   * @returns User[] - The removed users (pending or unknown ids are skipped)
+   */
+  deleteUsers(userIds: number[]): User[] {
+    const ids = new Set(userIds.filter((userId) => !this.isPendingUser(userId)));
+    const removed: User[] = [];
+    const kept: User[] = [];
+    for (const user of this.baseUsers()) {
+      if (ids.has(user.id)) {
+        removed.push(user);
+        this.pendingDeletes.set(user.id, { user, index: kept.length });
+      } else {
+        kept.push(user);
+      }
+    }
+    if (removed.length) {
+      this.baseUsers.set(kept);
+      this.deselect(removed.map((user) => user.id));
+    }
+    return removed;
+  }
+
+  // Put removed users back where they were (pass the ids in list order, as deleteUsers() returns)
+  undoDelete(userIds: number[]) {
+    this.restoreUsers(userIds.flatMap((userId) => this.takePendingDelete(userId) ?? []));
+  }
+
+  /**
+   * Delete removed users on the server, each one comes back in the list if its request fails
+   * (local users are just forgotten, the server does not know them)
+   *
+   * @param userIds - IDs of users removed with deleteUsers()
+   */
+  confirmDelete(userIds: number[]) {
+    for (const userId of userIds) {
+      const pending = this.takePendingDelete(userId);
+      if (!pending || this.isLocalUser(userId)) {
+        continue;
+      }
+
+      this.http.delete<void>(`${this.API_URL}/${userId}`).subscribe({
+        error: (err: HttpErrorResponse) => {
+          console.error('Delete user request failed', err);
+          this.restoreUsers([pending]);
+          this.mutationError.set(
+            describeHttpError(err, `Impossibile eliminare l'utente ${pending.user.name}`)
+          );
+        },
+      });
+    }
+  }
+
+  // Remove a user from the pending deletes, returning what deleteUsers() recorded
+  private takePendingDelete(userId: number): PendingDelete | undefined {
+    const pending = this.pendingDeletes.get(userId);
+    this.pendingDeletes.delete(userId);
+    return pending;
+  }
+
+  /**
+   * Add a tag to several users (tags are kept locally, the API has no such field)
+   *
+   * @param userIds - IDs of the users
+   * @param tag - Tag text, trimmed; users that already have it are left as they are
+   */
+  tagUsers(userIds: number[], tag: string) {
+    const text = tag.trim();
+    if (!text) {
+      return;
+    }
+    const ids = new Set(userIds);
+    this.baseUsers.update((users) =>
+      users.map((user) =>
+        ids.has(user.id) && !user.tags?.includes(text)
+          ? { ...user, tags: [...(user.tags ?? []), text] }
+          : user
+      )
+    );
+  }
+
+  untagUser(userId: number, tag: string) {
+    this.baseUsers.update((users) =>
+      users.map((user) =>
+        user.id === userId ? { ...user, tags: user.tags?.filter((item) => item !== tag) } : user
+      )
+    );
+  }
+
+  isSelected(userId: number): boolean {
+    return this.selectedIds().has(userId);
+  }
+
+  // Select or deselect several users at once (pending users cannot be selected)
+  setSelected(userIds: number[], selected: boolean) {
+    const next = new Set(this.selectedIds());
+    for (const userId of userIds) {
+      if (selected && !this.isPendingUser(userId)) {
+        next.add(userId);
+      } else {
+        next.delete(userId);
+      }
+    }
+    this.selectedIds.set(next);
+  }
+
+  // Select every user matching the current search and filters, on every page
+  selectAll() {
+    this.setSelected(this.users().map((user) => user.id), true);
+  }
+
+  clearSelection() {
+    this.selectedIds.set(new Set());
+  }
+
+  private deselect(userIds: number[]) {
+    if (userIds.some((userId) => this.isSelected(userId))) {
+      this.setSelected(userIds, false);
+    }
+  }
+
+  /**
+   * Merge validated rows of an imported file (kept locally, like tags)
+   *
+   * @param imported - Rows from parseUsersFile(): updates replace the user with the same id,
+   *   new users keep their id when it is free and get the next one otherwise
+   * @returns { added, updated } - How many users were created and replaced
+   */
+  importUsers(imported: ImportedUser[]): { added: number; updated: number } {
+    const users = [...this.baseUsers()];
+    const indexById = new Map(users.map((user, index) => [user.id, index]));
+    let nextId = Math.max(0, ...users.map((user) => user.id), ...importedIds(imported)) + 1;
+    let added = 0;
+    let updated = 0;
+
+    for (const item of imported) {
+      const index = item.kind === 'update' ? indexById.get(item.user.id) : undefined;
+      if (item.kind === 'update' && index !== undefined) {
+        users[index] = item.user;
+        updated++;
+      } else if (item.kind === 'add') {
+        const id = item.id !== null && !indexById.has(item.id) ? item.id : nextId++;
+        indexById.set(id, users.length);
+        users.push({ ...item.draft, id });
+        added++;
+      }
+    }
+
+    this.baseUsers.set(users);
+    return { added, updated };
+  }
+
+  // Insert users back after the users that preceded them (clamped to the current list)
+  private restoreUsers(restored: PendingDelete[]) {
+    const users = this.baseUsers();
+    const present = new Set(users.map((user) => user.id));
+    // Stable sort: users removed next to each other keep their order
+    const queue = restored
+      .filter(({ user }) => !present.has(user.id))
+      .sort((a, b) => a.index - b.index);
+    if (!queue.length) {
+      return;
+    }
+    const next: User[] = [];
+    let position = 0;
+    users.forEach((user, passed) => {
+      while (position < queue.length && queue[position].index <= passed) {
+        next.push(queue[position++].user);
+      }
+      next.push(user);
+    });
+    next.push(...queue.slice(position).map(({ user }) => user));
+    this.baseUsers.set(next);
+  }
+}
+
+// User-facing message for a failed request, prefixed with what was being done
+function describeHttpError(err: HttpErrorResponse, context: string): string {
+  return err.status === 0
+    ? `${context}: impossibile contattare il server, controlla la connessione`
+    : `${context}: ${err.status} ${err.statusText}`;
+}
+
+// Ids requested by the imported rows, reserved before new ids are assigned
+function importedIds(imported: ImportedUser[]): number[] {
+  return imported.map((item) => (item.kind === 'update' ? item.user.id : item.id ?? 0));
+}
+
+// Distinct non-empty values in alphabetical order
+function uniqueSorted(values: string[]): string[] {
+  return [...new Set(values.filter(Boolean))].sort((a, b) => a.localeCompare(b, 'it'));
 }
@@ -10,6 +10,7 @@ export interface User {
   phone: string;
   website: string;
   company: Company;
+  tags?: string[]; // Local labels added from the users list, not part of the API
 }
 
 // Interface for user address